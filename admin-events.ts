@@ -0,0 +1,197 @@
+import { timingSafeEqual } from "crypto";
+import { NextFunction, Request, Response, Router } from "express";
+import { Document, MongoClient, ObjectId } from "mongodb";
+import { z } from "zod";
+import { domainCollection, eventsProfile } from "./domain-profiles";
+import { Event, EventSchema, embedEventDocument } from "./event-documents";
+
+// Fields never sent back to admin clients
+const HIDDEN_FIELDS = { embedding: 0 };
+
+// Longest a write waits on the geocoder; events it can't place in time are saved without a location
+const GEOCODE_DEADLINE_MS = 5000;
+
+const geocodeDeadline = () => ({ deadline: Date.now() + GEOCODE_DEADLINE_MS });
+
+// Requires `Authorization: Bearer <ADMIN_API_KEY>` or `x-api-key: <ADMIN_API_KEY>`
+export function requireAdminKey(req: Request, res: Response, next: NextFunction) {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    res.status(503).json({ error: "Admin API is disabled. Set ADMIN_API_KEY to enable it." });
+    return;
+  }
+
+  const header = req.header("authorization");
+  const provided = header?.startsWith("Bearer ") ? header.slice("Bearer ".length) : req.header("x-api-key");
+  const expected = Buffer.from(adminKey);
+  const actual = Buffer.from(provided ?? "");
+
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+  next();
+}
+
+function parseObjectId(id: string): ObjectId | null {
+  return ObjectId.isValid(id) ? new ObjectId(id) : null;
+}
+
+// Paging for list endpoints. A limit of 0 would mean no limit to MongoDB, so it has to be at least 1
+export const ListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).default(50),
+  skip: z.coerce.number().int().min(0).default(0),
+});
+
+function toEvent(doc: Document): Event {
+  return EventSchema.parse(Object.fromEntries(Object.keys(EventSchema.shape).map((key) => [key, doc[key] ?? ""])));
+}
+
+export function createAdminEventsRouter(client: MongoClient): Router {
+  const router = Router();
+  const collection = domainCollection(client, eventsProfile);
+
+  router.use(requireAdminKey);
+
+  router.get("/", async (req: Request, res: Response) => {
+    const { city, type, includeArchived } = req.query;
+    const query = ListQuerySchema.safeParse({ limit: req.query.limit, skip: req.query.skip });
+    if (!query.success) {
+      res.status(400).json({ error: "Invalid limit or skip", issues: query.error.issues });
+      return;
+    }
+    const limit = Math.min(query.data.limit, 200);
+    const { skip } = query.data;
+
+    const filter: Document = {};
+    if (typeof city === "string") filter.city = city;
+    if (typeof type === "string") filter.type = type;
+    if (includeArchived !== "true") filter.archived = { $ne: true };
+
+    try {
+      const [events, total] = await Promise.all([
+        collection.find(filter, { projection: HIDDEN_FIELDS }).sort({ name: 1 }).skip(skip).limit(limit).toArray(),
+        collection.countDocuments(filter),
+      ]);
+      res.json({ events, total, limit, skip });
+    } catch (error) {
+      console.error("Error listing events: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  router.get("/:id", async (req: Request, res: Response) => {
+    const _id = parseObjectId(req.params.id);
+    if (!_id) {
+      res.status(400).json({ error: "Invalid event id" });
+      return;
+    }
+
+    try {
+      const event = await collection.findOne({ _id }, { projection: HIDDEN_FIELDS });
+      if (!event) {
+        res.status(404).json({ error: "Event not found" });
+        return;
+      }
+      res.json({ event });
+    } catch (error) {
+      console.error("Error getting event: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  router.post("/", async (req: Request, res: Response) => {
+    const parsed = EventSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid event", issues: parsed.error.issues });
+      return;
+    }
+
+    try {
+      const document = await embedEventDocument(parsed.data, geocodeDeadline());
+      const existing = await collection.findOne({ eventKey: document.eventKey }, { projection: { _id: 1 } });
+      if (existing) {
+        res.status(409).json({ error: "An event with this name, city and date already exists", id: existing._id });
+        return;
+      }
+
+      const { insertedId } = await collection.insertOne(document);
+      const { embedding, ...event } = document;
+      res.status(201).json({ event: { _id: insertedId, ...event } });
+    } catch (error) {
+      console.error("Error creating event: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // PUT replaces every field, PATCH merges the given fields into the stored event
+  const updateEvent = async (req: Request, res: Response) => {
+    const _id = parseObjectId(req.params.id);
+    if (!_id) {
+      res.status(400).json({ error: "Invalid event id" });
+      return;
+    }
+
+    const schema = req.method === "PATCH" ? EventSchema.partial() : EventSchema;
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid event", issues: parsed.error.issues });
+      return;
+    }
+
+    try {
+      const current = await collection.findOne({ _id });
+      if (!current) {
+        res.status(404).json({ error: "Event not found" });
+        return;
+      }
+
+      // Regenerate embedding_text and embedding so the change is searchable straight away
+      const document = await embedEventDocument({ ...toEvent(current), ...parsed.data }, geocodeDeadline());
+      const existing = await collection.findOne({ eventKey: document.eventKey, _id: { $ne: _id } }, { projection: { _id: 1 } });
+      if (existing) {
+        res.status(409).json({ error: "An event with this name, city and date already exists", id: existing._id });
+        return;
+      }
+
+      const updated = await collection.findOneAndUpdate(
+        { _id },
+        // A web check of the old details no longer applies once they've changed
+        {
+          $set: document,
+          $unset: { archivedAt: "", ...(current.contentHash !== document.contentHash && { verification: "" }) },
+        },
+        { returnDocument: "after", projection: HIDDEN_FIELDS }
+      );
+      res.json({ event: updated });
+    } catch (error) {
+      console.error("Error updating event: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  };
+
+  router.put("/:id", updateEvent);
+  router.patch("/:id", updateEvent);
+
+  router.delete("/:id", async (req: Request, res: Response) => {
+    const _id = parseObjectId(req.params.id);
+    if (!_id) {
+      res.status(400).json({ error: "Invalid event id" });
+      return;
+    }
+
+    try {
+      const { deletedCount } = await collection.deleteOne({ _id });
+      if (!deletedCount) {
+        res.status(404).json({ error: "Event not found" });
+        return;
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting event: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  return router;
+}
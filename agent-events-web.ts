@@ -1,5 +1,3 @@
-import { OpenAIEmbeddings } from "@langchain/openai";
-import { ChatAnthropic } from "@langchain/anthropic";
 import { AIMessage, BaseMessage, HumanMessage } from "@langchain/core/messages";
 import {
   ChatPromptTemplate,
@@ -7,298 +5,473 @@ import {
 } from "@langchain/core/prompts";
 import { StateGraph } from "@langchain/langgraph";
 import { Annotation } from "@langchain/langgraph";
-import { tool, StructuredTool } from "@langchain/core/tools";
 import { ToolNode } from "@langchain/langgraph/prebuilt";
 import { MongoDBSaver } from "@langchain/langgraph-checkpoint-mongodb";
-import { MongoDBAtlasVectorSearch } from "@langchain/mongodb";
 import { MongoClient } from "mongodb";
-import { z } from "zod";
-import { TavilySearchResults } from "@langchain/community/tools/tavily_search";
+import { RunnableConfig } from "@langchain/core/runnables";
+import {
+    AgentResult,
+    AgentRunOptions,
+    DegradedStep,
+    degradedStep,
+    describeDegraded,
+    emitEvent,
+    messageText,
+    runCallbacks,
+} from "./agent-stream";
+import { domainCollection, eventsProfile } from "./domain-profiles";
+import { groupDuplicates } from "./event-dedup";
+import { extractRecommendations, Recommendation } from "./recommendations";
+import { createEventLookupTool, createNearbyEventsTool } from "./events-lookup";
+import { MEMORY_TOOL_NAMES, createMemoryTools, describeUserProfile, loadUserProfileContext } from "./user-profiles";
+import { cachedSearch } from "./search-cache";
+import { THREADS_DB_NAME } from "./threads";
+import {
+    assessVerification,
+    EventVerification,
+    needsVerification,
+    recordVerification,
+    VerificationVerdict,
+} from "./event-verification";
+import { getChatModel, getToolCallingModel, getWebSearchTool } from "./providers";
+import { FailureReason, ProviderError, withResilience } from "./resilience";
 import "dotenv/config";
 
-// First Agent: MongoDB Event Lookup
-export async function eventLookupAgent(client: MongoClient, query: string, thread_id: string) {
-    try {
-        const dbName = "events_database";
-        const db = client.db(dbName);
-        const collection = db.collection("events");
-      
-        const GraphState = Annotation.Root({
-          messages: Annotation<BaseMessage[]>({
-            reducer: (x, y) => x.concat(y),
-          }),
-        });
+// How long the web verification steps have in total, in milliseconds. Each call within them is
+// limited by its provider's resilience policy as well
+export const WEB_AGENT_TIMEOUTS = {
+    pipeline: 45000,
+};
 
-        const eventLookupTool = tool(
-          async ({ query, n = 10 }) => {
-            try {
-                console.log("Event lookup tool called with query:", query);
-      
-                const dbConfig = {
-                  collection: collection,
-                  indexName: "vector_index",
-                  textKey: "embedding_text",
-                  embeddingKey: "embedding",
-                };
-      
-                const vectorStore = new MongoDBAtlasVectorSearch(
-                  new OpenAIEmbeddings(),
-                  dbConfig
-                );
-      
-                const result = await vectorStore.similaritySearchWithScore(query, n);
-                
-                if (!result || result.length === 0) {
-                    return JSON.stringify({ message: "NO_RESULTS_FOUND" });
-                }
-                
-                return JSON.stringify(result);
-            } catch (error:any) {
-                console.error("Error in event lookup tool:", error);
-                return JSON.stringify({ message: "NO_RESULTS_FOUND", error: error.message });
-            }
-          },
-          {
-            name: "events_lookup",
-            description: "Searches for events information in the Events database",
-            schema: z.object({
-              query: z.string().describe("The search query"),
-              n: z.number().optional().default(10).describe("Number of results to return"),
-            }),
-          }
-        );
+// How many web searches run at once
+export const WEB_SEARCH_CONCURRENCY = Number(process.env.WEB_SEARCH_CONCURRENCY) || 3;
+
+// At most this many database hits are checked on the web per turn
+const MAX_VERIFICATION_QUERIES = 5;
+
+// Tags the synthesis call so only the final answer's tokens are streamed
+const FINAL_ANSWER_TAG = "final_answer";
 
-        const tools = [eventLookupTool];
-        const toolNode = new ToolNode<typeof GraphState.State>(tools);
-      
-        const model = new ChatAnthropic({
-          model: "claude-3-5-sonnet-20240620",
-          temperature: 0,
-        }).bindTools(tools);
-      
-        function shouldContinue(state: typeof GraphState.State) {
-          const messages = state.messages;
-          const lastMessage = messages[messages.length - 1] as AIMessage;
-          return lastMessage.tool_calls?.length ? "tools" : "__end__";
+// An event returned by events_lookup or events_nearby, with its ranking score
+export interface DatabaseHit {
+    event: Record<string, any>;
+    score: number;
+}
+
+export interface WebFinding {
+    query: string;
+    results?: unknown;
+    // Served from the search cache rather than a fresh search
+    cached?: boolean;
+    error?: string;
+}
+
+const PipelineState = Annotation.Root({
+    messages: Annotation<BaseMessage[]>({
+        reducer: (x, y) => x.concat(y),
+    }),
+    // The fields below are reset at the start of every turn
+    query: Annotation<string>,
+    lookupFailed: Annotation<boolean>,
+    databaseHits: Annotation<DatabaseHit[]>,
+    databaseSummary: Annotation<string>,
+    verificationQueries: Annotation<string[]>,
+    webFindings: Annotation<WebFinding[]>,
+    verifications: Annotation<VerificationVerdict[]>,
+    // When the web verification step has to be finished by, in epoch milliseconds
+    deadline: Annotation<number>,
+    // Steps that failed this turn, which a degraded answer names
+    degraded: Annotation<DegradedStep[]>,
+    response: Annotation<string>,
+    recommendations: Annotation<Recommendation[]>,
+});
+
+type PipelineStateType = typeof PipelineState.State;
+
+// Runs `fn` over `items` with at most `limit` calls in flight, keeping the results in order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index]);
         }
-      
-        async function callModel(state: typeof GraphState.State) {
-          try {
-              const prompt = ChatPromptTemplate.fromMessages([
+    };
+    await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+    return results;
+}
+
+// Messages added since the user's latest message
+function currentTurn(messages: BaseMessage[]) {
+    const lastHumanIndex = messages.map((message) => message._getType()).lastIndexOf("human");
+    return messages.slice(lastHumanIndex + 1);
+}
+
+function parseDatabaseHits(output: string): DatabaseHit[] {
+    try {
+        const parsed = JSON.parse(output);
+        return Array.isArray(parsed) ? parsed.map(([doc, score]) => ({ event: doc.metadata, score })) : [];
+    } catch {
+        return [];
+    }
+}
+
+// Why a lookup tool came back empty-handed because the search failed, rather than finding nothing
+function lookupFailureReason(output: string): FailureReason | undefined {
+    try {
+        const parsed = JSON.parse(output);
+        return !Array.isArray(parsed) && parsed?.error ? parsed.reason ?? "error" : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+// What we tell the user when the web step can't be completed, naming the steps that failed
+function unverifiedAnswer(state: PipelineStateType, degraded: DegradedStep[]) {
+    const because = degraded.length ? ` because ${describeDegraded(degraded)}` : "";
+    return state.databaseHits.length
+        ? `RECOMMENDATIONS\nI found these events but couldn't verify all details${because}:\n${state.databaseSummary}`
+        : `RECOMMENDATIONS\nI couldn't find any specific events in our database or through web search${because}. Please try a different city or check back later.`;
+}
+
+// This turn's verdict for an event, or the one stored from an earlier check
+function latestVerification(state: PipelineStateType, event: Record<string, any>): Partial<EventVerification> | undefined {
+    return state.verifications.find((verdict) => verdict.eventId === String(event._id)) ?? event.verification;
+}
+
+function isAborted(config?: RunnableConfig) {
+    return !!config?.signal?.aborted;
+}
+
+export function buildWebAgentGraph(client: MongoClient, options: AgentRunOptions = {}) {
+    // The verification pipeline only knows events, so it always answers from an events profile, e.g. the eval fixture's
+    const collection = domainCollection(client, options.profile?.name === eventsProfile.name ? options.profile : eventsProfile);
+
+    const eventLookupTool = createEventLookupTool(collection);
+    const nearbyEventsTool = createNearbyEventsTool(client, collection);
+    // No create_itinerary here: the synthesis step rewrites the answer from the verified events, so an itinerary and
+    // its exportUrl wouldn't survive to the user. Itineraries are built by the single agent
+    const tools = [eventLookupTool, nearbyEventsTool, ...(options.userId ? createMemoryTools(client, options.userId) : [])];
+    const toolNode = new ToolNode<PipelineStateType>(tools);
+
+    // First step: the database agent searches events_lookup and summarizes what it found
+    async function lookupAgent(state: PipelineStateType, config?: RunnableConfig) {
+        const model = getToolCallingModel(tools);
+        try {
+            const prompt = ChatPromptTemplate.fromMessages([
                 [
-                  "system",
-                  `You are a helpful AI assistant/tour guide specializing in black events & restaurants, clubs, day parties, brunches, dinner parties and more around the world with a focus on black events and venues.
-
-                  ALWAYS follow this process:
-                  1. Use the events_lookup tool to search the database
-                  2. After getting results, ALWAYS format your response as follows:
-                     
-                     If results found:
-                     [Detailed list of database results]
-                     
-                     PASS_TO_WEB_AGENT
-                     Search for: [List each venue, event, or detail that needs verification]
-
-                     If no results:
-                     NO_RESULTS_FOUND
-                     
-                  Key requirements:
-                  - ALWAYS include either PASS_TO_WEB_AGENT or NO_RESULTS_FOUND in your response
-                  - If you find any results, always pass them to the web agent for verification
-                  - Include Instagram handles for each venue/event
-                  - If the user doesn't specify a city, ask for their preferred location
-                  - For recommendations, focus on events within the week
-                  - If no current events, suggest similar alternatives
-
-                  Remember: The web agent will verify and enhance your results, so ALWAYS pass your findings forward with PASS_TO_WEB_AGENT.
-
-                  You have access to the following tools: {tool_names}.\n{system_message}\nCurrent time: {time}.`,
+                    "system",
+                    `You are a helpful AI assistant/tour guide specializing in black events & restaurants, clubs, day parties, brunches, dinner parties and more around the world with a focus on black events and venues.
+
+                    ALWAYS follow this process:
+                    1. Use the events_lookup tool to search the database, passing the city and type of event from the conversation as the city and type arguments, a timeframe for relative requests like "this weekend" or "tonight", and dateFrom/dateTo (YYYY-MM-DD) for specific dates. When the user asks for events near them or near a place, use events_nearby with their lat/lng or that address and the city instead
+                    2. After getting results, reply with a detailed list of the events you found
+
+                    Key requirements:
+                    - Include Instagram handles for each venue/event
+                    - If the user doesn't specify a city, ask for their preferred location
+                    - For recommendations, focus on events within the week (search with the this_week timeframe) and quote each result's upcomingDates
+                    - Prefer a result's verification corrections over its stored details, and mention when its verification status is possibly_closed
+                    - If no current events, suggest similar alternatives
+
+                    The events you find are checked on the web before the user sees them, and a web search is run for the request when the database has nothing.
+
+                    You have access to the following tools: {tool_names}.\n{system_message}\n{user_profile}\nCurrent time: {time}.`,
                 ],
                 new MessagesPlaceholder("messages"),
-              ]);
-          
-              const formattedPrompt = await prompt.formatMessages({
+            ]);
+
+            const formattedPrompt = await prompt.formatMessages({
                 system_message: "You are the Database Search Agent.",
+                user_profile: await loadUserProfileContext(client, options.userId),
                 time: new Date().toISOString(),
                 tool_names: tools.map((tool) => tool.name).join(", "),
                 messages: state.messages,
-              });
-          
-              const result = await model.invoke(formattedPrompt);
-              return { messages: [result] };
-          } catch (error) {
-              console.error("Error in model call:", error);
-              throw error;
-          }
+            });
+
+            const result = await withResilience("chat", (signal) => model.invoke(formattedPrompt, { ...config, signal }), {
+                signal: config?.signal,
+            });
+            return { messages: [result] };
+        } catch (error) {
+            if (isAborted(config)) {
+                throw error;
+            }
+            // Carry on with a web-only search rather than failing the turn
+            console.error("Error in event lookup agent:", error);
+            emitEvent(options, { type: "fallback", reason: "lookup_failed" });
+            return { lookupFailed: true, degraded: [...state.degraded, degradedStep("lookup", error)] };
         }
-      
-        const workflow = new StateGraph(GraphState)
-          .addNode("agent", callModel)
-          .addNode("tools", toolNode)
-          .addEdge("__start__", "agent")
-          .addConditionalEdges("agent", shouldContinue)
-          .addEdge("tools", "agent");
-      
-        const checkpointer = new MongoDBSaver({ client, dbName });
-        const app = workflow.compile({ checkpointer });
-      
-        const finalState = await app.invoke(
-          {
-            messages: [new HumanMessage(query)],
-          },
-          { 
-              recursionLimit: 15, 
-              configurable: { thread_id: thread_id },
-              timeout: 60000 // 30 second timeout
-          }
-        );
-      
-        return finalState.messages[finalState.messages.length - 1].content;
-    } catch (error) {
-        console.error("Error in event lookup agent:", error);
-        return "NO_RESULTS_FOUND";
     }
-}
 
-// Second Agent: Web Search and Final Recommendations
+    function routeLookup(state: PipelineStateType) {
+        const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
+        return !state.lookupFailed && lastMessage.tool_calls?.length ? "tools" : "collect_results";
+    }
 
-// Simplified Web Search Agent
-async function webSearchAgent(query: string, dbResults: string, thread_id: string) {
-    const searchResults:any = [];
-    const model = new ChatAnthropic({
-        model: "claude-3-5-sonnet-20240620",
-        temperature: 0,
-    });
+    // Turns this turn's tool output into typed hits and decides what to verify
+    function collectResults(state: PipelineStateType) {
+        const turn = currentTurn(state.messages);
+        const lookups = turn.filter((message) => message._getType() === "tool" && !MEMORY_TOOL_NAMES.includes(message.name ?? ""));
+        // Several lookups can return the same event, so keep the best-scored hit of each
+        const databaseHits = groupDuplicates(
+            lookups.flatMap((message) => parseDatabaseHits(messageText(message.content))),
+            ({ event }) => ({ name: event.name ?? "", city: event.city, date: event.date, instagram: event.instagram })
+        ).map((group) => group.reduce((best, hit) => (hit.score > best.score ? hit : best)));
 
-    const tavilyTool = new TavilySearchResults({
-        maxResults: 3,
-    });
+        const lastMessage = turn[turn.length - 1];
+        const agentText = lastMessage?._getType() === "ai" ? messageText(lastMessage.content) : "";
+        const databaseSummary =
+            agentText ||
+            databaseHits.map(({ event }) => `- ${event.name} (${event.location ?? event.city})`).join("\n");
 
-    try {
-        // Parse the enhanced query if available
-        let searchQueries = [];
-        try {
-            const parsedQuery = JSON.parse(query);
-            if (parsedQuery.searchSummary) {
-                // Extract individual search terms from the summary
-                searchQueries = parsedQuery.searchSummary
-                    .split('\n')
-                                    // @ts-ignore
-                    .map(line => line.trim())
-                                    // @ts-ignore
-                    .filter(line => line.length > 0);
-            }
-        } catch {
-            searchQueries = [query];
+        // Events checked on the web recently keep their stored verification
+        const staleHits = databaseHits.filter(({ event }) => needsVerification(event));
+        let verificationQueries: string[] = [];
+        if (staleHits.length) {
+            const queries = staleHits.map(({ event }) => [event.name, event.location ?? event.city].filter(Boolean).join(" "));
+            verificationQueries = Array.from(new Set(queries)).slice(0, MAX_VERIFICATION_QUERIES);
+        } else if (!databaseHits.length && (lookups.length || state.lookupFailed)) {
+            // The database had nothing, so search the web for the request itself
+            verificationQueries = [state.query];
         }
 
-        // Perform searches with individual timeouts
-        for (const searchQuery of searchQueries) {
-            console.log("Web search tool called with query:", searchQuery);
-            console.log("Waiting for search results...");
-            
+        // A lookup that failed outright, e.g. with Atlas Search down, is a degraded step rather than no results
+        const lookupFailure = lookups.map((message) => lookupFailureReason(messageText(message.content))).find(Boolean);
+
+        console.log("Database hits:", databaseHits.length, "verification queries:", verificationQueries.length);
+        return {
+            databaseHits,
+            databaseSummary,
+            verificationQueries,
+            response: agentText,
+            deadline: Date.now() + WEB_AGENT_TIMEOUTS.pipeline,
+            ...(lookupFailure && { degraded: [...state.degraded, { step: "lookup" as const, reason: lookupFailure }] }),
+        };
+    }
+
+    // Anything that didn't involve the database (e.g. asking for a city) goes straight back to the user
+    function routeResults(state: PipelineStateType) {
+        if (state.verificationQueries.length) return "web_search";
+        return state.databaseHits.length ? "synthesize" : "__end__";
+    }
+
+    // Second step: look each query up on the web, recording failures instead of giving up
+    async function webSearch(state: PipelineStateType, config?: RunnableConfig) {
+        const searchTool = getWebSearchTool(3);
+        const failures: DegradedStep[] = [];
+
+        const webFindings = await mapWithConcurrency(state.verificationQueries, WEB_SEARCH_CONCURRENCY, async (query) => {
+            if (isAborted(config)) {
+                throw new Error("Web search aborted");
+            }
+            const remaining = state.deadline - Date.now();
+            if (remaining <= 0) {
+                failures.push({ step: "web_search", reason: "timeout" });
+                emitEvent(options, { type: "web_search_end", query, error: "Web search process timeout" });
+                return { query, error: "Web search process timeout" };
+            }
+
+            console.log("Web search tool called with query:", query);
+            emitEvent(options, { type: "web_search_start", query });
             try {
-                const searchPromise = tavilyTool.invoke(searchQuery);
-                const timeoutPromise = new Promise((_, reject) => 
-                    setTimeout(() => reject(new Error('Search timeout')), 10000)
+                const { results, cached } = await cachedSearch(client, query, (searchQuery) =>
+                    withResilience("web_search", (signal) => searchTool.invoke(searchQuery, { signal }), {
+                        signal: config?.signal,
+                        deadline: state.deadline,
+                    })
                 );
-                
-                const result = await Promise.race([searchPromise, timeoutPromise]);
-                console.log("Search completed successfully");
-                searchResults.push({ query: searchQuery, results: result });
-            } catch (error:any) {
+                emitEvent(options, { type: "web_search_end", query, cached });
+                return { query, results, cached };
+            } catch (error: any) {
+                if (isAborted(config)) {
+                    throw error;
+                }
                 console.log("Search failed or timed out:", error.message);
-                searchResults.push({ query: searchQuery, error: error.message });
+                failures.push(degradedStep("web_search", error));
+                emitEvent(options, { type: "web_search_end", query, error: error.message });
+                return { query, error: error.message };
             }
+        });
+
+        // Some results are enough to go on; with none the answer says web search failed
+        const searched = webFindings.some((finding) => !finding.error);
+        return { webFindings, ...(!searched && failures.length && { degraded: [...state.degraded, failures[0]] }) };
+    }
+
+    // Judges each searched event against the web findings and stores the verdict on its document
+    async function verifyEvents(state: PipelineStateType, config?: RunnableConfig) {
+        const events = state.databaseHits.map(({ event }) => event).filter((event) => needsVerification(event));
+        const remaining = state.deadline - Date.now();
+        if (!events.length || remaining <= 0 || !state.webFindings.some((finding) => !finding.error)) {
+            return { verifications: [] };
         }
 
-        // Process results with a timeout
-        const processPromise = new Promise(async (resolve) => {
-            try {
-                // Format the collected results
+        try {
+            const verifications = await assessVerification(events, JSON.stringify(state.webFindings), {
+                ...options,
+                signal: config?.signal,
+                deadline: state.deadline,
+            });
+            await recordVerification(collection, verifications);
+            return { verifications };
+        } catch (error) {
+            if (isAborted(config)) {
+                throw error;
+            }
+            console.error("Error recording verification:", error);
+            emitEvent(options, { type: "fallback", reason: "verification_failed" });
+            return { verifications: [], degraded: [...state.degraded, degradedStep("verification", error)] };
+        }
+    }
 
-                const resultsContext = `
-                Original Query: ${query}
-                Database Results: ${dbResults} 
-                Web Search Results: ${JSON.stringify(searchResults, null, 2)}
-                ` 
+    // Final step: combine the database and web findings into the answer
+    async function synthesize(state: PipelineStateType, config?: RunnableConfig) {
+        const remaining = state.deadline - Date.now();
+        if (remaining <= 0) {
+            console.log("Web verification ran out of time, returning available information");
+            emitEvent(options, { type: "fallback", reason: "pipeline_timeout" });
+            // Usually a search already timed out, which says as much
+            const degraded = state.degraded.length ? state.degraded : [{ step: "synthesis" as const, reason: "timeout" as const }];
+            const response = unverifiedAnswer(state, degraded);
+            return { response, degraded, messages: [new AIMessage(response)] };
+        }
 
-                const response = await model.invoke(
-                    `You are an event recommendation assistant. Based on these search results, provide a concise summary of verified events and venues. Include social media links and website URLs where available. Start your response with RECOMMENDATIONS:\n\n${resultsContext}`
-                );
-                
-                resolve(response.content);
-            } catch (error) {
-                resolve(`RECOMMENDATIONS\nI found these events but couldn't verify all details:\n${dbResults}`);
+        try {
+            const profile = await describeUserProfile(client, options.userId);
+            const resultsContext = `
+            Original Query: ${state.query}${profile ? `\n            User Profile: ${profile}` : ""}
+            Database Results: ${state.databaseHits.length ? state.databaseSummary : "No database results found."}
+            Web Search Results: ${JSON.stringify(state.webFindings, null, 2)}
+            Verification: ${JSON.stringify(
+                state.databaseHits.map(({ event }) => ({ name: event.name, ...(latestVerification(state, event) ?? { status: "not_checked" }) })),
+                null,
+                2
+            )}
+            `;
+
+            const model = getChatModel();
+            const result = await withResilience(
+                "chat",
+                (signal) =>
+                    model.invoke(
+                        `You are an event recommendation assistant. Based on these search results, provide a concise summary of verified events and venues. Include social media links and website URLs where available. Start your response with RECOMMENDATIONS:\n\n${resultsContext}`,
+                        { ...config, signal, tags: [...(config?.tags ?? []), FINAL_ANSWER_TAG] }
+                    ),
+                // Tokens already streamed can't be taken back, so a streamed answer isn't retried
+                { signal: config?.signal, deadline: state.deadline, retries: options.onEvent ? 0 : undefined }
+            );
+
+            const response = messageText(result.content);
+            return { response, messages: [new AIMessage(response)] };
+        } catch (error) {
+            if (isAborted(config)) {
+                throw error;
             }
-        });
+            console.error("Error in web synthesis:", error);
+            emitEvent(options, { type: "fallback", reason: "synthesis_failed" });
+            const degraded = [...state.degraded, degradedStep("synthesis", error)];
+            const response = unverifiedAnswer(state, degraded);
+            return { response, degraded, messages: [new AIMessage(response)] };
+        }
+    }
 
-        const timeoutPromise = new Promise((_, reject) => 
-            setTimeout(() => reject(new Error('Processing timeout')), 15000)
-        );
+    // Structured recommendations, backed by the database hits and web findings from this turn
+    async function recommend(state: PipelineStateType, config?: RunnableConfig) {
+        if (!state.databaseHits.length && !state.webFindings.some((finding) => !finding.error)) {
+            return { recommendations: [] };
+        }
 
-        return await Promise.race([processPromise, timeoutPromise])
-            .catch(() => `RECOMMENDATIONS\nI found these events but couldn't verify all details:\n${dbResults}`);
+        const recommendations = await extractRecommendations(
+            state.response,
+            {
+                databaseResults: JSON.stringify(state.databaseHits),
+                webResults: state.webFindings.length ? JSON.stringify(state.webFindings) : undefined,
+            },
+            { ...options, signal: config?.signal }
+        );
 
-    } catch (error) {
-        console.error("Error in web search agent:", error);
-        return `RECOMMENDATIONS\nI found these events but couldn't verify all details:\n${dbResults}`;
+        // Events verified on an earlier turn still count as checked
+        const hitsById = new Map(state.databaseHits.map(({ event }) => [String(event._id), event]));
+        return {
+            recommendations: recommendations.map((recommendation) => {
+                const event = recommendation.eventId ? hitsById.get(recommendation.eventId) : undefined;
+                const verification = event && latestVerification(state, event);
+                return verification
+                    ? { ...recommendation, verificationStatus: verification.status === "verified" ? "verified" : "unverified" }
+                    : recommendation;
+            }),
+        };
     }
+
+    return new StateGraph(PipelineState)
+        .addNode("lookup_agent", lookupAgent)
+        .addNode("tools", toolNode)
+        .addNode("collect_results", collectResults)
+        .addNode("web_search", webSearch)
+        .addNode("verify_events", verifyEvents)
+        .addNode("synthesize", synthesize)
+        .addNode("recommend", recommend)
+        .addEdge("__start__", "lookup_agent")
+        .addConditionalEdges("lookup_agent", routeLookup)
+        .addEdge("tools", "lookup_agent")
+        .addConditionalEdges("collect_results", routeResults)
+        .addEdge("web_search", "verify_events")
+        .addEdge("verify_events", "synthesize")
+        .addEdge("synthesize", "recommend")
+        .addEdge("recommend", "__end__")
+        .compile({ checkpointer: new MongoDBSaver({ client, dbName: THREADS_DB_NAME }) });
 }
 
-export async function callAgent(client: MongoClient, query: string, thread_id: string) {
+export async function callAgent(
+    client: MongoClient,
+    query: string,
+    thread_id: string,
+    options: AgentRunOptions = {}
+): Promise<AgentResult> {
     try {
         console.log("Starting agent workflow with query:", query);
-        
-        // First, call the event lookup agent
-        const dbResults = await eventLookupAgent(client, query, thread_id);
-        console.log("Database results received");
-        
-        // Check if we should proceed to web search
-        if (dbResults && typeof dbResults === 'string') {
-            if (dbResults.includes("PASS_TO_WEB_AGENT")) {
-                console.log("Proceeding to web search");
-                const searchSummary = dbResults.split("PASS_TO_WEB_AGENT")[1].trim();
-                
-                const enhancedQuery = {
-                    originalQuery: query,
-                    searchSummary: searchSummary,
-                    dbResults: dbResults.split("PASS_TO_WEB_AGENT")[0].trim()
-                };
-
-                // Set a timeout for the entire web search process
-                try {
-                    const webSearchPromise = webSearchAgent(JSON.stringify(enhancedQuery), dbResults, thread_id);
-                    const timeoutPromise = new Promise((_, reject) => 
-                        setTimeout(() => reject(new Error('Web search process timeout')), 45000)
-                    );
-                    
-                    const finalResults = await Promise.race([webSearchPromise, timeoutPromise]);
-                    return finalResults;
-                } catch (error) {
-                    console.log("Web search timed out or failed, returning available information");
-                    return `RECOMMENDATIONS\nI found some events but couldn't verify all details:\n${dbResults.split("PASS_TO_WEB_AGENT")[0]}`;
-                }
-            } else if (dbResults.includes("NO_RESULTS_FOUND")) {
-                console.log("No database results, proceeding with web-only search");
-                try {
-                    const webSearchPromise = webSearchAgent(query, "No database results found.", thread_id);
-                    const timeoutPromise = new Promise((_, reject) => 
-                        setTimeout(() => reject(new Error('Web search process timeout')), 45000)
-                    );
-                    
-                    const finalResults = await Promise.race([webSearchPromise, timeoutPromise]);
-                    return finalResults;
-                } catch (error) {
-                    return "RECOMMENDATIONS\nI couldn't find any specific events in our database or through web search. Please try a different city or check back later.";
-                }
+
+        const finalState = await buildWebAgentGraph(client, options).invoke(
+            {
+                messages: [new HumanMessage(query)],
+                query,
+                lookupFailed: false,
+                databaseHits: [],
+                databaseSummary: "",
+                verificationQueries: [],
+                webFindings: [],
+                verifications: [],
+                degraded: [],
+                response: "",
+                recommendations: [],
+            },
+            {
+                recursionLimit: 20,
+                configurable: { thread_id: thread_id },
+                signal: options.signal,
+                // Tool activity is streamed from every step, but tokens only from the final answer
+                callbacks: runCallbacks(options, FINAL_ANSWER_TAG),
             }
-        }
-        
-        console.log("Returning database results only");
-        return dbResults;
+        );
+
+        return {
+            response: finalState.response,
+            recommendations: finalState.recommendations,
+            ...(finalState.degraded.length && { degraded: finalState.degraded }),
+        };
     } catch (error) {
+        if (options.signal?.aborted) {
+            throw error;
+        }
         console.error("Error in main agent workflow:", error);
-        return "I apologize, but I encountered an error while processing your request. Please try again or rephrase your query.";
+        emitEvent(options, { type: "fallback", reason: "pipeline_error" });
+        const degraded = [degradedStep(error instanceof ProviderError ? "model" : "pipeline", error)];
+        return {
+            response: `I apologize, but I couldn't complete your request because ${describeDegraded(degraded)}. Please try again or rephrase your query.`,
+            recommendations: [],
+            degraded,
+        };
     }
-}
\ No newline at end of file
+}
@@ -1,5 +1,3 @@
-import { OpenAIEmbeddings } from "@langchain/openai";
-import { ChatAnthropic } from "@langchain/anthropic";
 import { AIMessage, BaseMessage, HumanMessage } from "@langchain/core/messages";
 import {
   ChatPromptTemplate,
@@ -7,20 +5,27 @@ import {
 } from "@langchain/core/prompts";
 import { StateGraph } from "@langchain/langgraph";
 import { Annotation } from "@langchain/langgraph";
-import { tool,StructuredTool } from "@langchain/core/tools";
 import { ToolNode } from "@langchain/langgraph/prebuilt";
 import { MongoDBSaver } from "@langchain/langgraph-checkpoint-mongodb";
-import { MongoDBAtlasVectorSearch } from "@langchain/mongodb";
 import { MongoClient } from "mongodb";
-import { z } from "zod";
-import { TavilySearchResults } from "@langchain/community/tools/tavily_search";
+import { RunnableConfig } from "@langchain/core/runnables";
+import { AgentResult, AgentRunOptions, degradedStep, describeDegraded, emitEvent, messageText, runCallbacks } from "./agent-stream";
+import { createDomainTools, eventsProfile } from "./domain-profiles";
+import { extractRecommendations } from "./recommendations";
+import { getToolCallingModel } from "./providers";
+import { ProviderError, withResilience } from "./resilience";
+import { THREADS_DB_NAME } from "./threads";
+import { MEMORY_TOOL_NAMES, createMemoryTools, loadUserProfileContext } from "./user-profiles";
 import "dotenv/config";
 
-export async function callAgent(client: MongoClient, query: string, thread_id: string) {
-    // Define the MongoDB database and collection
-    const dbName = "events_database";
-    const db = client.db(dbName);
-    const collection = db.collection("events");
+export async function callAgent(
+  client: MongoClient,
+  query: string,
+  thread_id: string,
+  options: AgentRunOptions = {}
+): Promise<AgentResult> {
+    // The knowledge base, tools and prompt come from the domain profile
+    const profile = options.profile ?? eventsProfile;
   
     // Define the graph state
     const GraphState = Annotation.Root({
@@ -32,49 +37,15 @@ export async function callAgent(client: MongoClient, query: string, thread_id: s
  
   
     // Define the tools for the agent to use
-    const eventLookupTool = tool(
-      async ({ query, n = 10 }) => {
-        console.log("Event lookup tool called");
-  
-        const dbConfig = {
-          collection: collection,
-          indexName: "vector_index",
-          textKey: "embedding_text",
-          embeddingKey: "embedding",
-        };
-  
-        // Initialize vector store
-        const vectorStore = new MongoDBAtlasVectorSearch(
-          new OpenAIEmbeddings(),
-          dbConfig
-        );
-  
-        const result = await vectorStore.similaritySearchWithScore(query, n);
-        return JSON.stringify(result);
-      },
-      {
-        name: "events_lookup",
-        description: "Gathers events information from Events database",
-        schema: z.object({
-          query: z.string().describe("The search query"),
-          n: z
-            .number()
-            .optional()
-            .default(10)
-            .describe("Number of results to return"),
-        }),
-      }
-    );
-  
-    const tools = [eventLookupTool];
+    const tools = [
+      ...createDomainTools(profile, client),
+      ...(profile.userMemory && options.userId ? createMemoryTools(client, options.userId) : []),
+    ];
     
     // We can extract the state typing via `GraphState.State`
     const toolNode = new ToolNode<typeof GraphState.State>(tools);
   
-    const model = new ChatAnthropic({
-      model: "claude-3-5-sonnet-20240620",
-      temperature: 0,
-    }).bindTools(tools);
+    const model = getToolCallingModel(tools);
   
     // Define the function that determines whether to continue or not
     function shouldContinue(state: typeof GraphState.State) {
@@ -90,34 +61,26 @@ export async function callAgent(client: MongoClient, query: string, thread_id: s
     }
   
     // Define the function that calls the model
-    async function callModel(state: typeof GraphState.State) {
+    async function callModel(state: typeof GraphState.State, config?: RunnableConfig) {
       const prompt = ChatPromptTemplate.fromMessages([
-        [
-          "system",
-          `You are a helpful AI assistant/tour guide specializing in black events & restaurants, clubs, day parties, brunches, dinner parties and more around the world although your main focus is on black events and clubs/venues, 
-          collaborating with other assistants. Use the provided tools to progress towards answering the question.
-           If the user asks you for recommendations, provide a list that matches what they're looking for. 
-           If a user asks for recommendations, provide anything thats happening within the week but if there isn't anything give alternative recommendations similar to their query or alternative places to check out.
-           If the user asks you to create an itinerary using the information, in this case provide one.
-           If you are asked about specific events, clubs, venues, restaurants in your database provide this information to the user regardless of them specifying a city, then ask if they are interested in similar events.
-           If the user doesn't specify a city they will be in and they don't ask about a specific event in the database, ask them what city they would like the recommendations for before providing a recommendation.
-           If you are unable to fully answer, that's OK, another assistant with different tools will help where you left off. Execute what you can to make progress. 
-           If you or any of the other assistants have the final answer or deliverable, prefix your response with RECOMMENDATIONS so the team knows to stop. 
-           If you are asked about restaurants, you can provide recommendations from your tools as these are listed in there.
-           for each recommendation you provide or when you provide information for a specific event, club, restaurant etc. convert the instagram handle to a clickable link and provide this as well
-           You have access to the following tools: {tool_names}.\n{system_message}\nCurrent time: {time}.`,
-        ],
+        ["system", profile.systemPrompt],
         new MessagesPlaceholder("messages"),
       ]);
   
       const formattedPrompt = await prompt.formatMessages({
-        system_message: "You are helpful Black events tour guide/Chatbot Agent.",
+        system_message: profile.systemMessage,
+        // Read on every call so preferences saved earlier in the turn are included
+        user_profile: profile.userMemory ? await loadUserProfileContext(client, options.userId) : "",
         time: new Date().toISOString(),
         tool_names: tools.map((tool) => tool.name).join(", "),
         messages: state.messages,
       });
   
-      const result = await model.invoke(formattedPrompt);
+      // Tokens already streamed can't be taken back, so a streamed reply isn't retried
+      const result = await withResilience("chat", (signal) => model.invoke(formattedPrompt, { ...config, signal }), {
+        signal: config?.signal,
+        retries: options.onEvent ? 0 : undefined,
+      });
   
       return { messages: [result] };
     }
@@ -131,22 +94,56 @@ export async function callAgent(client: MongoClient, query: string, thread_id: s
       .addEdge("tools", "agent");
   
     // Initialize the MongoDB memory to persist state between graph runs
-    const checkpointer = new MongoDBSaver({ client, dbName });
+    const checkpointer = new MongoDBSaver({ client, dbName: THREADS_DB_NAME });
   
     // This compiles it into a LangChain Runnable.
     // Note that we're passing the memory when compiling the graph
     const app = workflow.compile({ checkpointer });
   
     // Use the Runnable
-    const finalState = await app.invoke(
-      {
-        messages: [new HumanMessage(query)],
-      },
-      { recursionLimit: 15, configurable: { thread_id: thread_id } }
-    );
+    let finalState: typeof GraphState.State;
+    try {
+      finalState = await app.invoke(
+        {
+          messages: [new HumanMessage(query)],
+        },
+        {
+          recursionLimit: 15,
+          configurable: { thread_id: thread_id },
+          signal: options.signal,
+          callbacks: runCallbacks(options),
+        }
+      );
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      // Answer with what went wrong rather than failing the request
+      console.error("Error in agent workflow:", error);
+      const degraded = [degradedStep(error instanceof ProviderError ? "model" : "pipeline", error)];
+      emitEvent(options, { type: "fallback", reason: `${degraded[0].step}_failed` });
+      return {
+        response: `I'm sorry, I couldn't answer that because ${describeDegraded(degraded)}. Please try again in a moment.`,
+        recommendations: [],
+        degraded,
+      };
+    }
   
     // console.log(JSON.stringify(finalState.messages, null, 2));
     console.log(finalState.messages[finalState.messages.length - 1].content);
   
-    return finalState.messages[finalState.messages.length - 1].content;
+    const response = messageText(finalState.messages[finalState.messages.length - 1].content);
+
+    // Only the tool results from this turn back the recommendations in the answer
+    const lastHumanIndex = finalState.messages.map((message) => message._getType()).lastIndexOf("human");
+    const toolResults = finalState.messages
+      .slice(lastHumanIndex + 1)
+      .filter((message) => message._getType() === "tool" && !MEMORY_TOOL_NAMES.includes(message.name ?? ""))
+      .map((message) => messageText(message.content));
+
+    const recommendations = profile.recommendations && toolResults.length
+      ? await extractRecommendations(response, { databaseResults: toolResults.join("\n") }, options)
+      : [];
+
+    return { response, recommendations };
   }
\ No newline at end of file
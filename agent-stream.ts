@@ -0,0 +1,192 @@
+import { BaseCallbackHandler, NewTokenIndices } from "@langchain/core/callbacks/base";
+import { Serialized } from "@langchain/core/load/serializable";
+import { AIMessage, isBaseMessage, isToolMessage } from "@langchain/core/messages";
+import { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+import type { DomainProfile } from "./domain-profiles";
+import { Recommendation } from "./recommendations";
+import { FailureReason, failureReason } from "./resilience";
+
+// Events emitted while an agent run is in progress
+export type AgentStreamEvent =
+  | { type: "token"; content: string }
+  | { type: "events_lookup_start"; query: string; args: Record<string, unknown> }
+  | { type: "tool_result"; tool: string; output: string }
+  | { type: "web_search_start"; query: string }
+  | { type: "web_search_end"; query: string; cached?: boolean; error?: string }
+  // The run answered from a fallback path, e.g. without web verification
+  | { type: "fallback"; reason: string }
+  | { type: "final"; content: string; recommendations: Recommendation[]; degraded?: DegradedStep[] }
+  | { type: "error"; message: string };
+
+// A step of the run that failed and was answered around, e.g. web search timing out
+export interface DegradedStep {
+  step: "lookup" | "web_search" | "verification" | "synthesis" | "model" | "pipeline";
+  reason: FailureReason;
+}
+
+// What a completed agent run returns to the chat routes
+export interface AgentResult {
+  response: string;
+  recommendations: Recommendation[];
+  // Only set when some step failed and the answer is a degraded one
+  degraded?: DegradedStep[];
+}
+
+const STEP_LABELS: Record<DegradedStep["step"], string> = {
+  lookup: "the events database search",
+  web_search: "web search",
+  verification: "web verification",
+  synthesis: "writing the verified answer",
+  model: "the language model",
+  pipeline: "processing the request",
+};
+
+const REASON_LABELS: Record<FailureReason, string> = {
+  timeout: "timed out",
+  unavailable: "is temporarily unavailable",
+  error: "failed",
+};
+
+export function degradedStep(step: DegradedStep["step"], error: unknown): DegradedStep {
+  return { step, reason: failureReason(error) };
+}
+
+// Says which steps failed and how, for degraded answers, e.g. "web search timed out"
+export function describeDegraded(steps: DegradedStep[]): string {
+  return steps.map(({ step, reason }) => `${STEP_LABELS[step]} ${REASON_LABELS[reason]}`).join(" and ");
+}
+
+export interface AgentRunOptions {
+  signal?: AbortSignal;
+  // Whose remembered preferences the agent reads and updates
+  userId?: string;
+  onEvent?: (event: AgentStreamEvent) => void;
+  // Called with the tokens each model call used, for rate limiting
+  onTokenUsage?: (tokens: number) => void;
+  trace?: RunTrace;
+  // The knowledge base the agent answers from; the events profile when left out
+  profile?: DomainProfile;
+}
+
+// Records a run for debugging: a callback handler that also sees the events streamed to the client
+export interface RunTrace extends BaseCallbackHandler {
+  record(event: AgentStreamEvent): void;
+}
+
+// Sends an event to the client stream and the trace, for events raised outside of callbacks
+export function emitEvent(options: AgentRunOptions, event: AgentStreamEvent) {
+  options.onEvent?.(event);
+  options.trace?.record(event);
+}
+
+// Forwards model tokens and tool activity from a LangGraph run to `onEvent`
+export class AgentEventHandler extends BaseCallbackHandler {
+  name = "agent_event_handler";
+
+  // Ask chat models to stream so we receive token deltas
+  lc_prefer_streaming = true;
+
+  private toolNames = new Map<string, string>();
+
+  // `streamTokens` is off for intermediate agents whose text isn't shown to the user,
+  // or a tag naming the only model calls whose tokens should be forwarded
+  constructor(
+    private onEvent: (event: AgentStreamEvent) => void,
+    private streamTokens: boolean | string = true
+  ) {
+    super();
+    this.awaitHandlers = true;
+    this.lc_prefer_streaming = streamTokens !== false;
+  }
+
+  handleLLMNewToken(
+    token: string,
+    idx?: NewTokenIndices,
+    runId?: string,
+    parentRunId?: string,
+    tags?: string[]
+  ) {
+    const forward = typeof this.streamTokens === "string" ? !!tags?.includes(this.streamTokens) : this.streamTokens;
+    if (token && forward) {
+      this.onEvent({ type: "token", content: token });
+    }
+  }
+
+  handleToolStart(
+    tool: Serialized,
+    input: string,
+    runId: string,
+    parentRunId?: string,
+    tags?: string[],
+    metadata?: Record<string, unknown>,
+    runName?: string
+  ) {
+    const toolName = runName ?? tool.id[tool.id.length - 1];
+    this.toolNames.set(runId, toolName);
+
+    if (toolName === "events_lookup") {
+      let args: Record<string, unknown> = {};
+      try {
+        args = JSON.parse(input);
+      } catch {
+        args = { query: input };
+      }
+      this.onEvent({ type: "events_lookup_start", query: String(args.query ?? ""), args });
+    }
+  }
+
+  // Tools called by the agent end with a ToolMessage, tools invoked directly with their raw output
+  handleToolEnd(output: unknown, runId: string) {
+    const toolName = this.toolNames.get(runId) ?? "unknown";
+    this.toolNames.delete(runId);
+
+    const content = isBaseMessage(output) && isToolMessage(output) ? output.content : output;
+    this.onEvent({
+      type: "tool_result",
+      tool: toolName,
+      output: typeof content === "string" ? content : JSON.stringify(content),
+    });
+  }
+}
+
+// Reports the tokens each model call used, from the message's usage metadata or the provider's own output
+export class TokenUsageHandler extends BaseCallbackHandler {
+  name = "token_usage_handler";
+
+  constructor(private onTokenUsage: (tokens: number) => void) {
+    super();
+    this.awaitHandlers = true;
+  }
+
+  handleLLMEnd(output: LLMResult) {
+    const fromMessages = output.generations
+      .flat()
+      .reduce((total, generation) => total + (((generation as ChatGeneration).message as AIMessage | undefined)?.usage_metadata?.total_tokens ?? 0), 0);
+    const tokens = fromMessages || output.llmOutput?.tokenUsage?.totalTokens || 0;
+    if (tokens) {
+      this.onTokenUsage(tokens);
+    }
+  }
+}
+
+// The callbacks an agent run needs for its options. `streamTokens` is passed to AgentEventHandler
+export function runCallbacks(options: AgentRunOptions, streamTokens: boolean | string = true) {
+  const callbacks: BaseCallbackHandler[] = [];
+  if (options.onEvent) callbacks.push(new AgentEventHandler(options.onEvent, streamTokens));
+  if (options.onTokenUsage) callbacks.push(new TokenUsageHandler(options.onTokenUsage));
+  if (options.trace) callbacks.push(options.trace);
+  return callbacks.length ? callbacks : undefined;
+}
+
+// Extracts the plain text from a message's content, which may be a list of content blocks
+export function messageText(content: unknown): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((block) => (typeof block === "string" ? block : block?.type === "text" ? block.text : ""))
+      .join("");
+  }
+  return "";
+}
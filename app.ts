@@ -0,0 +1,243 @@
+import { MongoClient } from "mongodb";
+import express, {Express, Request, Response } from "express";
+import cors from 'cors';
+import * as eventsAgent from "./agent-events";
+import * as webEventsAgent from "./agent-events-web";
+import { AgentResult, AgentRunOptions, AgentStreamEvent } from "./agent-stream";
+import { createAdminEventsRouter } from "./admin-events";
+import { DOMAIN_PROFILES, DomainProfile, eventsProfile } from "./domain-profiles";
+import { AuthOptions, UserIdSchema, authOf, createApiKeysRouter, createAuthMiddleware } from "./auth";
+import { createEventCalendarRouter } from "./icalendar";
+import { createItinerariesRouter } from "./itinerary";
+import { recordHttpMetrics, renderMetrics } from "./metrics";
+import { createSearchCacheRouter } from "./search-cache";
+import {
+    canAccessThread,
+    createThreadId,
+    createThreadsRouter,
+    isThreadInDomain,
+    recordThreadActivity,
+    recordThreadRecommendations,
+} from "./threads";
+import { TraceRecorder, createTracesRouter } from "./tracing";
+import { createUsersRouter } from "./user-profiles";
+
+export interface AppOptions {
+    // "web" runs the database + web verification pipeline instead of the single agent
+    agent?: "single" | "web";
+    auth?: AuthOptions;
+}
+
+// CORS_ORIGINS is a comma-separated allow list; without it any origin may call the API
+function corsOptions(): cors.CorsOptions {
+    const origins = process.env.CORS_ORIGINS?.split(',').map((origin) => origin.trim()).filter(Boolean);
+    return origins?.length ? {origin: origins} : {};
+}
+
+export function createApp(client: MongoClient, options: AppOptions = {}): Express {
+    const agent = options.agent ?? (process.env.EVENTS_AGENT === "web" ? "web" : "single");
+
+    const auth = createAuthMiddleware(client, options.auth);
+
+    const app: Express = express();
+    app.use(recordHttpMetrics);
+    app.use(cors(corsOptions()));
+    app.use(express.json());
+
+    // Everything but the admin routes and /metrics needs an API key or JWT, and chats need tokens left this hour
+    app.use(['/chat', '/threads', '/traces', '/users', '/itineraries', '/events'], auth.authenticate);
+    app.use('/chat', auth.requireTokenBudget);
+
+    // Who a chat runs as: the authenticated user, or with auth off the optional userId in the request,
+    // which lets the agent remember preferences across threads. Sends the error and returns null when
+    // the chat can't go ahead, including when the thread belongs to someone else or another domain
+    const chatUser = async (res: Response, profile: DomainProfile, requestedUserId: unknown, threadId?: string) => {
+        if (requestedUserId !== undefined && !UserIdSchema.safeParse(requestedUserId).success) {
+            res.status(400).json({error: 'Invalid userId'});
+            return null;
+        }
+        const authenticated = authOf(res)?.userId;
+        if (authenticated && requestedUserId !== undefined && requestedUserId !== authenticated) {
+            res.status(403).json({error: 'userId does not match the authenticated user'});
+            return null;
+        }
+        if (authenticated && threadId && !(await canAccessThread(client, threadId, authenticated))) {
+            res.status(403).json({error: 'Forbidden'});
+            return null;
+        }
+        if (threadId && !(await isThreadInDomain(client, threadId, profile.name))) {
+            res.status(409).json({error: `Thread was not started in the ${profile.name} domain`});
+            return null;
+        }
+        return {userId: authenticated ?? (requestedUserId as string | undefined), ownerId: authenticated};
+    }
+
+    // Runs the domain's agent for a chat request, saving a trace of the run for GET /traces/:threadId and
+    // the recommendations for the thread's calendar export. Only events can use the web pipeline
+    const runAgent = async (res: Response, profile: DomainProfile, message: string, threadId: string, userId?: string, runOptions: AgentRunOptions = {}) => {
+        const web = agent === "web" && profile === eventsProfile;
+        const callAgent = web ? webEventsAgent.callAgent : eventsAgent.callAgent;
+        const trace = new TraceRecorder({threadId, agent: web ? "web" : "single", domain: profile.name, query: message, userId});
+        let result: AgentResult;
+        try {
+            result = await callAgent(client, message, threadId, {
+                ...runOptions,
+                userId,
+                profile,
+                onTokenUsage: auth.recordTokens(res),
+                trace,
+            });
+        } catch (error) {
+            await trace.finish(client, runOptions.signal?.aborted ? 'aborted' : 'error', error);
+            throw error;
+        }
+        if (result.degraded) trace.recordDegraded(result.degraded);
+        await trace.finish(client, result.degraded ? 'degraded' : 'ok');
+        await recordThreadRecommendations(client, threadId, result.recommendations);
+        return result;
+    }
+
+    // Aborts the run, and with it any model, search or database call in flight, if the client goes away before we finish
+    const abortOnClose = (res: Response) => {
+        const controller = new AbortController();
+        res.on('close', () => {
+            if (!res.writableEnded) controller.abort();
+        });
+        return controller.signal;
+    }
+
+    // Sends a 400 and returns false unless the request has a message to send
+    const requireMessage = (res: Response, message: unknown): message is string => {
+        if (typeof message !== "string" || !message.trim()) {
+            res.status(400).json({error: 'message is required'});
+            return false;
+        }
+        return true;
+    }
+
+    // The chat routes for one domain, mounted at /chat/:domain and, for events, at /chat as well
+    const createChatRouter = (profile: DomainProfile) => {
+        const router = express.Router();
+
+        // /chat/hr always means the HR domain, so no thread can be named after a domain
+        router.param('threadId', (req, res, next, threadId) => {
+            if (DOMAIN_PROFILES.some((domain) => domain.name === threadId)) {
+                res.status(400).json({error: 'Thread ids cannot be domain names'});
+                return;
+            }
+            next();
+        });
+
+        router.post('/', async (req:Request, res:Response)=> {
+            const initialMessage = req.body.message;
+            if (!requireMessage(res, initialMessage)) return;
+            const threadId = createThreadId();
+            const signal = abortOnClose(res);
+            try {
+                const user = await chatUser(res, profile, req.body.userId);
+                if (!user) return;
+                await recordThreadActivity(client, threadId, user.ownerId, profile.name);
+                const {response, recommendations, degraded} = await runAgent(res, profile, initialMessage, threadId, user.userId, {signal});
+                res.json({threadId, response, recommendations, ...(degraded && {degraded})});
+            } catch (error) {
+                if (signal.aborted) return;
+                console.error('Error starting conversation: ',error);
+                res.status(500).json({error: 'Internal server error'});
+            }
+        })
+
+        router.post('/:threadId', async (req:Request, res:Response) => {
+            const {threadId} = req.params;
+            const {message} = req.body;
+            if (!requireMessage(res, message)) return;
+            const signal = abortOnClose(res);
+            try {
+                const user = await chatUser(res, profile, req.body.userId, threadId);
+                if (!user) return;
+                await recordThreadActivity(client, threadId, user.ownerId, profile.name);
+                const {response, recommendations, degraded} = await runAgent(res, profile, message, threadId, user.userId, {signal});
+                res.json({response, recommendations, ...(degraded && {degraded})});
+            } catch (error) {
+                if (signal.aborted) return;
+                console.error('Error in chat: ',error);
+                res.status(500).json({error: 'Internal server error'});
+            }
+        })
+        // Streams the agent run as Server-Sent Events. GET takes the message as ?message= and the user as ?userId=
+        const streamChat = async (req:Request, res:Response) => {
+            const {threadId} = req.params;
+            const {message, userId} = req.method === "GET" ? req.query : req.body;
+            if (!requireMessage(res, message)) return;
+            let user: Awaited<ReturnType<typeof chatUser>>;
+            try {
+                user = await chatUser(res, profile, userId, threadId);
+            } catch (error) {
+                console.error('Error in chat stream: ',error);
+                res.status(500).json({error: 'Internal server error'});
+                return;
+            }
+            if (!user) return;
+
+            res.writeHead(200, {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                'Connection': 'keep-alive',
+            });
+
+            const signal = abortOnClose(res);
+
+            const send = (event: AgentStreamEvent) => {
+                if (!res.writableEnded) {
+                    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+                }
+            };
+
+            try {
+                await recordThreadActivity(client, threadId, user.ownerId, profile.name);
+                const {response, recommendations, degraded} = await runAgent(res, profile, message, threadId, user.userId, {
+                    signal,
+                    onEvent: send,
+                });
+                send({type: 'final', content: response, recommendations, ...(degraded && {degraded})});
+            } catch (error) {
+                if (!signal.aborted) {
+                    console.error('Error in chat stream: ',error);
+                    send({type: 'error', message: 'Internal server error'});
+                }
+            } finally {
+                res.end();
+            }
+        }
+
+        router.get('/:threadId/stream', streamChat);
+        router.post('/:threadId/stream', streamChat);
+
+        return router;
+    }
+
+    app.get('/', (req:Request, res:Response)=> {
+        res.send('LangGraph Agent Server')
+    })
+
+    // Each domain has its own chat routes; the unprefixed ones keep talking to the events agent
+    for (const profile of DOMAIN_PROFILES) {
+        app.use(`/chat/${profile.name}`, createChatRouter(profile));
+    }
+    app.use('/chat', createChatRouter(eventsProfile));
+
+    // Prometheus scrape endpoint
+    app.get('/metrics', (req:Request, res:Response) => {
+        res.type('text/plain; version=0.0.4').send(renderMetrics());
+    })
+
+    app.use('/admin/events', createAdminEventsRouter(client));
+    app.use('/admin/search-cache', createSearchCacheRouter(client));
+    app.use('/admin/api-keys', createApiKeysRouter(client));
+    app.use('/threads', createThreadsRouter(client));
+    app.use('/traces', createTracesRouter(client));
+    app.use('/itineraries', createItinerariesRouter(client));
+    app.use('/events', createEventCalendarRouter(client));
+    app.use('/users', createUsersRouter(client));
+
+    return app;
+}
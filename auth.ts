@@ -0,0 +1,239 @@
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { NextFunction, Request, Response, Router } from "express";
+import { MongoClient } from "mongodb";
+import { z } from "zod";
+import { requireAdminKey } from "./admin-events";
+import { RateLimiter, RateLimits, defaultRateLimits } from "./rate-limits";
+
+const dbName = "events_database";
+
+// Ids come from clients and tokens, so keep them to something safe to log and put in URLs
+export const UserIdSchema = z
+  .string()
+  .min(1)
+  .max(128)
+  .regex(/^[A-Za-z0-9_.@-]+$/, "userId may only contain letters, digits and _ . @ -");
+
+// Who a request was authenticated as, kept in res.locals.auth
+export interface AuthContext {
+  userId: string;
+  // What rate limits are counted against: the API key's id, or jwt:<userId> for tokens
+  keyId: string;
+  limits: RateLimits;
+}
+
+export interface ApiKey {
+  keyId: string;
+  userId: string;
+  name: string;
+  // Only the SHA-256 of the key is stored; the key itself is shown once when it's created
+  hash: string;
+  limits?: Partial<RateLimits>;
+  createdAt: Date;
+  revokedAt?: Date;
+}
+
+export interface AuthOptions {
+  // Off only when AUTH_DISABLED=true, for local development
+  enabled?: boolean;
+  jwtSecret?: string;
+  rateLimiter?: RateLimiter;
+}
+
+function apiKeysCollection(client: MongoClient) {
+  return client.db(dbName).collection<ApiKey>("api_keys");
+}
+
+function hashApiKey(key: string) {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function authOf(res: Response): AuthContext | undefined {
+  return res.locals.auth;
+}
+
+export async function createApiKey(
+  client: MongoClient,
+  userId: string,
+  name = "",
+  limits?: Partial<RateLimits>
+): Promise<{ keyId: string; key: string }> {
+  const key = `evk_${randomBytes(24).toString("base64url")}`;
+  const keyId = randomUUID();
+  await apiKeysCollection(client).insertOne({ keyId, userId, name, hash: hashApiKey(key), limits, createdAt: new Date() });
+  return { keyId, key };
+}
+
+export async function revokeApiKey(client: MongoClient, keyId: string): Promise<boolean> {
+  const result = await apiKeysCollection(client).updateOne(
+    { keyId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date() } }
+  );
+  return result.modifiedCount > 0;
+}
+
+async function findApiKey(client: MongoClient, key: string): Promise<ApiKey | null> {
+  return apiKeysCollection(client).findOne({ hash: hashApiKey(key), revokedAt: { $exists: false } });
+}
+
+function base64UrlJson(part: string) {
+  return JSON.parse(Buffer.from(part, "base64url").toString("utf8"));
+}
+
+// Verifies an HS256 JWT and returns its subject, or null when it isn't valid or has expired
+export function verifyJwt(token: string, secret: string, now = Date.now()): string | null {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) return null;
+
+  try {
+    if (base64UrlJson(header).alg !== "HS256") return null;
+
+    const expected = createHmac("sha256", secret).update(`${header}.${payload}`).digest();
+    const actual = Buffer.from(signature, "base64url");
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+    const claims = base64UrlJson(payload);
+    const seconds = now / 1000;
+    if (typeof claims.exp === "number" && claims.exp <= seconds) return null;
+    if (typeof claims.nbf === "number" && claims.nbf > seconds) return null;
+    return UserIdSchema.safeParse(claims.sub).success ? claims.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+function credentialOf(req: Request) {
+  const header = req.header("authorization");
+  return header?.startsWith("Bearer ") ? header.slice("Bearer ".length) : req.header("x-api-key");
+}
+
+function rateLimited(res: Response, retryAfterSeconds: number, error: string) {
+  res.setHeader("Retry-After", String(retryAfterSeconds));
+  res.status(429).json({ error, retryAfterSeconds });
+}
+
+// Authenticates with an API key (Bearer or x-api-key) or a JWT signed with JWT_SECRET, then counts
+// the request against the key's per-minute limit
+export function createAuthMiddleware(client: MongoClient, options: AuthOptions = {}) {
+  const enabled = options.enabled ?? process.env.AUTH_DISABLED !== "true";
+  const jwtSecret = options.jwtSecret ?? process.env.JWT_SECRET;
+  const rateLimiter = options.rateLimiter ?? new RateLimiter();
+
+  const authenticate = async (req: Request, res: Response, next: NextFunction) => {
+    if (!enabled) {
+      next();
+      return;
+    }
+
+    const credential = credentialOf(req);
+    let auth: AuthContext | undefined;
+    try {
+      if (credential && jwtSecret && credential.split(".").length === 3) {
+        const userId = verifyJwt(credential, jwtSecret);
+        if (userId) auth = { userId, keyId: `jwt:${userId}`, limits: defaultRateLimits() };
+      } else if (credential) {
+        const apiKey = await findApiKey(client, credential);
+        if (apiKey) auth = { userId: apiKey.userId, keyId: apiKey.keyId, limits: { ...defaultRateLimits(), ...apiKey.limits } };
+      }
+    } catch (error) {
+      console.error("Error authenticating request: ", error);
+      res.status(500).json({ error: "Internal server error" });
+      return;
+    }
+
+    if (!auth) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const decision = rateLimiter.takeRequest(auth.keyId, auth.limits.requestsPerMinute);
+    if (!decision.allowed) {
+      rateLimited(res, decision.retryAfterSeconds, "Too many requests");
+      return;
+    }
+
+    res.locals.auth = auth;
+    next();
+  };
+
+  // For routes that run the models: refuses keys that have used up this hour's tokens
+  const requireTokenBudget = (req: Request, res: Response, next: NextFunction) => {
+    const auth = authOf(res);
+    if (auth) {
+      const decision = rateLimiter.checkTokens(auth.keyId, auth.limits.tokensPerHour);
+      if (!decision.allowed) {
+        rateLimited(res, decision.retryAfterSeconds, "Token limit exceeded");
+        return;
+      }
+    }
+    next();
+  };
+
+  // Counts a finished run's model tokens against the request's key
+  const recordTokens = (res: Response) => {
+    const auth = authOf(res);
+    return auth ? (tokens: number) => rateLimiter.recordTokens(auth.keyId, tokens) : undefined;
+  };
+
+  return { enabled, authenticate, requireTokenBudget, recordTokens };
+}
+
+const CreateApiKeySchema = z.object({
+  userId: UserIdSchema,
+  name: z.string().max(100).optional(),
+  requestsPerMinute: z.number().int().min(0).optional(),
+  tokensPerHour: z.number().int().min(0).optional(),
+});
+
+// Issues and revokes API keys. Guarded by ADMIN_API_KEY like the other admin routes
+export function createApiKeysRouter(client: MongoClient): Router {
+  const router = Router();
+  router.use(requireAdminKey);
+
+  router.post("/", async (req: Request, res: Response) => {
+    const parsed = CreateApiKeySchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid API key request", issues: parsed.error.issues });
+      return;
+    }
+
+    const { userId, name, requestsPerMinute, tokensPerHour } = parsed.data;
+    const limits = Object.fromEntries(
+      Object.entries({ requestsPerMinute, tokensPerHour }).filter(([, value]) => value !== undefined)
+    );
+    try {
+      const { keyId, key } = await createApiKey(client, userId, name, Object.keys(limits).length ? limits : undefined);
+      res.status(201).json({ keyId, key, userId });
+    } catch (error) {
+      console.error("Error creating API key: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  router.get("/", async (req: Request, res: Response) => {
+    try {
+      const filter = typeof req.query.userId === "string" ? { userId: req.query.userId } : {};
+      const keys = await apiKeysCollection(client).find(filter, { projection: { _id: 0, hash: 0 } }).toArray();
+      res.json({ keys });
+    } catch (error) {
+      console.error("Error listing API keys: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  router.delete("/:keyId", async (req: Request, res: Response) => {
+    try {
+      if (!(await revokeApiKey(client, req.params.keyId))) {
+        res.status(404).json({ error: "API key not found" });
+        return;
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error revoking API key: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,173 @@
+import { StructuredToolInterface, tool } from "@langchain/core/tools";
+import { MongoDBAtlasVectorSearch } from "@langchain/mongodb";
+import { Collection, Document, MongoClient } from "mongodb";
+import { z } from "zod";
+import { EventSchema, createEventSummary } from "./event-documents";
+import {
+  EVENTS_VECTOR_INDEX,
+  EVENTS_VECTOR_INDEX_DEFINITION,
+  MAX_LOOKUP_RESULTS,
+  createEventLookupTool,
+  createNearbyEventsTool,
+  ensureSearchIndex,
+  resultCount,
+} from "./events-lookup";
+import { EmployeeSchema, createEmployeeSummary } from "./hr-directory";
+import { createItineraryTool } from "./itinerary";
+import { getEmbeddings } from "./providers";
+import { withResilience } from "./resilience";
+
+// Where every domain keeps the embedded text and its vector
+export const TEXT_KEY = "embedding_text";
+export const EMBEDDING_KEY = "embedding";
+
+// Everything the agent, the /chat/:domain routes and the seeders need to serve one knowledge base
+export interface DomainProfile<T = unknown> {
+  // The :domain route segment
+  name: string;
+  dbName: string;
+  collectionName: string;
+  vectorIndex: { name: string; definition: Document };
+  schema: z.ZodType<T>;
+  // The text embedded for each record, which has been through `schema`. A method, so profiles for
+  // different record types fit in one DomainProfile[]
+  summarize(record: T): Promise<string>;
+  // Dotted paths left out of the default lookup tool's results, e.g. salaries
+  privateFields?: string[];
+  // Name and description of the default vector search tool, for domains without createTools
+  lookupTool?: { name: string; description: string };
+  // Replaces the default lookup tool, for domains with their own retrieval
+  createTools?: (client: MongoClient, collection: Collection) => StructuredToolInterface[];
+  // Filled with {tool_names}, {system_message}, {user_profile} and {time}
+  systemPrompt: string;
+  systemMessage: string;
+  // Whether answers are turned into structured event recommendations
+  recommendations: boolean;
+  // Whether the agent reads and saves the user's preferences across threads
+  userMemory: boolean;
+  // Asks the generation model for fictional records, for domains seeded without real data
+  syntheticDataPrompt?: string;
+}
+
+export const eventsProfile: DomainProfile<z.infer<typeof EventSchema>> = {
+  name: "events",
+  dbName: "events_database",
+  collectionName: "events",
+  vectorIndex: { name: EVENTS_VECTOR_INDEX, definition: EVENTS_VECTOR_INDEX_DEFINITION },
+  schema: EventSchema,
+  summarize: createEventSummary,
+  createTools: (client, collection) => [createEventLookupTool(collection), createNearbyEventsTool(client, collection), createItineraryTool(client)],
+  systemPrompt: `You are a helpful AI assistant/tour guide specializing in black events & restaurants, clubs, day parties, brunches, dinner parties and more around the world although your main focus is on black events and clubs/venues,
+          collaborating with other assistants. Use the provided tools to progress towards answering the question.
+           If the user asks you for recommendations, provide a list that matches what they're looking for.
+           If a user asks for recommendations, provide anything thats happening within the week (search with the this_week timeframe) but if there isn't anything give alternative recommendations similar to their query or alternative places to check out.
+           Quote the upcomingDates from the tool results rather than the raw date field.
+           If a result's verification status is possibly_closed, say it may have closed, and prefer the verification corrections over the stored details.
+           If the user asks you to create an itinerary, find the events with events_lookup first, then call create_itinerary with their _id values, the city and the trip dates. Present its days in order, point out any clashes and the travel time it leaves, and share its exportUrl.
+           If you are asked about specific events, clubs, venues, restaurants in your database provide this information to the user regardless of them specifying a city, then ask if they are interested in similar events.
+           If the user doesn't specify a city they will be in and they don't ask about a specific event in the database, ask them what city they would like the recommendations for before providing a recommendation.
+           When calling events_lookup, pass the city and type of event from the conversation as the city and type arguments. For relative requests like "this weekend", "tonight" or "this week" pass the matching timeframe, and use dateFrom/dateTo (YYYY-MM-DD) for specific dates. Leave them out when asked about a specific event, club, venue or restaurant by name, and put its name or Instagram handle in the query exactly as the user wrote it.
+           If the user asks for events near them or near a neighbourhood, street or venue, call events_nearby with their lat/lng or that address and the city, and mention each result's distanceMiles.
+           If you are unable to fully answer, that's OK, another assistant with different tools will help where you left off. Execute what you can to make progress.
+           If you or any of the other assistants have the final answer or deliverable, prefix your response with RECOMMENDATIONS so the team knows to stop.
+           If you are asked about restaurants, you can provide recommendations from your tools as these are listed in there.
+           for each recommendation you provide or when you provide information for a specific event, club, restaurant etc. convert the instagram handle to a clickable link and provide this as well
+           You have access to the following tools: {tool_names}.\n{system_message}\n{user_profile}\nCurrent time: {time}.`,
+  systemMessage: "You are helpful Black events tour guide/Chatbot Agent.",
+  recommendations: true,
+  userMemory: true,
+};
+
+export const hrProfile: DomainProfile<z.infer<typeof EmployeeSchema>> = {
+  name: "hr",
+  dbName: "hr_database",
+  collectionName: "employees",
+  vectorIndex: {
+    name: "vector_index",
+    definition: { fields: [{ type: "vector", path: EMBEDDING_KEY, numDimensions: 1536, similarity: "cosine" }] },
+  },
+  schema: EmployeeSchema,
+  summarize: createEmployeeSummary,
+  // Anyone with an API key can ask /chat/hr, so these stay in the database only
+  privateFields: ["date_of_birth", "job_details.salary", "performance_reviews", "emergency_contact"],
+  lookupTool: {
+    name: "employee_lookup",
+    description:
+      "Searches the employee directory by meaning. Each result has the employee's job, department, office, manager, skills and contact details.",
+  },
+  systemPrompt: `You are a helpful AI assistant for an HR team, answering questions about the company's employees.
+           Use the provided tools to look employees up before answering, and only state details the results contain.
+           When several employees match, list them with their job title, department and office, and ask which one the user means if it matters.
+           Salaries, dates of birth, performance reviews and emergency contacts aren't available to you; if asked for them, say to contact the HR team.
+           If nothing matches, say so rather than guessing.
+           You have access to the following tools: {tool_names}.\n{system_message}\n{user_profile}\nCurrent time: {time}.`,
+  systemMessage: "You are a helpful HR directory assistant.",
+  recommendations: false,
+  userMemory: false,
+  syntheticDataPrompt:
+    "You are a helpful assistant that generates employee data. Generate 10 fictional employee records. Each record should include the following fields: employee_id, first_name, last_name, date_of_birth, address, contact_details, job_details, work_location, reporting_manager, skills, performance_reviews, benefits, emergency_contact, notes. Ensure variety in the data and realistic values.",
+};
+
+export const DOMAIN_PROFILES: DomainProfile[] = [eventsProfile, hrProfile];
+
+export function getDomainProfile(name: string): DomainProfile | undefined {
+  return DOMAIN_PROFILES.find((profile) => profile.name === name);
+}
+
+export function domainCollection(client: MongoClient, profile: DomainProfile): Collection {
+  return client.db(profile.dbName).collection(profile.collectionName);
+}
+
+// Creates or updates the domain's vector index
+export async function ensureDomainVectorIndex(profile: DomainProfile, collection: Collection) {
+  await ensureSearchIndex(collection, profile.vectorIndex.name, "vectorSearch", profile.vectorIndex.definition);
+}
+
+// The default lookup tool: plain vector search over the domain's collection
+export function createVectorLookupTool(profile: DomainProfile, collection: Collection) {
+  if (!profile.lookupTool) {
+    throw new Error(`Domain ${profile.name} has neither a lookupTool nor createTools`);
+  }
+  const { name, description } = profile.lookupTool;
+  return tool(
+    async ({ query, n = 10 }, config) => {
+      try {
+        console.log(`${name} called with query:`, query);
+
+        const vectorStore = new MongoDBAtlasVectorSearch(getEmbeddings(config?.signal), {
+          collection,
+          indexName: profile.vectorIndex.name,
+          textKey: TEXT_KEY,
+          embeddingKey: EMBEDDING_KEY,
+        });
+        const hidden = profile.privateFields ?? [];
+        const filter = hidden.length ? { postFilterPipeline: [{ $project: Object.fromEntries(hidden.map((path) => [path, 0])) }] } : undefined;
+        const result = await withResilience("atlas_search", () => vectorStore.similaritySearchWithScore(query, n, filter), {
+          signal: config?.signal,
+        });
+
+        if (!result.length) {
+          return JSON.stringify({ message: "NO_RESULTS_FOUND" });
+        }
+        return JSON.stringify(result);
+      } catch (error: any) {
+        console.error(`Error in ${name} tool:`, error);
+        return JSON.stringify({ message: "NO_RESULTS_FOUND", error: error.message });
+      }
+    },
+    {
+      name,
+      description,
+      schema: z.object({
+        query: z.string().describe("The search query"),
+        n: resultCount.optional().default(10).describe(`Number of results to return, at most ${MAX_LOOKUP_RESULTS}`),
+      }),
+    }
+  );
+}
+
+// The tools the single agent gets for a domain, before any memory tools
+export function createDomainTools(profile: DomainProfile, client: MongoClient): StructuredToolInterface[] {
+  const collection = domainCollection(client, profile);
+  return profile.createTools ? profile.createTools(client, collection) : [createVectorLookupTool(profile, collection)];
+}
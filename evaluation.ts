@@ -0,0 +1,300 @@
+import { randomUUID } from "crypto";
+import fs from "fs";
+import { MongoDBAtlasVectorSearch } from "@langchain/mongodb";
+import { Collection, Document, MongoClient, ObjectId } from "mongodb";
+import { z } from "zod";
+import { AgentResult, AgentRunOptions } from "./agent-stream";
+import { DomainProfile, EMBEDDING_KEY, TEXT_KEY, domainCollection, eventsProfile } from "./domain-profiles";
+import { embedEventDocuments } from "./event-documents";
+import { formatRejectionReport, readCSVRows, resolveCity, validateEventRows } from "./event-ingest";
+import { buildEventsPreFilter, ensureEventsGeoIndex, ensureEventsTextIndex, ensureEventsVectorIndex } from "./events-lookup";
+import { getEmbeddings } from "./providers";
+import { deleteThread } from "./threads";
+
+export const GoldenCaseSchema = z.object({
+  id: z.string().min(1),
+  query: z.string().min(1),
+  // Events retrieval should find, by _id or eventKey
+  expectedEventIds: z.array(z.string()).default([]),
+  // Every recommendation in the answer should be in this city
+  expectedCity: z.string().optional(),
+  // The query leaves the city out, so the agent should ask for it instead of recommending
+  shouldAskForCity: z.boolean().default(false),
+});
+
+export const GoldenFileSchema = z.object({
+  // Bumped whenever cases change meaning, so runs against different versions aren't compared blindly
+  version: z.number().int().positive(),
+  description: z.string().optional(),
+  cases: z
+    .array(GoldenCaseSchema)
+    .min(1)
+    .refine((cases) => new Set(cases.map((goldenCase) => goldenCase.id)).size === cases.length, "Case ids must be unique"),
+});
+
+export type GoldenCase = z.infer<typeof GoldenCaseSchema>;
+export type GoldenFile = z.infer<typeof GoldenFileSchema>;
+
+export interface RetrievalCaseResult {
+  id: string;
+  // 1-based ranks of the expected events in the results, null for those not retrieved
+  ranks: (number | null)[];
+  recall: number;
+  reciprocalRank: number;
+  retrieved: { id: string; name: string; score: number }[];
+}
+
+export interface AnswerCheck {
+  name: "asks_for_city" | "instagram_links" | "city" | "expected_events" | "agent_error";
+  passed: boolean;
+  detail?: string;
+}
+
+export interface AnswerCaseResult {
+  id: string;
+  passed: boolean;
+  checks: AnswerCheck[];
+  response: string;
+}
+
+export interface EvalReport {
+  goldenVersion: number;
+  createdAt: string;
+  k: number;
+  retrieval: { recallAtK: number; mrr: number; cases: RetrievalCaseResult[] };
+  // Left out when only retrieval was evaluated
+  answers?: { passRate: number; cases: AnswerCaseResult[] };
+}
+
+export type AgentFunction = (client: MongoClient, query: string, threadId: string, options?: AgentRunOptions) => Promise<AgentResult>;
+
+// The events the golden queries expect. They're evaluated against their own copy, since seeding the live
+// collection from this file would archive every other event
+export const EVAL_FIXTURE_PATH = "./evals/events.csv";
+
+export const evalFixtureProfile: typeof eventsProfile = { ...eventsProfile, dbName: process.env.EVAL_DB_NAME ?? "events_eval" };
+
+// Replaces the fixture collection's contents with the events in `csvPath`, embedded and indexed like the live ones
+export async function loadEvalFixture(client: MongoClient, profile: DomainProfile = evalFixtureProfile, csvPath = EVAL_FIXTURE_PATH): Promise<number> {
+  const collection = domainCollection(client, profile);
+  if (collection.namespace === domainCollection(client, eventsProfile).namespace) {
+    throw new Error(`Refusing to replace the live events in ${collection.namespace} with the eval fixture`);
+  }
+
+  const { events, rejected } = validateEventRows(await readCSVRows(fs.createReadStream(csvPath)));
+  if (rejected.length) {
+    throw new Error(`${csvPath} has rejected rows:\n${formatRejectionReport(rejected)}`);
+  }
+  const documents = await embedEventDocuments(events);
+
+  await collection.deleteMany({});
+  await collection.insertMany(documents);
+  await ensureEventsVectorIndex(collection);
+  await ensureEventsTextIndex(collection);
+  await ensureEventsGeoIndex(client, collection);
+  return documents.length;
+}
+
+export function loadGoldenFile(path: string): GoldenFile {
+  return GoldenFileSchema.parse(JSON.parse(fs.readFileSync(path, "utf8")));
+}
+
+// Share of the expected events found in the first k results
+export function recallAtK(ranks: (number | null)[], k: number): number {
+  return ranks.length ? ranks.filter((rank) => rank !== null && rank <= k).length / ranks.length : 0;
+}
+
+// 1 / the rank of the first expected event found, 0 when none were
+export function reciprocalRank(ranks: (number | null)[]): number {
+  const found = ranks.filter((rank): rank is number => rank !== null);
+  return found.length ? 1 / Math.min(...found) : 0;
+}
+
+const mean = (values: number[]) => (values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+const matchesId = (doc: Record<string, any>, id: string) => String(doc._id) === id || doc.eventKey === id;
+
+// Runs each case with expected events through similaritySearchWithScore, as events_lookup does before ranking
+export async function evaluateRetrieval(collection: Collection, cases: GoldenCase[], k: number): Promise<EvalReport["retrieval"]> {
+  const vectorStore = new MongoDBAtlasVectorSearch(getEmbeddings(), {
+    collection,
+    indexName: eventsProfile.vectorIndex.name,
+    textKey: TEXT_KEY,
+    embeddingKey: EMBEDDING_KEY,
+  });
+
+  const results: RetrievalCaseResult[] = [];
+  for (const goldenCase of cases.filter((candidate) => candidate.expectedEventIds.length)) {
+    const found = await vectorStore.similaritySearchWithScore(goldenCase.query, k, { preFilter: buildEventsPreFilter({}) });
+    const ranks = goldenCase.expectedEventIds.map((id) => {
+      const index = found.findIndex(([doc]) => matchesId(doc.metadata, id));
+      return index === -1 ? null : index + 1;
+    });
+    results.push({
+      id: goldenCase.id,
+      ranks,
+      recall: recallAtK(ranks, k),
+      reciprocalRank: reciprocalRank(ranks),
+      retrieved: found.map(([doc, score]) => ({ id: String(doc.metadata._id), name: doc.metadata.name, score })),
+    });
+  }
+
+  return {
+    recallAtK: mean(results.map((result) => result.recall)),
+    mrr: mean(results.map((result) => result.reciprocalRank)),
+    cases: results,
+  };
+}
+
+const handleOf = (url: string) => url.match(/instagram\.com\/([A-Za-z0-9._]+)/i)?.[1].toLowerCase();
+
+// Rule-based checks of one answer. `expectedNames` are the names of the case's expected events
+export function checkAnswer(goldenCase: GoldenCase, result: AgentResult, expectedNames: string[] = []): AnswerCheck[] {
+  const response = result.response;
+  const checks: AnswerCheck[] = [];
+
+  if (goldenCase.shouldAskForCity) {
+    const asked = /\?/.test(response) && /\bcity\b/i.test(response) && !result.recommendations.length;
+    checks.push({ name: "asks_for_city", passed: asked, ...(!asked && { detail: "Recommended without asking for a city" }) });
+    return checks;
+  }
+
+  // Every recommended handle should be linked in the answer text
+  const linked = new Set(Array.from(response.matchAll(/instagram\.com\/([A-Za-z0-9._]+)/gi), (match) => match[1].toLowerCase()));
+  const unlinked = result.recommendations
+    .filter((recommendation) => recommendation.instagramUrl && !linked.has(handleOf(recommendation.instagramUrl) ?? ""))
+    .map((recommendation) => recommendation.name);
+  if (result.recommendations.length) {
+    checks.push({ name: "instagram_links", passed: !unlinked.length, ...(unlinked.length > 0 && { detail: `No link for ${unlinked.join(", ")}` }) });
+  }
+
+  if (goldenCase.expectedCity) {
+    const city = resolveCity(goldenCase.expectedCity);
+    const elsewhere = result.recommendations.filter((recommendation) => resolveCity(recommendation.city) !== city).map((recommendation) => recommendation.name);
+    const passed = result.recommendations.length > 0 && !elsewhere.length;
+    checks.push({
+      name: "city",
+      passed,
+      ...(!passed && { detail: elsewhere.length ? `Not in ${city}: ${elsewhere.join(", ")}` : "Nothing was recommended" }),
+    });
+  }
+
+  if (expectedNames.length) {
+    const missing = expectedNames.filter((name) => !response.toLowerCase().includes(name.toLowerCase()));
+    checks.push({ name: "expected_events", passed: !missing.length, ...(missing.length > 0 && { detail: `Missing ${missing.join(", ")}` }) });
+  }
+
+  return checks;
+}
+
+// Names of the expected events, for checking the answer mentions them
+async function expectedEventNames(collection: Collection, ids: string[]): Promise<string[]> {
+  if (!ids.length) return [];
+  const objectIds = ids.filter((id) => ObjectId.isValid(id) && id.length === 24).map((id) => new ObjectId(id));
+  const docs: Document[] = await collection
+    .find({ $or: [{ eventKey: { $in: ids } }, { _id: { $in: objectIds } }] }, { projection: { name: 1 } })
+    .toArray();
+  return docs.map((doc) => doc.name);
+}
+
+// Runs every case through the full agent on a throwaway thread, which is deleted afterwards
+export async function evaluateAnswers(
+  client: MongoClient,
+  cases: GoldenCase[],
+  callAgent: AgentFunction,
+  profile: DomainProfile = eventsProfile
+): Promise<NonNullable<EvalReport["answers"]>> {
+  const collection = domainCollection(client, profile);
+  const results: AnswerCaseResult[] = [];
+
+  for (const goldenCase of cases) {
+    const threadId = `eval-${randomUUID()}`;
+    let checks: AnswerCheck[];
+    let response = "";
+    try {
+      const result = await callAgent(client, goldenCase.query, threadId, { profile });
+      response = result.response;
+      checks = checkAnswer(goldenCase, result, await expectedEventNames(collection, goldenCase.expectedEventIds));
+    } catch (error: any) {
+      console.error(`Error evaluating case ${goldenCase.id}:`, error);
+      checks = [{ name: "agent_error", passed: false, detail: error.message }];
+    } finally {
+      await deleteThread(client, threadId);
+    }
+    results.push({ id: goldenCase.id, passed: checks.every((check) => check.passed), checks, response });
+  }
+
+  return { passRate: mean(results.map((result) => (result.passed ? 1 : 0))), cases: results };
+}
+
+const formatNumber = (value: number) => value.toFixed(3);
+
+export function formatReport(report: EvalReport): string[] {
+  const lines = [
+    `Golden queries v${report.goldenVersion}, k=${report.k}`,
+    `recall@${report.k}: ${formatNumber(report.retrieval.recallAtK)}  MRR: ${formatNumber(report.retrieval.mrr)}`,
+  ];
+  for (const result of report.retrieval.cases.filter((candidate) => candidate.recall < 1)) {
+    lines.push(`  ${result.id}: recall ${formatNumber(result.recall)}, retrieved ${result.retrieved.map((doc) => doc.name).join(", ") || "nothing"}`);
+  }
+  if (report.answers) {
+    lines.push(`answers passing: ${report.answers.cases.filter((result) => result.passed).length}/${report.answers.cases.length}`);
+    for (const result of report.answers.cases.filter((candidate) => !candidate.passed)) {
+      const failed = result.checks.filter((check) => !check.passed);
+      lines.push(`  ${result.id}: ${failed.map((check) => `${check.name}${check.detail ? ` (${check.detail})` : ""}`).join("; ")}`);
+    }
+  }
+  return lines;
+}
+
+function delta(label: string, before: number, after: number): string | null {
+  if (Math.abs(after - before) < 1e-9) return null;
+  const sign = after > before ? "+" : "";
+  return `${label}: ${formatNumber(before)} -> ${formatNumber(after)} (${sign}${formatNumber(after - before)})`;
+}
+
+// What changed since the previous run: the headline metrics and every case that got better or worse
+export function diffReports(previous: EvalReport, current: EvalReport): string[] {
+  const lines: string[] = [];
+  if (previous.goldenVersion !== current.goldenVersion || previous.k !== current.k) {
+    lines.push(`Previous run used golden queries v${previous.goldenVersion} with k=${previous.k}; changes may not be comparable`);
+  }
+
+  lines.push(
+    ...[
+      delta(`recall@${current.k}`, previous.retrieval.recallAtK, current.retrieval.recallAtK),
+      delta("MRR", previous.retrieval.mrr, current.retrieval.mrr),
+      previous.answers && current.answers ? delta("answer pass rate", previous.answers.passRate, current.answers.passRate) : null,
+    ].filter((line): line is string => line !== null)
+  );
+
+  const previousRetrieval = new Map(previous.retrieval.cases.map((result) => [result.id, result]));
+  for (const result of current.retrieval.cases) {
+    const before = previousRetrieval.get(result.id);
+    if (!before) {
+      lines.push(`  ${result.id}: new retrieval case`);
+      continue;
+    }
+    const change = delta(`  ${result.id} recall`, before.recall, result.recall);
+    if (change) lines.push(change);
+  }
+
+  const previousAnswers = new Map((previous.answers?.cases ?? []).map((result) => [result.id, result]));
+  for (const result of current.answers?.cases ?? []) {
+    const before = previousAnswers.get(result.id);
+    if (!before) continue;
+    for (const check of result.checks) {
+      const old = before.checks.find((candidate) => candidate.name === check.name);
+      if (old && old.passed !== check.passed) {
+        lines.push(`  ${result.id} ${check.name}: ${old.passed ? "passed" : "failed"} -> ${check.passed ? "passed" : "failed"}`);
+      }
+    }
+  }
+
+  const currentIds = new Set([...current.retrieval.cases, ...(current.answers?.cases ?? [])].map((result) => result.id));
+  for (const id of new Set([...previousRetrieval.keys(), ...previousAnswers.keys()])) {
+    if (!currentIds.has(id)) lines.push(`  ${id}: no longer evaluated`);
+  }
+
+  return lines.length ? lines : ["No changes since the previous run"];
+}
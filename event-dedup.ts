@@ -0,0 +1,150 @@
+import { Event } from "./event-documents";
+import { normalizeInstagramHandle, resolveCity } from "./event-ingest";
+import { parseDatePattern, timezoneForCity } from "./event-schedule";
+
+// What two listings are compared on. `instagram` may be a handle or a profile URL
+export interface DedupFields {
+  name: string;
+  city?: string | null;
+  date?: string | null;
+  instagram?: string | null;
+}
+
+// Where a merged event came from: a file and line at ingestion, or "database"/"web" at answer time
+export interface Provenance {
+  source: string;
+  line?: number;
+  name: string;
+}
+
+// Names at least this similar are the same event; with the same Instagram handle a looser match will do
+const NAME_SIMILARITY = 0.85;
+const SAME_HANDLE_NAME_SIMILARITY = 0.5;
+
+const NAME_STOP_WORDS = new Set(["the", "a", "an"]);
+
+// Lowercase words without accents or punctuation, leaving out articles and the event's own city
+export function normalizeEventName(name: string, city?: string | null): string {
+  const cityWords = new Set(normalizeWords(city ? resolveCity(city) : ""));
+  return normalizeWords(name.replace(/&/g, " and "))
+    .filter((word) => !NAME_STOP_WORDS.has(word) && !cityWords.has(word))
+    .join(" ");
+}
+
+function normalizeWords(value: string): string[] {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function bigrams(value: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const compact = value.replace(/ /g, "");
+  for (let i = 0; i < compact.length - 1; i++) {
+    const bigram = compact.slice(i, i + 2);
+    counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Dice coefficient over character bigrams, which shrugs off plurals, typos and word order changes
+export function nameSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const [first, second] = [bigrams(a), bigrams(b)];
+  const total = [...first.values(), ...second.values()].reduce((sum, count) => sum + count, 0);
+  if (!total) return 0;
+
+  let shared = 0;
+  for (const [bigram, count] of first) {
+    shared += Math.min(count, second.get(bigram) ?? 0);
+  }
+  return (2 * shared) / total;
+}
+
+const normalizeCity = (city?: string | null) => (city ? resolveCity(city).toLowerCase() : "");
+
+const handleOf = (instagram?: string | null) => (instagram ? normalizeInstagramHandle(instagram) : null);
+
+// The recurrence or calendar day a date describes, or null when it can't be read
+function dateKey(fields: DedupFields): string | null {
+  const parsed = parseDatePattern(fields.date ?? "", timezoneForCity(fields.city ?? undefined));
+  if (!parsed) return null;
+  if (parsed.recurrence) return parsed.recurrence;
+  const { year, month, day } = parsed.date!;
+  return [year ?? "", month, day].join("-");
+}
+
+// Unreadable dates don't rule a match out; otherwise both must run on the same schedule or day
+function datesCompatible(a: DedupFields, b: DedupFields): boolean {
+  const [first, second] = [dateKey(a), dateKey(b)];
+  if (!first || !second) return true;
+  // One listing may leave out the year
+  return first === second || first.replace(/^\d*-/, "") === second.replace(/^\d*-/, "");
+}
+
+// Whether two listings could be one event at all: nothing they both give, city, handle or date, contradicts
+function isCompatibleEvent(a: DedupFields, b: DedupFields): boolean {
+  const [cityA, cityB] = [normalizeCity(a.city), normalizeCity(b.city)];
+  if (cityA && cityB && cityA !== cityB) return false;
+
+  const [handleA, handleB] = [handleOf(a.instagram), handleOf(b.instagram)];
+  if (handleA && handleB && handleA !== handleB) return false;
+  return datesCompatible(a, b);
+}
+
+// Two listings are the same event when they're in the same city on compatible dates and either share
+// an Instagram handle and a roughly similar name, or have near-identical names. Different handles never match
+export function isDuplicateEvent(a: DedupFields, b: DedupFields): boolean {
+  if (!isCompatibleEvent(a, b)) return false;
+
+  const [handleA, handleB] = [handleOf(a.instagram), handleOf(b.instagram)];
+  const similarity = nameSimilarity(normalizeEventName(a.name, a.city), normalizeEventName(b.name, b.city));
+  return similarity >= (handleA && handleA === handleB ? SAME_HANDLE_NAME_SIMILARITY : NAME_SIMILARITY);
+}
+
+// Groups items that are duplicates of each other, directly or through a shared match, keeping first-seen order.
+// Groups only join when every listing in one is compatible with every listing in the other, so a listing
+// without a handle can't chain two events with different handles together
+export function groupDuplicates<T>(items: T[], fieldsOf: (item: T) => DedupFields): T[][] {
+  const parent = items.map((_, index) => index);
+  const root = (index: number): number => (parent[index] === index ? index : (parent[index] = root(parent[index])));
+  const fields = items.map(fieldsOf);
+  // The indexes in each group, by its root
+  const members = new Map(items.map((_, index) => [index, [index]]));
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      const [rootI, rootJ] = [root(i), root(j)];
+      if (rootI === rootJ || !isDuplicateEvent(fields[i], fields[j])) continue;
+
+      const [groupI, groupJ] = [members.get(rootI)!, members.get(rootJ)!];
+      if (groupI.every((a) => groupJ.every((b) => isCompatibleEvent(fields[a], fields[b])))) {
+        parent[rootJ] = rootI;
+        members.set(rootI, [...groupI, ...groupJ]);
+        members.delete(rootJ);
+      }
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  items.forEach((item, index) => groups.set(root(index), [...(groups.get(root(index)) ?? []), item]));
+  return Array.from(groups.values());
+}
+
+const filledFields = (event: Event) => Object.values(event).filter((value) => typeof value === "string" && value.trim()).length;
+
+// Merges duplicate listings into one event. The most complete listing wins (the latest on a tie), and
+// any fields it leaves blank are taken from the others
+export function mergeEvents(records: { event: Event; provenance: Provenance }[]): { event: Event; provenance: Provenance[] } {
+  const canonical = records.reduce((best, record) => (filledFields(record.event) >= filledFields(best.event) ? record : best));
+  const event = { ...canonical.event };
+  for (const { event: other } of records) {
+    for (const key of Object.keys(event) as (keyof Event)[]) {
+      if (!event[key]?.trim() && other[key]?.trim()) event[key] = other[key];
+    }
+  }
+  return { event, provenance: records.map((record) => record.provenance) };
+}
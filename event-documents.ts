@@ -0,0 +1,100 @@
+import { createHash } from "crypto";
+import { z } from "zod";
+import { parseEventSchedule } from "./event-schedule";
+import { GeoPoint, eventAddress } from "./geocoding";
+import { getEmbeddings, getGeocoder } from "./providers";
+import type { ResilienceOptions } from "./resilience";
+import { toInstagramUrl } from "./recommendations";
+
+export const EventSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  date: z.string(),
+  time: z.string(),
+  location: z.string(),
+  instagram: z.string(),
+  city: z.string(),
+  notes: z.string(),
+  similarTo: z.string(),
+});
+
+export type Event = z.infer<typeof EventSchema>;
+
+export async function createEventSummary(event: Event): Promise<string> {
+    return new Promise((resolve) => {
+      const name = `${event.name}`;
+      const type = `${event.type}`;
+      const date = `${event.date}`;
+      const time = `${event.time}`;
+      const location = `${event.location}`;
+      const instagram = `${event.instagram}`;
+      const city = `${event.city}`;
+      const notes = event.notes;
+      const similarTo = `${event.similarTo}`;
+
+      const summary = `Name: ${name}. Type: ${type}. Date: ${date}. Time: ${time}. Location: ${location}. Instagram: ${instagram}. City: ${city}. Notes: ${notes}. Similar To ${similarTo}`;
+
+      resolve(summary);
+    });
+  }
+
+function normalizeKeyPart(value: string | undefined) {
+  return (value ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// Stable identity for an event across re-seeds: the same name in the same city on the same date
+export function eventKeyFor(event: Pick<Event, "name" | "city" | "date">): string {
+  return createHash("sha1")
+    .update([event.name, event.city, event.date].map(normalizeKeyPart).join("|"))
+    .digest("hex");
+}
+
+// Changes whenever the embedded text changes, so unchanged events can skip re-embedding
+export function contentHashFor(summary: string): string {
+  return createHash("sha256").update(summary).digest("hex");
+}
+
+// The shape stored in events_database.events, compatible with MongoDBAtlasVectorSearch.
+// `geo` is null when the location couldn't be geocoded, which keeps the event out of nearby searches
+export function toEventDocument(event: Event, summary: string, embedding: number[], geo: GeoPoint | null = null) {
+  return {
+    ...event,
+    instagramUrl: toInstagramUrl(event.instagram),
+    schedule: parseEventSchedule(event.date, event.time, event.city),
+    geo,
+    eventKey: eventKeyFor(event),
+    contentHash: contentHashFor(summary),
+    embedding_text: summary,
+    embedding,
+    archived: false,
+    syncedAt: new Date(),
+  };
+}
+
+// Summaries sent to the embeddings API per request, unless the caller says otherwise
+export const EMBEDDING_BATCH_SIZE = 50;
+
+// Summarizes, embeds and geocodes events, ready to be written to the collection. Summaries are embedded
+// `batchSize` to a request; geocoding goes one event at a time, since hosted geocoders rate-limit
+export async function embedEventDocuments(events: Event[], batchSize = EMBEDDING_BATCH_SIZE) {
+  const documents: ReturnType<typeof toEventDocument>[] = [];
+  for (let i = 0; i < events.length; i += batchSize) {
+    const batch = events.slice(i, i + batchSize);
+    const summaries = await Promise.all(batch.map(createEventSummary));
+    const embeddings = await getEmbeddings().embedDocuments(summaries);
+    for (const [index, event] of batch.entries()) {
+      const geo = await getGeocoder().geocode(eventAddress(event));
+      documents.push(toEventDocument(event, summaries[index], embeddings[index], geo));
+    }
+  }
+  return documents;
+}
+
+// Summarizes, embeds and geocodes a single event, ready to be written to the collection.
+// `geocoding` bounds the lookup, e.g. with a deadline for requests that wait on it
+export async function embedEventDocument(event: Event, geocoding: ResilienceOptions = {}) {
+  const summary = await createEventSummary(event);
+  const embedding = await getEmbeddings().embedQuery(summary);
+  const geo = await getGeocoder().geocode(eventAddress(event), geocoding);
+  return toEventDocument(event, summary, embedding, geo);
+}
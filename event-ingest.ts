@@ -0,0 +1,146 @@
+import csv from "csv-parser";
+import { Readable } from "stream";
+import { z } from "zod";
+import { Event } from "./event-documents";
+
+// Nicknames and abbreviations seen in the source sheets, keyed by their lowercase form
+const CITY_ALIASES: Record<string, string> = {
+  ldn: "London",
+  "london town": "London",
+  "greater london": "London",
+  mcr: "Manchester",
+  brum: "Birmingham",
+  nyc: "New York",
+  "new york city": "New York",
+  ny: "New York",
+  atl: "Atlanta",
+  la: "Los Angeles",
+  "l.a.": "Los Angeles",
+  dc: "Washington",
+  "washington dc": "Washington",
+  "washington, d.c.": "Washington",
+  jozi: "Johannesburg",
+  joburg: "Johannesburg",
+  jhb: "Johannesburg",
+  cpt: "Cape Town",
+  "lagos island": "Lagos",
+  ams: "Amsterdam",
+};
+
+const CANONICAL_CITIES = new Map(Object.values(CITY_ALIASES).map((city) => [city.toLowerCase(), city]));
+
+const INSTAGRAM_HANDLE = /^[A-Za-z0-9._]{1,30}$/;
+
+// Known aliases resolve to the city's usual name; anything else keeps the source's spelling
+export function resolveCity(city: string): string {
+  const key = city.trim().toLowerCase().replace(/\s+/g, " ");
+  return CITY_ALIASES[key] ?? CANONICAL_CITIES.get(key) ?? city.trim();
+}
+
+// Turns "@handle", a bare handle or a profile URL into "@handle", or null when it isn't one
+export function normalizeInstagramHandle(value: string): string | null {
+  const trimmed = value.trim();
+  const handle = trimmed.match(/instagram\.com\/([^/?#\s]+)/i)?.[1] ?? trimmed.replace(/^@/, "");
+  return INSTAGRAM_HANDLE.test(handle) ? `@${handle.toLowerCase()}` : null;
+}
+
+const text = z.preprocess(
+  (value) => (typeof value === "string" ? value.trim().replace(/\s+/g, " ") : value),
+  z.string({ required_error: "column is missing", invalid_type_error: "column is missing" })
+);
+const requiredText = text.pipe(z.string().min(1, "is empty"));
+// Columns that may be blank, but must still be present in the file
+const optionalText = text;
+
+// EventSchema with the clean-ups ingestion applies: trimmed text, canonical @handles and city names
+export const IngestEventSchema = z.object({
+  name: requiredText,
+  type: requiredText,
+  date: requiredText,
+  time: optionalText,
+  location: requiredText,
+  instagram: optionalText.transform((value, ctx) => {
+    if (!value) return "";
+    const handle = normalizeInstagramHandle(value);
+    if (!handle) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${value}" is not an Instagram handle or profile URL` });
+      return z.NEVER;
+    }
+    return handle;
+  }),
+  city: requiredText.transform(resolveCity),
+  notes: optionalText,
+  similarTo: optionalText,
+});
+
+// A CSV row with the file line it starts on, counting the header as line 1
+export interface SourceRow {
+  line: number;
+  data: Record<string, string>;
+  // Problems found while reading the row that its columns can't show, e.g. a VEVENT ending before it starts
+  reasons?: string[];
+}
+
+export interface RejectedRow {
+  // The file or feed the row came from, when rows from several are reported together
+  source?: string;
+  line: number;
+  name?: string;
+  reasons: string[];
+}
+
+// Where an accepted event was read from
+export interface EventOrigin {
+  source?: string;
+  line: number;
+}
+
+export interface ValidationResult {
+  events: Event[];
+  // origins[i] is where events[i] came from
+  origins: EventOrigin[];
+  rejected: RejectedRow[];
+}
+
+// Reads CSV rows, tracking line numbers through quoted values that span several lines
+export function readCSVRows(input: Readable): Promise<SourceRow[]> {
+  return new Promise((resolve, reject) => {
+    const rows: SourceRow[] = [];
+    let line = 2;
+    input
+      .pipe(csv())
+      .on("data", (data: Record<string, string>) => {
+        rows.push({ line, data });
+        line += 1 + Object.values(data).reduce((total, value) => total + (value.match(/\n/g)?.length ?? 0), 0);
+      })
+      .on("end", () => resolve(rows))
+      .on("error", reject);
+  });
+}
+
+// Validates and normalizes each row. Blank lines are skipped rather than reported
+export function validateEventRows(rows: SourceRow[]): ValidationResult {
+  const result: ValidationResult = { events: [], origins: [], rejected: [] };
+  for (const { line, data, reasons = [] } of rows) {
+    if (Object.values(data).every((value) => !value?.trim())) continue;
+
+    const parsed = IngestEventSchema.safeParse(data);
+    if (parsed.success && !reasons.length) {
+      result.events.push(parsed.data);
+      result.origins.push({ line });
+    } else {
+      result.rejected.push({
+        line,
+        ...(data.name?.trim() && { name: data.name.trim() }),
+        reasons: [...reasons, ...(parsed.success ? [] : parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`))],
+      });
+    }
+  }
+  return result;
+}
+
+export function formatRejectionReport(rejected: RejectedRow[]): string {
+  return rejected
+    .map(({ source, line, name, reasons }) => `${source ? `${source} ` : ""}line ${line}${name ? ` (${name})` : ""}: ${reasons.join("; ")}`)
+    .join("\n");
+}
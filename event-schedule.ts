@@ -0,0 +1,423 @@
+import { z } from "zod";
+
+// Normalized form of the free-text date/time columns from the events CSV
+export const EventScheduleSchema = z.object({
+  // First (or next, for recurring events) occurrence
+  startsAt: z.date().nullable(),
+  endsAt: z.date().nullable(),
+  timezone: z.string(),
+  // RFC 5545 RRULE, e.g. FREQ=WEEKLY;BYDAY=SA, FREQ=MONTHLY;BYDAY=1SU or FREQ=YEARLY;BYMONTH=12;BYMONTHDAY=25
+  recurrence: z.string().nullable(),
+  allDay: z.boolean(),
+});
+
+export type EventSchedule = z.infer<typeof EventScheduleSchema>;
+
+export interface Occurrence {
+  startsAt: Date;
+  endsAt: Date;
+}
+
+export const TIMEFRAMES = ["today", "tonight", "tomorrow", "this_weekend", "this_week", "next_week", "next_7_days"] as const;
+
+export type Timeframe = (typeof TIMEFRAMES)[number];
+
+const CITY_TIMEZONES: Record<string, string> = {
+  london: "Europe/London",
+  manchester: "Europe/London",
+  birmingham: "Europe/London",
+  paris: "Europe/Paris",
+  amsterdam: "Europe/Amsterdam",
+  berlin: "Europe/Berlin",
+  lagos: "Africa/Lagos",
+  accra: "Africa/Accra",
+  johannesburg: "Africa/Johannesburg",
+  "cape town": "Africa/Johannesburg",
+  nairobi: "Africa/Nairobi",
+  dubai: "Asia/Dubai",
+  atlanta: "America/New_York",
+  "new york": "America/New_York",
+  brooklyn: "America/New_York",
+  "washington dc": "America/New_York",
+  "washington": "America/New_York",
+  charlotte: "America/New_York",
+  miami: "America/New_York",
+  philadelphia: "America/New_York",
+  baltimore: "America/New_York",
+  detroit: "America/Detroit",
+  toronto: "America/Toronto",
+  chicago: "America/Chicago",
+  houston: "America/Chicago",
+  dallas: "America/Chicago",
+  "new orleans": "America/Chicago",
+  "los angeles": "America/Los_Angeles",
+  oakland: "America/Los_Angeles",
+  "las vegas": "America/Los_Angeles",
+  kingston: "America/Jamaica",
+};
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const WEEKDAY_PATTERN = /\b(sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)(?:day|nesday|rsday|urday)?s?\b/g;
+
+// "Mon-Fri", "Monday to Friday", "Thurs through Sat"
+const WEEKDAY_RANGE_PATTERN = new RegExp(`${WEEKDAY_PATTERN.source}\\s*(?:-|–|to|through|thru|till|until)\\s*${WEEKDAY_PATTERN.source}`, "g");
+
+const WEEKDAY_PREFIXES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const ORDINALS: Record<string, number> = {
+  "1st": 1, first: 1, "2nd": 2, second: 2, "3rd": 3, third: 3, "4th": 4, fourth: 4, last: -1,
+};
+
+const DEFAULT_DURATION_MINUTES = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function timezoneForCity(city: string | undefined): string {
+  return CITY_TIMEZONES[(city ?? "").trim().toLowerCase()] ?? "UTC";
+}
+
+// US-style cities write 12/03 as December 3rd, everyone else as 12 March
+function isMonthFirst(timezone: string) {
+  return timezone.startsWith("America/");
+}
+
+export interface LocalParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+export function localParts(date: Date, timeZone: string): LocalParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+
+  const year = get("year");
+  const month = get("month") - 1;
+  const day = get("day");
+  return {
+    year,
+    month,
+    day,
+    hour: get("hour"),
+    minute: get("minute"),
+    weekday: new Date(Date.UTC(year, month, day)).getUTCDay(),
+  };
+}
+
+// Converts a wall-clock time in `timeZone` to the matching instant
+export function zonedTime(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month, day, hour, minute);
+  const offsetAt = (instant: number) => {
+    const local = localParts(new Date(instant), timeZone);
+    return Date.UTC(local.year, local.month, local.day, local.hour, local.minute) - instant;
+  };
+
+  const firstGuess = wallClock - offsetAt(wallClock);
+  // A second pass settles times that sit near a DST change
+  return new Date(wallClock - offsetAt(firstGuess));
+}
+
+interface ParsedTime {
+  startMinutes: number;
+  durationMinutes: number;
+}
+
+// Longer ranges are more likely misread than real, e.g. "10pm-2pm", and fall back to the default duration
+const MAX_DURATION_MINUTES = 14 * 60;
+
+const DAY_MINUTES = 24 * 60;
+
+function toMinutes(hour: number, minute: number, meridiem: string | undefined) {
+  let h = hour % 24;
+  if (meridiem === "pm" && h < 12) h += 12;
+  if (meridiem === "am" && h === 12) h = 0;
+  return h * 60 + minute;
+}
+
+// Minutes from one time of day to the next time it's `to`, past midnight if need be
+const minutesBetween = (from: number, to: number) => ((to - from + DAY_MINUTES - 1) % DAY_MINUTES) + 1;
+
+type TimeToken = RegExpMatchArray;
+
+// A time says whether it's morning or evening with am/pm, a 24-hour hour or a leading zero ("02:00")
+const isUnambiguous = (token: TimeToken) => Boolean(token[3]) || Number(token[1]) === 0 || Number(token[1]) > 12 || token[1].startsWith("0");
+
+// The am or pm reading of an ambiguous time, whichever is closer to the other end of the range
+function closestReading(token: TimeToken, distance: (minutes: number) => number) {
+  const morning = toMinutes(Number(token[1]) % 12, Number(token[2] ?? 0), undefined);
+  return [morning, morning + 12 * 60].reduce((best, candidate) => (distance(candidate) < distance(best) ? candidate : best));
+}
+
+export function parseTimeRange(raw: string): ParsedTime | null {
+  const text = raw.toLowerCase().replace(/noon/g, "12pm").replace(/midnight/g, "12am");
+  const tokens = Array.from(text.matchAll(/(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)?/g)).filter(
+    (match) => Number(match[1]) <= 24
+  );
+  if (!tokens.length) return null;
+
+  const [start, end] = tokens;
+  const minutesOf = (token: TimeToken) => toMinutes(Number(token[1]), Number(token[2] ?? 0), token[3]);
+
+  if (!end) {
+    // A lone "8" is an evening start; "09:00" and "00:30" mean what they say
+    const startMinutes = isUnambiguous(start) ? minutesOf(start) : toMinutes(Number(start[1]), Number(start[2] ?? 0), "pm");
+    return { startMinutes, durationMinutes: DEFAULT_DURATION_MINUTES };
+  }
+
+  let startMinutes: number;
+  let endMinutes: number;
+  if (isUnambiguous(start) && isUnambiguous(end)) {
+    [startMinutes, endMinutes] = [minutesOf(start), minutesOf(end)];
+  } else if (isUnambiguous(start)) {
+    // "10pm-2" ends at the first 2 o'clock after it starts
+    startMinutes = minutesOf(start);
+    endMinutes = closestReading(end, (minutes) => minutesBetween(startMinutes, minutes));
+  } else if (start[2] && end[2] && !isUnambiguous(end)) {
+    // "10:00-11:30" without am or pm reads as 24-hour times
+    [startMinutes, endMinutes] = [minutesOf(start), minutesOf(end)];
+  } else {
+    // "2-8pm" and "10-2am" start at the last such hour before the end. Without any am or pm,
+    // "11-4" and "2-8" are read as ending in the afternoon or evening
+    endMinutes = isUnambiguous(end) ? minutesOf(end) : toMinutes(Number(end[1]), Number(end[2] ?? 0), "pm");
+    startMinutes = closestReading(start, (minutes) => minutesBetween(minutes, endMinutes));
+  }
+
+  const durationMinutes = minutesBetween(startMinutes, endMinutes);
+  return { startMinutes, durationMinutes: durationMinutes > MAX_DURATION_MINUTES ? DEFAULT_DURATION_MINUTES : durationMinutes };
+}
+
+interface ParsedDate {
+  date?: { year?: number; month: number; day: number };
+  recurrence?: string;
+}
+
+export function parseDatePattern(raw: string, timezone: string): ParsedDate | null {
+  const text = raw.trim().toLowerCase();
+  if (!text) return null;
+
+  if (/\b(daily|every day|nightly|every night)\b/.test(text)) {
+    return { recurrence: "FREQ=DAILY" };
+  }
+
+  // "every year on 25 Dec", "25th December annually"
+  const yearly = /\b(yearly|annually|annual|every year)\b/;
+  if (yearly.test(text)) {
+    const date = parseDatePattern(text.replace(yearly, " "), timezone)?.date;
+    if (date) return { recurrence: `FREQ=YEARLY;BYMONTH=${date.month + 1};BYMONTHDAY=${date.day}` };
+  }
+
+  const weekdayIndex = (name: string) => WEEKDAY_PREFIXES.indexOf(name.slice(0, 3));
+  // Ranges are spelled out day by day, wrapping round the weekend, before the days are read
+  const withRanges = text.replace(WEEKDAY_RANGE_PATTERN, (_, from: string, to: string) => {
+    const span = (weekdayIndex(to) - weekdayIndex(from) + 7) % 7;
+    return Array.from({ length: span + 1 }, (_, offset) => WEEKDAY_PREFIXES[(weekdayIndex(from) + offset) % 7]).join(" ");
+  });
+  const weekdays = Array.from(new Set(Array.from(withRanges.matchAll(WEEKDAY_PATTERN), (match) => WEEKDAYS[weekdayIndex(match[1])])));
+
+  // "1st Sunday", "2nd and 4th Saturday"
+  const ordinals = Array.from(text.matchAll(/\b(1st|first|2nd|second|3rd|third|4th|fourth|last)\b/g), (match) => ORDINALS[match[1]]);
+  if (ordinals.length && weekdays.length) {
+    const byDay = new Set(ordinals.flatMap((n) => weekdays.map((day) => `${n}${day}`)));
+    return { recurrence: `FREQ=MONTHLY;BYDAY=${Array.from(byDay).join(",")}` };
+  }
+
+  const iso = text.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+  if (iso) {
+    return { date: { year: Number(iso[1]), month: Number(iso[2]) - 1, day: Number(iso[3]) } };
+  }
+
+  const numeric = text.match(/\b(\d{1,2})[\/.](\d{1,2})(?:[\/.](\d{2,4}))?\b/);
+  if (numeric) {
+    const [first, second] = [Number(numeric[1]), Number(numeric[2])];
+    const [month, day] = isMonthFirst(timezone) ? [first, second] : [second, first];
+    const year = numeric[3] ? Number(numeric[3].length === 2 ? `20${numeric[3]}` : numeric[3]) : undefined;
+    if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
+      return { date: { year, month: month - 1, day } };
+    }
+  }
+
+  const monthPattern = MONTHS.join("|");
+  const dayThenMonth = text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${monthPattern})[a-z]*\\.?(?:,?\\s+(\\d{4}))?`));
+  const monthThenDay = text.match(new RegExp(`\\b(${monthPattern})[a-z]*\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?`));
+  if (dayThenMonth) {
+    return { date: { year: dayThenMonth[3] ? Number(dayThenMonth[3]) : undefined, month: MONTHS.indexOf(dayThenMonth[2]), day: Number(dayThenMonth[1]) } };
+  }
+  if (monthThenDay) {
+    return { date: { year: monthThenDay[3] ? Number(monthThenDay[3]) : undefined, month: MONTHS.indexOf(monthThenDay[1]), day: Number(monthThenDay[2]) } };
+  }
+
+  // "every Saturday", "Saturdays", "Fri & Sat", "Mon-Fri" and a bare weekday are all weekly
+  if (weekdays.length) {
+    return { recurrence: `FREQ=WEEKLY;BYDAY=${weekdays.join(",")}` };
+  }
+
+  return null;
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function matchesRule(rule: string, day: LocalParts) {
+  const params = Object.fromEntries(rule.split(";").map((part) => part.split("=") as [string, string]));
+
+  if (params.FREQ === "DAILY") return true;
+
+  if (params.FREQ === "WEEKLY") {
+    return (params.BYDAY ?? "").split(",").includes(WEEKDAYS[day.weekday]);
+  }
+
+  if (params.FREQ === "YEARLY") {
+    return Number(params.BYMONTH) - 1 === day.month && Number(params.BYMONTHDAY) === day.day;
+  }
+
+  if (params.FREQ === "MONTHLY") {
+    if (params.BYMONTHDAY) {
+      return params.BYMONTHDAY.split(",").map(Number).includes(day.day);
+    }
+    return (params.BYDAY ?? "").split(",").some((entry) => {
+      const match = entry.match(/^(-?\d)([A-Z]{2})$/);
+      if (!match || match[2] !== WEEKDAYS[day.weekday]) return false;
+      const n = Number(match[1]);
+      return n > 0 ? Math.ceil(day.day / 7) === n : day.day + 7 > daysInMonth(day.year, day.month);
+    });
+  }
+
+  return false;
+}
+
+// Walks local calendar days in [from, to] and yields rule matches at the given local start time
+function expandRule(
+  rule: string,
+  startMinutes: number,
+  durationMinutes: number,
+  timezone: string,
+  from: Date,
+  to: Date,
+  limit: number
+): Occurrence[] {
+  const occurrences: Occurrence[] = [];
+  // Start a day early so events that began yesterday evening and are still running are included
+  const first = localParts(new Date(from.getTime() - DAY_MS), timezone);
+  const last = localParts(to, timezone);
+  const lastDay = Date.UTC(last.year, last.month, last.day);
+
+  for (let cursor = Date.UTC(first.year, first.month, first.day); cursor <= lastDay && occurrences.length < limit; cursor += DAY_MS) {
+    const date = new Date(cursor);
+    const day = { ...first, year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate(), weekday: date.getUTCDay() };
+    if (!matchesRule(rule, day)) continue;
+
+    const startsAt = zonedTime(day.year, day.month, day.day, Math.floor(startMinutes / 60), startMinutes % 60, timezone);
+    const endsAt = new Date(startsAt.getTime() + durationMinutes * 60 * 1000);
+    if (endsAt > from && startsAt <= to) {
+      occurrences.push({ startsAt, endsAt });
+    }
+  }
+
+  return occurrences;
+}
+
+// Parses the CSV date/time strings for an event in `city`. Recurring events start at their next occurrence after `now`
+export function parseEventSchedule(date: string, time: string, city: string, now = new Date()): EventSchedule {
+  const timezone = timezoneForCity(city);
+  const parsedDate = parseDatePattern(date ?? "", timezone);
+  const parsedTime = parseTimeRange(time ?? "");
+  const allDay = !parsedTime;
+  const startMinutes = parsedTime?.startMinutes ?? 0;
+  const durationMinutes = parsedTime?.durationMinutes ?? 24 * 60;
+
+  const unscheduled: EventSchedule = { startsAt: null, endsAt: null, timezone, recurrence: null, allDay };
+  if (!parsedDate) return unscheduled;
+
+  if (parsedDate.recurrence) {
+    const horizon = new Date(now.getTime() + 400 * DAY_MS);
+    const [next] = expandRule(parsedDate.recurrence, startMinutes, durationMinutes, timezone, now, horizon, 1);
+    return next ? { ...next, timezone, recurrence: parsedDate.recurrence, allDay } : unscheduled;
+  }
+
+  const { month, day } = parsedDate.date!;
+  let year = parsedDate.date!.year ?? localParts(now, timezone).year;
+  let startsAt = zonedTime(year, month, day, Math.floor(startMinutes / 60), startMinutes % 60, timezone);
+
+  // Without a year, a date well in the past most likely means next year's edition
+  if (parsedDate.date!.year === undefined && now.getTime() - startsAt.getTime() > 180 * DAY_MS) {
+    year += 1;
+    startsAt = zonedTime(year, month, day, Math.floor(startMinutes / 60), startMinutes % 60, timezone);
+  }
+
+  return {
+    startsAt,
+    endsAt: new Date(startsAt.getTime() + durationMinutes * 60 * 1000),
+    timezone,
+    recurrence: null,
+    allDay,
+  };
+}
+
+// Lists the occurrences of an event that overlap [from, to]
+export function expandOccurrences(schedule: EventSchedule, from: Date, to: Date, limit = 10): Occurrence[] {
+  if (!schedule.startsAt) return [];
+
+  const startsAt = new Date(schedule.startsAt);
+  const endsAt = schedule.endsAt ? new Date(schedule.endsAt) : new Date(startsAt.getTime() + DEFAULT_DURATION_MINUTES * 60 * 1000);
+
+  if (!schedule.recurrence) {
+    return endsAt > from && startsAt <= to ? [{ startsAt, endsAt }] : [];
+  }
+
+  const local = localParts(startsAt, schedule.timezone);
+  const durationMinutes = Math.round((endsAt.getTime() - startsAt.getTime()) / 60000);
+  return expandRule(schedule.recurrence, local.hour * 60 + local.minute, durationMinutes, schedule.timezone, from, to, limit);
+}
+
+// Resolves a relative timeframe like "this_weekend" to a window in the city's local time
+export function resolveTimeframe(timeframe: Timeframe, now: Date, timezone: string): { from: Date; to: Date } {
+  const today = localParts(now, timezone);
+  const at = (dayOffset: number, hour: number, minute = 0) =>
+    zonedTime(today.year, today.month, today.day + dayOffset, hour, minute, timezone);
+  // Days until the end of Sunday, treating Monday as the start of the week
+  const daysToSunday = (7 - today.weekday) % 7;
+
+  switch (timeframe) {
+    case "today":
+      return { from: now, to: at(0, 23, 59) };
+    case "tonight":
+      return { from: now > at(0, 17) ? now : at(0, 17), to: at(1, 4) };
+    case "tomorrow":
+      return { from: at(1, 0), to: at(1, 23, 59) };
+    case "this_weekend": {
+      const fridayEvening = at((5 - today.weekday + 7) % 7, 17);
+      const weekendStarted = today.weekday === 0 || today.weekday === 6 || (today.weekday === 5 && now >= fridayEvening);
+      return { from: weekendStarted ? now : fridayEvening, to: at(daysToSunday, 23, 59) };
+    }
+    case "this_week":
+      return { from: now, to: at(daysToSunday, 23, 59) };
+    case "next_week":
+      return { from: at(daysToSunday + 1, 0), to: at(daysToSunday + 7, 23, 59) };
+    case "next_7_days":
+      return { from: now, to: at(7, 23, 59) };
+  }
+}
+
+// Formats an occurrence in the event's local time for the model, e.g. "Sat 14 Jun 2025, 14:00-20:00 (Europe/London)"
+export function formatOccurrence(occurrence: Occurrence, timezone: string, allDay = false) {
+  const date = new Intl.DateTimeFormat("en-GB", { timeZone: timezone, weekday: "short", day: "numeric", month: "short", year: "numeric" }).format(occurrence.startsAt);
+  if (allDay) return `${date} (${timezone})`;
+
+  const time = new Intl.DateTimeFormat("en-GB", { timeZone: timezone, hour: "2-digit", minute: "2-digit", hourCycle: "h23" });
+  return `${date}, ${time.format(occurrence.startsAt)}-${time.format(occurrence.endsAt)} (${timezone})`;
+}
@@ -0,0 +1,137 @@
+import { StructuredOutputParser } from "@langchain/core/output_parsers";
+import { AnyBulkWriteOperation, Collection, Document, ObjectId } from "mongodb";
+import { z } from "zod";
+import { AgentRunOptions, messageText, runCallbacks } from "./agent-stream";
+import { getChatModel } from "./providers";
+import { ResilienceOptions, withResilience } from "./resilience";
+import "dotenv/config";
+
+export const VERIFICATION_STATUSES = ["verified", "unverified", "possibly_closed"] as const;
+
+export type VerificationStatus = (typeof VERIFICATION_STATUSES)[number];
+
+// Fields the web showed to be out of date, with their current values
+export const EventCorrectionsSchema = z.object({
+  date: z.string().optional(),
+  time: z.string().optional(),
+  location: z.string().optional(),
+  instagram: z.string().optional(),
+});
+
+export const VerificationVerdictSchema = z.object({
+  eventId: z.string().describe("The _id of the event from the database results"),
+  status: z.enum(VERIFICATION_STATUSES),
+  sourceUrls: z.array(z.string().url()),
+  corrections: EventCorrectionsSchema,
+});
+
+export type VerificationVerdict = z.infer<typeof VerificationVerdictSchema>;
+
+// Stored on the event document as `verification`
+export interface EventVerification {
+  status: VerificationStatus;
+  checkedAt: Date;
+  sourceUrls: string[];
+  corrections: z.infer<typeof EventCorrectionsSchema>;
+}
+
+// Multiplies the vector search score, so stale venues sink below fresh ones
+export const VERIFICATION_RANK_WEIGHTS: Record<VerificationStatus | "not_checked", number> = {
+  verified: 1,
+  not_checked: 0.95,
+  unverified: 0.9,
+  possibly_closed: 0.5,
+};
+
+const DEFAULT_MAX_AGE_HOURS = 72;
+
+// The model may return malformed URLs, which are dropped rather than failing the whole verdict
+const parser = StructuredOutputParser.fromZodSchema(
+  z.object({
+    verdicts: z.array(VerificationVerdictSchema.extend({ sourceUrls: z.array(z.string()) })),
+  })
+);
+
+// How long a check stays fresh before the event is searched on the web again
+export function verificationMaxAgeMs(env: NodeJS.ProcessEnv = process.env) {
+  const hours = Number(env.VERIFICATION_MAX_AGE_HOURS);
+  return (Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_MAX_AGE_HOURS) * 60 * 60 * 1000;
+}
+
+// `event` may come straight from Mongo or from events_lookup's JSON, where checkedAt is a string
+export function needsVerification(event: Document, now = new Date(), maxAgeMs = verificationMaxAgeMs()) {
+  const checkedAt = event.verification?.checkedAt ? new Date(event.verification.checkedAt).getTime() : NaN;
+  return !(now.getTime() - checkedAt < maxAgeMs);
+}
+
+export function verificationRankWeight(event: Document) {
+  const status: VerificationStatus | undefined = event.verification?.status;
+  return VERIFICATION_RANK_WEIGHTS[status ?? "not_checked"] ?? VERIFICATION_RANK_WEIGHTS.not_checked;
+}
+
+// Asks the model for a verdict on each database event, based on what the web searches found.
+// A reply that can't be parsed gives no verdicts; a model that can't be reached is the caller's to handle
+export async function assessVerification(
+  events: Document[],
+  webResults: string,
+  options: AgentRunOptions & ResilienceOptions = {}
+): Promise<VerificationVerdict[]> {
+  if (!events.length) return [];
+  const model = getChatModel();
+
+  const prompt = `You check event listings against web search results.
+  For each database event, decide whether the web search results show it is still running.
+  Use "verified" when a current listing, post or page confirms it, "possibly_closed" when results say it has closed, ended or moved away, and "unverified" when the results don't settle it.
+  List the URLs of the results you relied on as sourceUrls. Only fill in corrections for date, time, location or instagram when a result shows a different current value, and leave corrections empty otherwise.
+  Give exactly one verdict per database event, using its _id as eventId.
+
+  Database events:
+  ${JSON.stringify(events)}
+
+  Web search results:
+  ${webResults}
+
+  ${parser.getFormatInstructions()}`;
+
+  const response = await withResilience(
+    "chat",
+    (signal) => model.invoke(prompt, { signal, callbacks: runCallbacks(options, false) }),
+    { signal: options.signal, deadline: options.deadline }
+  );
+
+  try {
+    const parsed = await parser.parse(messageText(response.content));
+    const knownIds = new Set(events.map((event) => String(event._id)));
+
+    return parsed.verdicts
+      .filter((verdict) => knownIds.has(verdict.eventId))
+      .map((verdict) =>
+        VerificationVerdictSchema.parse({
+          ...verdict,
+          sourceUrls: verdict.sourceUrls.filter((url) => z.string().url().safeParse(url).success),
+        })
+      );
+  } catch (error) {
+    console.error("Error assessing verification:", error);
+    return [];
+  }
+}
+
+// Writes each verdict onto its event document
+export async function recordVerification(
+  collection: Collection,
+  verdicts: VerificationVerdict[],
+  checkedAt = new Date()
+) {
+  const operations: AnyBulkWriteOperation[] = verdicts
+    .filter((verdict) => ObjectId.isValid(verdict.eventId))
+    .map(({ eventId, status, sourceUrls, corrections }) => {
+      const verification: EventVerification = { status, checkedAt, sourceUrls, corrections };
+      return { updateOne: { filter: { _id: new ObjectId(eventId) }, update: { $set: { verification } } } };
+    });
+
+  if (operations.length) {
+    await collection.bulkWrite(operations, { ordered: false });
+  }
+  return operations.length;
+}
@@ -0,0 +1,503 @@
+import { tool } from "@langchain/core/tools";
+import { Document as LangChainDocument } from "@langchain/core/documents";
+import { MongoDBAtlasVectorSearch } from "@langchain/mongodb";
+import { Collection, Document, MongoClient } from "mongodb";
+import { z } from "zod";
+import {
+  EventSchedule,
+  TIMEFRAMES,
+  Timeframe,
+  expandOccurrences,
+  formatOccurrence,
+  parseEventSchedule,
+  resolveTimeframe,
+  timezoneForCity,
+  zonedTime,
+} from "./event-schedule";
+import { verificationRankWeight } from "./event-verification";
+import { METERS_PER_MILE, eventAddress, toGeoPoint } from "./geocoding";
+import { getEmbeddings, getGeocoder } from "./providers";
+import { failureReason, loadResiliencePolicy, withResilience } from "./resilience";
+
+export const EVENTS_VECTOR_INDEX = "vector_index";
+
+// Atlas only pre-filters on fields declared as "filter" in the vector index.
+// Dates aren't pre-filtered because recurring events have to be expanded first
+export const EVENTS_VECTOR_INDEX_DEFINITION = {
+  fields: [
+    { type: "vector", path: "embedding", numDimensions: 1536, similarity: "cosine" },
+    { type: "filter", path: "city" },
+    { type: "filter", path: "type" },
+    { type: "filter", path: "archived" },
+  ],
+};
+
+export const EVENTS_TEXT_INDEX = "text_index";
+
+// Full-text index for exact names and handles, which embeddings are poor at. The standard
+// analyzer drops the @, so handles match with or without it
+export const EVENTS_TEXT_INDEX_DEFINITION = {
+  mappings: {
+    dynamic: false,
+    fields: {
+      name: { type: "string" },
+      instagram: { type: "string" },
+      location: { type: "string" },
+      type: { type: "string" },
+      notes: { type: "string" },
+    },
+  },
+};
+
+export const EVENTS_LOOKUP_MODES = ["hybrid", "vector"] as const;
+
+export type EventsLookupMode = (typeof EVENTS_LOOKUP_MODES)[number];
+
+// Hybrid unless EVENTS_LOOKUP_MODE=vector, e.g. on a cluster without the text index
+export function eventsLookupMode(env: NodeJS.ProcessEnv = process.env): EventsLookupMode {
+  return env.EVENTS_LOOKUP_MODE === "vector" ? "vector" : "hybrid";
+}
+
+// The usual reciprocal rank fusion constant; it keeps one list's top result from dominating
+const RRF_K = 60;
+
+// Extra candidates fetched per requested result when they still need a date filter
+const DATE_FILTER_OVERFETCH = 5;
+
+// Extra candidates fetched so verification status can reorder them
+const RANKING_OVERFETCH = 2;
+
+// How much semantic relevance counts against closeness when a nearby search also has a query
+const NEARBY_RELEVANCE_WEIGHT = 0.6;
+
+const MAX_NEARBY_RADIUS_MILES = 25;
+
+// Results a lookup returns at most, so that with DATE_FILTER_OVERFETCH it stays within the 100 candidates fetched
+export const MAX_LOOKUP_RESULTS = 20;
+
+// A model-supplied "next friday" would otherwise become an Invalid Date window that filters out everything
+export const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+export const resultCount = z.number().int().positive().max(MAX_LOOKUP_RESULTS);
+
+export interface EventLookupFilters {
+  city?: string;
+  type?: string;
+}
+
+export interface DateWindow {
+  from: Date;
+  to: Date;
+}
+
+// How a result was found, reported alongside it in the tool output
+export interface RetrievalMatch {
+  matchedBy: "exact" | "text+vector" | "text" | "vector";
+  vectorScore?: number;
+  textScore?: number;
+  fusedScore: number;
+}
+
+export async function ensureSearchIndex(collection: Collection, name: string, type: "search" | "vectorSearch", definition: Document) {
+  const existing = await collection.listSearchIndexes(name).toArray();
+  if (existing.length) {
+    await collection.updateSearchIndex(name, definition);
+  } else {
+    await collection.createSearchIndex({ name, type, definition });
+  }
+}
+
+// Creates or updates the events vector index so it carries our filter fields
+export async function ensureEventsVectorIndex(collection: Collection) {
+  await ensureSearchIndex(collection, EVENTS_VECTOR_INDEX, "vectorSearch", EVENTS_VECTOR_INDEX_DEFINITION);
+}
+
+// Creates or updates the full-text index used by hybrid lookups
+export async function ensureEventsTextIndex(collection: Collection) {
+  await ensureSearchIndex(collection, EVENTS_TEXT_INDEX, "search", EVENTS_TEXT_INDEX_DEFINITION);
+}
+
+// $geoNear needs a 2dsphere index on the geocoded event locations. Tracked by client and namespace,
+// since every call to domainCollection returns a new Collection
+const geoIndexReady = new WeakMap<MongoClient, Map<string, Promise<void>>>();
+
+export function ensureEventsGeoIndex(client: MongoClient, collection: Collection) {
+  const byNamespace = geoIndexReady.get(client) ?? new Map<string, Promise<void>>();
+  geoIndexReady.set(client, byNamespace);
+
+  let ready = byNamespace.get(collection.namespace);
+  if (!ready) {
+    ready = collection.createIndex({ geo: "2dsphere" }).then(() => undefined);
+    ready.catch(() => byNamespace.delete(collection.namespace));
+    byNamespace.set(collection.namespace, ready);
+  }
+  return ready;
+}
+
+// Stored values come straight from the CSV, so match the common casings of what the model passes
+function caseVariants(value: string): string[] {
+  const trimmed = value.trim();
+  const titleCase = trimmed.toLowerCase().replace(/\b\w/g, (char) => char.toUpperCase());
+  return Array.from(new Set([trimmed, titleCase, trimmed.toLowerCase(), trimmed.toUpperCase()]));
+}
+
+// Builds the Atlas vector search pre-filter for the given lookup arguments
+export function buildEventsPreFilter(filters: EventLookupFilters): Document {
+  // Events removed from the source are archived by the seeder rather than deleted
+  const clauses: Document[] = [{ archived: { $ne: true } }];
+
+  if (filters.city) {
+    clauses.push({ city: { $in: caseVariants(filters.city) } });
+  }
+  if (filters.type) {
+    clauses.push({ type: { $in: caseVariants(filters.type) } });
+  }
+
+  return clauses.length === 1 ? clauses[0] : { $and: clauses };
+}
+
+// Turns the timeframe or dateFrom/dateTo arguments into a window in the city's local time
+export function resolveDateWindow(
+  args: { timeframe?: Timeframe; dateFrom?: string; dateTo?: string },
+  timezone: string,
+  now = new Date()
+): DateWindow | undefined {
+  if (args.timeframe) {
+    return resolveTimeframe(args.timeframe, now, timezone);
+  }
+  if (!args.dateFrom && !args.dateTo) return undefined;
+
+  const localDate = (value: string, hour: number, minute: number) => {
+    const [year, month, day] = value.split("-").map(Number);
+    return zonedTime(year, month - 1, day, hour, minute, timezone);
+  };
+  return {
+    from: args.dateFrom ? localDate(args.dateFrom, 0, 0) : now,
+    to: args.dateTo ? localDate(args.dateTo, 23, 59) : new Date(now.getTime() + 365 * 24 * 60 * 60 * 1000),
+  };
+}
+
+// Events seeded before schedules were normalized still carry the raw CSV strings
+function scheduleOf(metadata: Record<string, any>): EventSchedule {
+  return metadata.schedule ?? parseEventSchedule(metadata.date, metadata.time, metadata.city);
+}
+
+// Sync bookkeeping and raw vectors aren't useful to the model
+function resultMetadata(doc: Document): Record<string, any> {
+  const { contentHash, archived, syncedAt, geo, embedding, provenance, ...metadata } = doc;
+  return metadata;
+}
+
+// Lists the event's dates in the window (or the coming weeks) in local time, returning how many there were
+function attachUpcomingDates(metadata: Record<string, any>, window: DateWindow | undefined): number {
+  const schedule = scheduleOf(metadata);
+  const occurrences = window
+    ? expandOccurrences(schedule, window.from, window.to, 5)
+    : expandOccurrences(schedule, new Date(), new Date(Date.now() + 60 * 24 * 60 * 60 * 1000), 3);
+  metadata.upcomingDates = occurrences.map((occurrence) => formatOccurrence(occurrence, schedule.timezone, schedule.allDay));
+  return occurrences.length;
+}
+
+// Also sent as maxTimeMS, so the server stops work the policy has already given up on
+const atlasTimeoutMs = () => loadResiliencePolicy("atlas_search").timeoutMs;
+
+// Atlas Search over names and handles, boosted above the descriptive fields.
+// Errors leave the lookup to vector search alone
+async function textSearchEvents(collection: Collection, query: string, filter: Document, limit: number, signal?: AbortSignal) {
+  const pipeline = [
+    {
+      $search: {
+        index: EVENTS_TEXT_INDEX,
+        compound: {
+          should: [
+            { text: { query, path: ["name", "instagram"], score: { boost: { value: 3 } } } },
+            { text: { query, path: ["location", "type", "notes"] } },
+          ],
+          minimumShouldMatch: 1,
+        },
+      },
+    },
+    // Post-filtered, since city and type are only mapped in the vector index
+    { $match: filter },
+    { $limit: limit },
+    { $set: { score: { $meta: "searchScore" } } },
+    { $project: { embedding: 0 } },
+  ];
+
+  try {
+    const docs = await withResilience("atlas_search", () => collection.aggregate(pipeline, { maxTimeMS: atlasTimeoutMs() }).toArray(), { signal });
+    return docs.map(({ score, embedding_text, ...metadata }) => [new LangChainDocument({ pageContent: embedding_text, metadata }), score] as const);
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    console.error("Error in events text search:", error);
+    return [];
+  }
+}
+
+function normalizeForMatch(value: unknown) {
+  return ` ${String(value ?? "").toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim()} `;
+}
+
+// How long a name or handle the query gives for the event outright, 0 when it doesn't.
+// Longer matches are more specific, so "Afrobeats Brunch Club" beats "Afrobeats Brunch"
+function exactMatchLength(query: string, event: Record<string, any>) {
+  const text = normalizeForMatch(query);
+  return Math.max(
+    0,
+    ...[event.name, event.instagram]
+      .map(normalizeForMatch)
+      .filter((value) => value.trim() && text.includes(value))
+      .map((value) => value.length)
+  );
+}
+
+// Merges the vector and text rankings with reciprocal rank fusion, recording how each result matched
+export function fuseEventRankings(
+  query: string,
+  vectorResults: (readonly [LangChainDocument, number])[],
+  textResults: (readonly [LangChainDocument, number])[]
+): LangChainDocument[] {
+  const fused = new Map<string, { doc: LangChainDocument; vectorScore?: number; textScore?: number; fusedScore: number }>();
+  const add = (results: (readonly [LangChainDocument, number])[], field: "vectorScore" | "textScore") => {
+    results.forEach(([doc, score], rank) => {
+      const key = String(doc.metadata._id);
+      const entry = fused.get(key) ?? { doc, fusedScore: 0 };
+      entry[field] = score;
+      entry.fusedScore += 1 / (RRF_K + rank + 1);
+      fused.set(key, entry);
+    });
+  };
+  add(vectorResults, "vectorScore");
+  add(textResults, "textScore");
+
+  return Array.from(fused.values()).map(({ doc, vectorScore, textScore, fusedScore }) => {
+    const retrieval: RetrievalMatch = {
+      matchedBy: exactMatchLength(query, doc.metadata)
+        ? "exact"
+        : vectorScore !== undefined && textScore !== undefined
+          ? "text+vector"
+          : textScore !== undefined
+            ? "text"
+            : "vector",
+      vectorScore,
+      textScore,
+      fusedScore,
+    };
+    doc.metadata.retrieval = retrieval;
+    return doc;
+  });
+}
+
+// The events_lookup tool shared by the single agent and the database + web pipeline
+export function createEventLookupTool(collection: Collection) {
+  return tool(
+    async ({ query, n = 10, city, type, timeframe, dateFrom, dateTo }, config) => {
+      try {
+        console.log("Event lookup tool called with query:", query, { city, type, timeframe, dateFrom, dateTo });
+
+        const vectorStore = new MongoDBAtlasVectorSearch(getEmbeddings(config?.signal), {
+          collection: collection,
+          indexName: EVENTS_VECTOR_INDEX,
+          textKey: "embedding_text",
+          embeddingKey: "embedding",
+        });
+
+        const window = resolveDateWindow({ timeframe, dateFrom, dateTo }, timezoneForCity(city));
+        const preFilter = buildEventsPreFilter({ city, type });
+        const limit = Math.min(n * (window ? DATE_FILTER_OVERFETCH : RANKING_OVERFETCH), 100);
+        const [vectorResults, textResults] = await Promise.all([
+          withResilience("atlas_search", () => vectorStore.similaritySearchWithScore(query, limit, { preFilter }), { signal: config?.signal }),
+          eventsLookupMode() === "hybrid" ? textSearchEvents(collection, query, preFilter, limit, config?.signal) : [],
+        ]);
+
+        // Attach upcoming dates, and when a window was asked for keep only events that fall in it.
+        // Exact name or handle matches come first; otherwise events whose last web check found them
+        // closed or unconfirmed rank below fresh ones
+        const score = (doc: LangChainDocument) => doc.metadata.retrieval.fusedScore * verificationRankWeight(doc.metadata);
+        const exact = (doc: LangChainDocument) => exactMatchLength(query, doc.metadata);
+        const result = fuseEventRankings(query, vectorResults, textResults)
+          .map((doc) => {
+            doc.metadata = resultMetadata(doc.metadata);
+            return [doc, attachUpcomingDates(doc.metadata, window)] as const;
+          })
+          .filter(([, occurrenceCount]) => !window || occurrenceCount > 0)
+          .map(([doc]) => doc)
+          .sort((a, b) => exact(b) - exact(a) || score(b) - score(a))
+          .slice(0, n)
+          .map((doc) => [doc, score(doc)]);
+
+        if (!result || result.length === 0) {
+          return JSON.stringify({
+            message: "NO_RESULTS_FOUND",
+            ...(window && {
+              hint: "Nothing matched those dates. Search again without timeframe/dateFrom/dateTo to suggest alternatives.",
+            }),
+          });
+        }
+
+        return JSON.stringify(result);
+      } catch (error: any) {
+        if (config?.signal?.aborted) {
+          throw error;
+        }
+        console.error("Error in event lookup tool:", error);
+        return JSON.stringify({ message: "NO_RESULTS_FOUND", error: error.message, reason: failureReason(error) });
+      }
+    },
+    {
+      name: "events_lookup",
+      description:
+        "Searches for events information in the Events database. Pass city and type whenever the user has mentioned them in the conversation so results are restricted to matching events. Use timeframe for relative requests like 'this weekend' or 'tonight', or dateFrom/dateTo for specific dates. Recurring events are expanded and each result lists its upcomingDates in local time. Exact event names and Instagram handles in the query are matched directly, and each result's retrieval field says how it matched (exact, text+vector, text or vector) with its scores. Results that were checked on the web carry a verification status (verified, unverified or possibly_closed), the sources it was based on and any corrected details.",
+      schema: z.object({
+        query: z.string().describe("The search query"),
+        n: resultCount.optional().default(10).describe(`Number of results to return, at most ${MAX_LOOKUP_RESULTS}`),
+        city: z
+          .string()
+          .optional()
+          .describe("City the user wants events in, e.g. London or Atlanta. Omit if the user hasn't said"),
+        type: z
+          .string()
+          .optional()
+          .describe("Type of event, e.g. brunch, day party, club, restaurant, dinner party"),
+        timeframe: z
+          .enum(TIMEFRAMES)
+          .optional()
+          .describe("Relative window in the city's local time, resolved against the current time"),
+        dateFrom: isoDate.optional().describe("Earliest event date as YYYY-MM-DD, in the city's local time"),
+        dateTo: isoDate.optional().describe("Latest event date as YYYY-MM-DD, in the city's local time"),
+      }),
+    }
+  );
+}
+
+function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// The events_nearby tool: events within a radius of a point or address, nearest first,
+// or blended with semantic relevance when there's also a query
+export function createNearbyEventsTool(client: MongoClient, collection: Collection) {
+  return tool(
+    async ({ query, lat, lng, address, city, radiusMiles = 2, type, n = 10, timeframe, dateFrom, dateTo }, config) => {
+      try {
+        console.log("Nearby events tool called with:", { query, lat, lng, address, city, radiusMiles, type, timeframe, dateFrom, dateTo });
+
+        const origin =
+          lat !== undefined && lng !== undefined
+            ? toGeoPoint(lat, lng)
+            : address
+              ? await getGeocoder().geocode(eventAddress({ location: address, city }), { signal: config?.signal })
+              : null;
+        if (!origin) {
+          return JSON.stringify({
+            message: "LOCATION_NOT_FOUND",
+            hint: "Ask the user for a more specific address or neighbourhood, or use events_lookup with the city instead.",
+          });
+        }
+
+        await ensureEventsGeoIndex(client, collection);
+        const maxDistance = Math.min(radiusMiles, MAX_NEARBY_RADIUS_MILES) * METERS_PER_MILE;
+        const candidates = await withResilience(
+          "atlas_search",
+          () =>
+            collection
+              .aggregate(
+                [
+                  {
+                    $geoNear: {
+                      near: origin,
+                      key: "geo",
+                      distanceField: "distanceMeters",
+                      maxDistance,
+                      spherical: true,
+                      query: buildEventsPreFilter({ type }),
+                    },
+                  },
+                  { $limit: 100 },
+                ],
+                { maxTimeMS: atlasTimeoutMs() }
+              )
+              .toArray(),
+          { signal: config?.signal }
+        );
+
+        const window = resolveDateWindow({ timeframe, dateFrom, dateTo }, timezoneForCity(city));
+        const queryEmbedding = query ? await getEmbeddings(config?.signal).embedQuery(query) : undefined;
+
+        const result = candidates
+          .map((doc) => {
+            // Proximity is 1 at the origin and 0 at the edge of the radius. Relevance is the raw cosine,
+            // since rescaling it to [0, 1] the way Atlas does would let distance drown it out
+            const proximity = 1 - doc.distanceMeters / maxDistance;
+            const relevance =
+              queryEmbedding && Array.isArray(doc.embedding) ? Math.max(0, cosineSimilarity(queryEmbedding, doc.embedding)) : undefined;
+            const score =
+              (relevance === undefined ? proximity : NEARBY_RELEVANCE_WEIGHT * relevance + (1 - NEARBY_RELEVANCE_WEIGHT) * proximity) *
+              verificationRankWeight(doc);
+
+            const { embedding_text, distanceMeters, ...rest } = resultMetadata(doc);
+            const metadata = { ...rest, distanceMiles: Math.round((distanceMeters / METERS_PER_MILE) * 10) / 10 };
+            return [{ pageContent: embedding_text, metadata }, score, attachUpcomingDates(metadata, window)] as const;
+          })
+          .filter(([, , occurrenceCount]) => !window || occurrenceCount > 0)
+          .sort(([, aScore], [, bScore]) => bScore - aScore)
+          .slice(0, n)
+          .map(([doc, score]) => [doc, score]);
+
+        if (result.length === 0) {
+          return JSON.stringify({
+            message: "NO_RESULTS_FOUND",
+            hint: "Nothing matched nearby. Try a larger radiusMiles, or events_lookup for the whole city.",
+          });
+        }
+
+        return JSON.stringify(result);
+      } catch (error: any) {
+        if (config?.signal?.aborted) {
+          throw error;
+        }
+        console.error("Error in nearby events tool:", error);
+        return JSON.stringify({ message: "NO_RESULTS_FOUND", error: error.message, reason: failureReason(error) });
+      }
+    },
+    {
+      name: "events_nearby",
+      description:
+        "Finds events near a place, ranked by distance and, when a query is given, by how well they match it. Use when the user says 'near me', gives their location, or names a neighbourhood, street or venue. Pass lat/lng if the user shared coordinates, otherwise the address with the city. Each result has distanceMiles and upcomingDates in local time.",
+      schema: z.object({
+        query: z.string().optional().describe("What kind of event the user wants, if they said"),
+        lat: z.number().min(-90).max(90).optional().describe("Latitude of the user's location"),
+        lng: z.number().min(-180).max(180).optional().describe("Longitude of the user's location"),
+        address: z.string().optional().describe("Address, neighbourhood or venue to search around, e.g. Shoreditch"),
+        city: z.string().optional().describe("City the address is in, e.g. London"),
+        radiusMiles: z
+          .number()
+          .positive()
+          .optional()
+          .default(2)
+          .describe(`Search radius in miles, at most ${MAX_NEARBY_RADIUS_MILES}`),
+        type: z
+          .string()
+          .optional()
+          .describe("Type of event, e.g. brunch, day party, club, restaurant, dinner party"),
+        n: resultCount.optional().default(10).describe(`Number of results to return, at most ${MAX_LOOKUP_RESULTS}`),
+        timeframe: z
+          .enum(TIMEFRAMES)
+          .optional()
+          .describe("Relative window in the city's local time, resolved against the current time"),
+        dateFrom: isoDate.optional().describe("Earliest event date as YYYY-MM-DD, in the city's local time"),
+        dateTo: isoDate.optional().describe("Latest event date as YYYY-MM-DD, in the city's local time"),
+      }),
+    }
+  );
+}
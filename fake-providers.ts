@@ -0,0 +1,313 @@
+import { createHash } from "crypto";
+import { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import { Embeddings } from "@langchain/core/embeddings";
+import { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import { BaseChatModel, BaseChatModelParams, BindToolsInput } from "@langchain/core/language_models/chat_models";
+import { AIMessage, AIMessageChunk, BaseMessage, MessageContent } from "@langchain/core/messages";
+import { ChatGenerationChunk, ChatResult } from "@langchain/core/outputs";
+import { Runnable } from "@langchain/core/runnables";
+import { Tool } from "@langchain/core/tools";
+import { messageText } from "./agent-stream";
+import { GeoPoint, Geocoder, toGeoPoint } from "./geocoding";
+
+export interface ScriptedToolCall {
+  name: string;
+  args: Record<string, any>;
+}
+
+// What a scripted turn replies with: plain text, tool calls, or both. Content can be given as blocks,
+// the way Anthropic's tool-capable models answer
+export type ScriptedReply = string | { content?: MessageContent; toolCalls?: ScriptedToolCall[] };
+
+export interface ScriptContext {
+  messages: BaseMessage[];
+  // Names of the tools bound to the model for this call
+  toolNames: string[];
+  // The system prompt (or the whole prompt for single-string calls)
+  prompt: string;
+}
+
+export interface ScriptRule {
+  match: (context: ScriptContext) => boolean;
+  // May throw or return a promise to simulate model failures and slow responses
+  reply: (context: ScriptContext) => ScriptedReply | Promise<ScriptedReply>;
+}
+
+export interface ScriptedChatModelParams extends BaseChatModelParams {
+  // Rules are tried in order; the first match answers the call
+  rules?: ScriptRule[];
+  // Replies consumed one per call before any rule is consulted
+  queue?: ScriptedReply[];
+}
+
+let toolCallCounter = 0;
+
+// Tools are bound as LangChain tools, with a name, or as OpenAI-style definitions, with function.name
+function toolName(tool: BindToolsInput): string | undefined {
+  if ("name" in tool && typeof tool.name === "string") return tool.name;
+  if ("function" in tool && typeof tool.function?.name === "string") return tool.function.name;
+  return undefined;
+}
+
+// Plays back scripted replies so the agents can run without a model API
+export class ScriptedChatModel extends BaseChatModel {
+  rules: ScriptRule[];
+
+  queue: ScriptedReply[];
+
+  toolNames: string[] = [];
+
+  constructor(fields: ScriptedChatModelParams = {}) {
+    super(fields);
+    this.rules = fields.rules ?? [];
+    this.queue = fields.queue ?? [];
+  }
+
+  _llmType() {
+    return "scripted";
+  }
+
+  getLsParams(options: this["ParsedCallOptions"]) {
+    return { ...super.getLsParams(options), ls_provider: "scripted", ls_model_name: "scripted" };
+  }
+
+  bindTools(tools: BindToolsInput[]): Runnable<BaseLanguageModelInput, AIMessageChunk, this["ParsedCallOptions"]> {
+    const bound = new ScriptedChatModel({ rules: this.rules, queue: this.queue, callbacks: this.callbacks });
+    bound.toolNames = tools.map(toolName).filter((name) => name !== undefined);
+    return bound;
+  }
+
+  private async nextReply(messages: BaseMessage[]): Promise<AIMessage> {
+    const system = messages.find((message) => message._getType() === "system");
+    const context: ScriptContext = {
+      messages,
+      toolNames: this.toolNames,
+      prompt: messageText((system ?? messages[0])?.content),
+    };
+
+    const queued = this.queue.shift();
+    const rule = queued === undefined ? this.rules.find((candidate) => candidate.match(context)) : undefined;
+    const reply: ScriptedReply = queued ?? (await rule?.reply(context)) ?? "";
+
+    const { content = "", toolCalls = [] } = typeof reply === "string" ? { content: reply } : reply;
+    // Roughly four characters a token, so rate limits can be exercised
+    const input_tokens = Math.ceil(messages.reduce((total, message) => total + messageText(message.content).length, 0) / 4);
+    const output_tokens = Math.ceil((messageText(content).length + JSON.stringify(toolCalls).length) / 4);
+    return new AIMessage({
+      content,
+      tool_calls: toolCalls.map((call) => ({ ...call, id: `scripted_call_${++toolCallCounter}`, type: "tool_call" as const })),
+      usage_metadata: { input_tokens, output_tokens, total_tokens: input_tokens + output_tokens },
+    });
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const message = await this.nextReply(messages);
+    return { generations: [{ text: messageText(message.content), message }] };
+  }
+
+  // Streams text word by word so token events can be exercised offline
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    _options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const message = await this.nextReply(messages);
+    const words = messageText(message.content).match(/\S+\s*/g) ?? [];
+
+    for (const word of words) {
+      yield new ChatGenerationChunk({ text: word, message: new AIMessageChunk({ content: word }) });
+      await runManager?.handleLLMNewToken(word);
+    }
+    // Tool calls and usage arrive in a final chunk, as they do from the real providers
+    yield new ChatGenerationChunk({
+      text: "",
+      message: new AIMessageChunk({
+        content: "",
+        tool_call_chunks: (message.tool_calls ?? []).map((call, index) => ({
+          id: call.id,
+          name: call.name,
+          args: JSON.stringify(call.args),
+          index,
+          type: "tool_call_chunk" as const,
+        })),
+        usage_metadata: message.usage_metadata,
+      }),
+    });
+  }
+}
+
+// Bag-of-words hashing: texts sharing words land close together, with no network calls
+export class HashEmbeddings extends Embeddings {
+  constructor(private dimensions = 1536) {
+    super({});
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const token of text.toLowerCase().match(/[a-z0-9@]+/g) ?? []) {
+      const digest = createHash("md5").update(token).digest();
+      const index = digest.readUInt32BE(0) % this.dimensions;
+      vector[index] += digest[4] & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map((value) => value / norm);
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map((document) => this.embed(document));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document);
+  }
+}
+
+export interface CannedSearchResult {
+  title: string;
+  url: string;
+  content: string;
+}
+
+// Stands in for Tavily: returns fixed results for known queries and a generic page otherwise
+export class CannedSearchTool extends Tool {
+  name = "tavily_search_results_json";
+
+  description = "A search engine that returns canned results for offline runs.";
+
+  constructor(private results: Record<string, CannedSearchResult[]> = {}) {
+    super();
+  }
+
+  async _call(query: string): Promise<string> {
+    const known = Object.entries(this.results).find(([key]) => query.toLowerCase().includes(key.toLowerCase()));
+    if (known) {
+      return JSON.stringify(known[1]);
+    }
+
+    const slug = query.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+    return JSON.stringify([
+      {
+        title: query,
+        url: `https://example.com/search/${slug}`,
+        content: `Canned search result for "${query}".`,
+      },
+    ]);
+  }
+}
+
+type LatLng = [number, number];
+
+// Centres and well-known neighbourhoods for the cities the events cover, as [latitude, longitude]
+export const OFFLINE_GAZETTEER: Record<string, { center: LatLng; areas?: Record<string, LatLng> }> = {
+  london: {
+    center: [51.5074, -0.1278],
+    areas: {
+      shoreditch: [51.5264, -0.078],
+      "old street": [51.5256, -0.0876],
+      hackney: [51.545, -0.0553],
+      dalston: [51.5462, -0.075],
+      islington: [51.5362, -0.1033],
+      "kings cross": [51.5308, -0.1238],
+      camden: [51.539, -0.1426],
+      soho: [51.5136, -0.1365],
+      mayfair: [51.5101, -0.1478],
+      "covent garden": [51.5117, -0.124],
+      "notting hill": [51.509, -0.196],
+      "elephant and castle": [51.4946, -0.1003],
+      bermondsey: [51.4979, -0.0637],
+      vauxhall: [51.4861, -0.1253],
+      brixton: [51.4613, -0.1156],
+      clapham: [51.462, -0.138],
+      peckham: [51.474, -0.069],
+      deptford: [51.478, -0.026],
+      greenwich: [51.4826, -0.0077],
+      "canary wharf": [51.5054, -0.0235],
+      stratford: [51.5413, -0.0036],
+      walthamstow: [51.583, -0.02],
+      tottenham: [51.5882, -0.0723],
+      croydon: [51.3762, -0.0982],
+    },
+  },
+  atlanta: {
+    center: [33.749, -84.388],
+    areas: {
+      midtown: [33.7838, -84.383],
+      downtown: [33.755, -84.39],
+      buckhead: [33.838, -84.379],
+      "west end": [33.737, -84.418],
+      "old fourth ward": [33.764, -84.372],
+      "inman park": [33.757, -84.353],
+      "little five points": [33.764, -84.349],
+      "east atlanta": [33.74, -84.344],
+      "castleberry hill": [33.749, -84.401],
+      decatur: [33.7748, -84.2963],
+    },
+  },
+  "new york": {
+    center: [40.7128, -74.006],
+    areas: {
+      harlem: [40.8116, -73.9465],
+      manhattan: [40.7831, -73.9712],
+      "lower east side": [40.715, -73.9843],
+      brooklyn: [40.6782, -73.9442],
+      "bed stuy": [40.6872, -73.9418],
+      "crown heights": [40.6694, -73.9422],
+      williamsburg: [40.7081, -73.9571],
+      bronx: [40.8448, -73.8648],
+      queens: [40.7282, -73.7949],
+    },
+  },
+  lagos: {
+    center: [6.5244, 3.3792],
+    areas: { "victoria island": [6.4281, 3.4219], lekki: [6.4698, 3.5852], ikeja: [6.6018, 3.3515] },
+  },
+  accra: {
+    center: [5.6037, -0.187],
+    areas: { osu: [5.556, -0.182], "east legon": [5.635, -0.161] },
+  },
+  manchester: { center: [53.4808, -2.2426] },
+  birmingham: { center: [52.4862, -1.8904] },
+  paris: { center: [48.8566, 2.3522] },
+  amsterdam: { center: [52.3676, 4.9041] },
+  berlin: { center: [52.52, 13.405] },
+  johannesburg: { center: [-26.2041, 28.0473] },
+  "cape town": { center: [-33.9249, 18.4241] },
+  nairobi: { center: [-1.2921, 36.8219] },
+  dubai: { center: [25.2048, 55.2708] },
+  "washington dc": { center: [38.9072, -77.0369] },
+  charlotte: { center: [35.2271, -80.8431] },
+  miami: { center: [25.7617, -80.1918] },
+  philadelphia: { center: [39.9526, -75.1652] },
+  baltimore: { center: [39.2904, -76.6122] },
+  detroit: { center: [42.3314, -83.0458] },
+  toronto: { center: [43.6532, -79.3832] },
+  chicago: { center: [41.8781, -87.6298] },
+  houston: { center: [29.7604, -95.3698] },
+  dallas: { center: [32.7767, -96.797] },
+  "new orleans": { center: [29.9511, -90.0715] },
+  "los angeles": { center: [34.0522, -118.2437] },
+  oakland: { center: [37.8044, -122.2712] },
+  "las vegas": { center: [36.1699, -115.1398] },
+  kingston: { center: [17.9712, -76.7936] },
+};
+
+// Places addresses by the neighbourhood or city names they mention, with no network calls
+export class LookupTableGeocoder implements Geocoder {
+  constructor(private gazetteer = OFFLINE_GAZETTEER) {}
+
+  async geocode(address: string): Promise<GeoPoint | null> {
+    const text = ` ${address.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim()} `;
+    const mentions = (name: string) => text.includes(` ${name} `);
+    const longestFirst = (names: string[]) => names.sort((a, b) => b.length - a.length);
+
+    const city = longestFirst(Object.keys(this.gazetteer)).find(mentions);
+    const areas = city
+      ? Object.entries(this.gazetteer[city].areas ?? {})
+      : Object.values(this.gazetteer).flatMap((entry) => Object.entries(entry.areas ?? {}));
+    const area = longestFirst(areas.map(([name]) => name)).find(mentions);
+
+    const [lat, lng] = area ? areas.find(([name]) => name === area)![1] : city ? this.gazetteer[city].center : [NaN, NaN];
+    return Number.isNaN(lat) ? null : toGeoPoint(lat, lng);
+  }
+}
@@ -0,0 +1,151 @@
+import { AnyBulkWriteOperation, MongoClient } from "mongodb";
+import fs from "fs";
+import { z } from "zod";
+import { domainCollection, eventsProfile } from "./domain-profiles";
+import { embedEventDocuments } from "./event-documents";
+import { ensureEventsGeoIndex, ensureEventsTextIndex, ensureEventsVectorIndex } from "./events-lookup";
+import { getGenerationModel } from "./providers";
+import {
+  DEFAULT_SYNTHETIC_OPTIONS,
+  RECURRENCE_KINDS,
+  RecurrenceKind,
+  SyntheticDataset,
+  SyntheticEventOptions,
+  generateEventsWithModel,
+  generateSyntheticEvents,
+  toEventsCSV,
+} from "./synthetic-events";
+import "dotenv/config";
+
+interface CliOptions extends SyntheticEventOptions {
+  // Ask the generation model for the events instead of building them offline
+  llm: boolean;
+  // Where to write the CSV; stdout when neither this nor --load is given
+  outPath?: string;
+  // Upsert the events straight into the collection, near-duplicates and all
+  load: boolean;
+}
+
+const USAGE = `Usage: ts-node generate-events.ts [--count=N] [--cities=London,Atlanta] [--types=Brunch:3,Club:1]
+  [--recurrence=weekly:3,once:1] [--duplicates=0-1] [--seed=N] [--start=YYYY-MM-DD] [--llm] [--out=events.csv] [--load]`;
+
+// Flags that would otherwise turn into NaN counts or an Invalid Date deep inside generation
+const GenerationArgsSchema = z.object({
+  count: z.coerce.number().int().positive(),
+  duplicateRate: z.coerce.number().min(0).max(1),
+  seed: z.coerce.number().int(),
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")
+    .refine((value) => {
+      // Date rolls "2026-02-31" over into March rather than rejecting it
+      const date = new Date(`${value}T00:00:00Z`);
+      return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+    }, "Not a calendar date")
+    .transform((value) => new Date(`${value}T00:00:00Z`)),
+  typeMix: z.record(z.number().nonnegative()),
+  recurrenceMix: z.record(z.number().nonnegative()),
+});
+
+// The flag each option is read from, for error messages
+const FLAG_NAMES: Record<string, string> = {
+  count: "count",
+  duplicateRate: "duplicates",
+  seed: "seed",
+  startDate: "start",
+  typeMix: "types",
+  recurrenceMix: "recurrence",
+};
+
+// Parses "Brunch:3,Day Party:1" into weights; a name without a weight counts once
+function parseWeights(value: string): Record<string, number> {
+  return Object.fromEntries(
+    value.split(",").map((part) => {
+      const [key, weight] = part.split(":");
+      return [key.trim(), weight === undefined ? 1 : Number(weight)];
+    })
+  );
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const value = (flag: string) => argv.find((arg) => arg.startsWith(`${flag}=`))?.slice(flag.length + 1);
+  const recurrence = value("--recurrence");
+  const recurrenceMix = recurrence ? parseWeights(recurrence) : DEFAULT_SYNTHETIC_OPTIONS.recurrenceMix;
+  const unknown = Object.keys(recurrenceMix).filter((kind) => !RECURRENCE_KINDS.includes(kind as RecurrenceKind));
+  if (unknown.length) {
+    throw new Error(`Unknown recurrence ${unknown.join(", ")}. Use ${RECURRENCE_KINDS.join(", ")}`);
+  }
+
+  const parsed = GenerationArgsSchema.safeParse({
+    count: value("--count") ?? DEFAULT_SYNTHETIC_OPTIONS.count,
+    duplicateRate: value("--duplicates") ?? DEFAULT_SYNTHETIC_OPTIONS.duplicateRate,
+    seed: value("--seed") ?? DEFAULT_SYNTHETIC_OPTIONS.seed,
+    startDate: value("--start") ?? DEFAULT_SYNTHETIC_OPTIONS.startDate.toISOString().slice(0, 10),
+    typeMix: value("--types") ? parseWeights(value("--types")!) : DEFAULT_SYNTHETIC_OPTIONS.typeMix,
+    recurrenceMix,
+  });
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues.map((issue) => `--${FLAG_NAMES[String(issue.path[0])]}: ${issue.message}`).join("\n"));
+  }
+
+  return {
+    ...parsed.data,
+    cities: value("--cities")?.split(",").map((city) => city.trim()) ?? DEFAULT_SYNTHETIC_OPTIONS.cities,
+    llm: argv.includes("--llm"),
+    outPath: value("--out"),
+    load: argv.includes("--load"),
+  };
+}
+
+// Embeds and geocodes the events and upserts each by eventKey, so loading the same seed twice doesn't double up
+async function loadEvents(dataset: SyntheticDataset) {
+  const client = new MongoClient(process.env.MONGODB_ATLAS_URI as string);
+  try {
+    await client.connect();
+    const collection = domainCollection(client, eventsProfile);
+
+    const documents = await embedEventDocuments(dataset.events);
+    const operations: AnyBulkWriteOperation[] = documents.map((document) => ({
+      updateOne: { filter: { eventKey: document.eventKey }, update: { $set: document }, upsert: true },
+    }));
+    await collection.bulkWrite(operations);
+
+    await ensureEventsVectorIndex(collection);
+    await ensureEventsTextIndex(collection);
+    await ensureEventsGeoIndex(client, collection);
+    console.log(`Loaded ${dataset.events.length} events into ${eventsProfile.dbName}.${eventsProfile.collectionName}`);
+  } finally {
+    await client.close();
+  }
+}
+
+async function main() {
+  let cli: CliOptions;
+  try {
+    cli = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    process.exitCode = 1;
+    return;
+  }
+  const { llm, outPath, load, ...options } = cli;
+  const dataset = llm ? await generateEventsWithModel(getGenerationModel(0.7), options) : generateSyntheticEvents(options);
+  // Logged to stderr so the CSV can be piped from stdout
+  console.error(`Generated ${dataset.events.length} events, ${dataset.duplicates.length} of them near-duplicates`);
+
+  if (outPath) {
+    fs.writeFileSync(outPath, toEventsCSV(dataset.events));
+    console.error(`Wrote ${outPath}`);
+  }
+  if (load) {
+    await loadEvents(dataset);
+  }
+  if (!outPath && !load) {
+    process.stdout.write(toEventsCSV(dataset.events));
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
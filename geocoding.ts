@@ -0,0 +1,85 @@
+import "dotenv/config";
+import { ResilienceOptions, withResilience } from "./resilience";
+
+// GeoJSON point as stored on event documents; coordinates are [longitude, latitude]
+export interface GeoPoint {
+  type: "Point";
+  coordinates: [number, number];
+}
+
+export interface Geocoder {
+  // Resolves a free-text address to a point, or null when it can't be placed or the lookup failed.
+  // `options` bound hosted lookups, e.g. with a deadline for requests waiting on them
+  geocode(address: string, options?: ResilienceOptions): Promise<GeoPoint | null>;
+}
+
+export const METERS_PER_MILE = 1609.344;
+
+const EARTH_RADIUS_METERS = 6371008.8;
+
+export function toGeoPoint(lat: number, lng: number): GeoPoint {
+  return { type: "Point", coordinates: [lng, lat] };
+}
+
+// Great-circle distance, matching what a 2dsphere $geoNear reports
+export function distanceMeters(a: GeoPoint, b: GeoPoint): number {
+  const [lng1, lat1] = a.coordinates.map((degrees) => (degrees * Math.PI) / 180);
+  const [lng2, lat2] = b.coordinates.map((degrees) => (degrees * Math.PI) / 180);
+  const h = Math.sin((lat2 - lat1) / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin((lng2 - lng1) / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+// Event locations are often just the neighbourhood, so add the city unless it's already there
+export function eventAddress(event: { location?: string; city?: string }): string {
+  const location = (event.location ?? "").trim();
+  const city = (event.city ?? "").trim();
+  if (!location) return city;
+  return city && !location.toLowerCase().includes(city.toLowerCase()) ? `${location}, ${city}` : location;
+}
+
+// OpenStreetMap's public geocoder. Its usage policy asks for an identifying User-Agent and at most one request a second
+export class NominatimGeocoder implements Geocoder {
+  private lastRequestAt = 0;
+  // Resolves when the latest caller has had its turn; each caller waits on the one before
+  private turn: Promise<void> = Promise.resolve();
+
+  constructor(
+    private baseUrl = process.env.NOMINATIM_URL ?? "https://nominatim.openstreetmap.org",
+    private userAgent = process.env.GEOCODER_USER_AGENT ?? "ai-agent-events"
+  ) {}
+
+  async geocode(address: string, options: ResilienceOptions = {}): Promise<GeoPoint | null> {
+    if (!address.trim()) return null;
+
+    try {
+      const url = `${this.baseUrl}/search?format=json&limit=1&q=${encodeURIComponent(address)}`;
+      return await withResilience(
+        "geocoding",
+        async (signal) => {
+          // Retries take a turn too
+          await this.throttle();
+          const response = await fetch(url, { headers: { "User-Agent": this.userAgent }, signal });
+          if (!response.ok) {
+            throw Object.assign(new Error(`Nominatim responded with ${response.status}`), { status: response.status });
+          }
+          const [result] = (await response.json()) as { lat: string; lon: string }[];
+          return result ? toGeoPoint(Number(result.lat), Number(result.lon)) : null;
+        },
+        options
+      );
+    } catch (error) {
+      console.error("Error geocoding address:", address, error);
+      return null;
+    }
+  }
+
+  // Queues callers so concurrent lookups still go out a second apart
+  private throttle(): Promise<void> {
+    this.turn = this.turn.then(async () => {
+      const wait = this.lastRequestAt + 1000 - Date.now();
+      if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+      this.lastRequestAt = Date.now();
+    });
+    return this.turn;
+  }
+}
@@ -0,0 +1,68 @@
+import { z } from "zod";
+
+export const EmployeeSchema = z.object({
+  employee_id: z.string(),
+  first_name: z.string(),
+  last_name: z.string(),
+  date_of_birth: z.string(),
+  address: z.object({
+    street: z.string(),
+    city: z.string(),
+    state: z.string(),
+    postal_code: z.string(),
+    country: z.string(),
+  }),
+  contact_details: z.object({
+    email: z.string().email(),
+    phone_number: z.string(),
+  }),
+  job_details: z.object({
+    job_title: z.string(),
+    department: z.string(),
+    hire_date: z.string(),
+    employment_type: z.string(),
+    salary: z.number(),
+    currency: z.string(),
+  }),
+  work_location: z.object({
+    nearest_office: z.string(),
+    is_remote: z.boolean(),
+  }),
+  reporting_manager: z.string().nullable(),
+  skills: z.array(z.string()),
+  performance_reviews: z.array(
+    z.object({
+      review_date: z.string(),
+      rating: z.number(),
+      comments: z.string(),
+    })
+  ),
+  benefits: z.object({
+    health_insurance: z.string(),
+    retirement_plan: z.string(),
+    paid_time_off: z.number(),
+  }),
+  emergency_contact: z.object({
+    name: z.string(),
+    relationship: z.string(),
+    phone_number: z.string(),
+  }),
+  notes: z.string(),
+});
+
+export type Employee = z.infer<typeof EmployeeSchema>;
+
+// Leaves out the date of birth, salary, reviews and emergency contact, which stay out of lookup results too
+export async function createEmployeeSummary(employee: Employee): Promise<string> {
+  return new Promise((resolve) => {
+    const jobDetails = `${employee.job_details.job_title} in ${employee.job_details.department}`;
+    const skills = employee.skills.join(", ");
+    const basicInfo = `${employee.first_name} ${employee.last_name}`;
+    const workLocation = `Works at ${employee.work_location.nearest_office}, Remote: ${employee.work_location.is_remote}`;
+    const notes = employee.notes;
+
+    const summary = `${basicInfo}. Job: ${jobDetails}. Skills: ${skills}. Location: ${workLocation}. Notes: ${notes}`;
+
+    resolve(summary);
+  });
+}
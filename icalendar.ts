@@ -0,0 +1,447 @@
+import { createHash } from "crypto";
+import { Request, Response, Router } from "express";
+import { Document, MongoClient, ObjectId } from "mongodb";
+import { domainCollection, eventsProfile } from "./domain-profiles";
+import { EventSchedule, LocalParts, localParts, parseEventSchedule, timezoneForCity, zonedTime } from "./event-schedule";
+import { SourceRow, normalizeInstagramHandle, resolveCity } from "./event-ingest";
+import type { Itinerary } from "./itinerary";
+import { Recommendation, toInstagramUrl } from "./recommendations";
+
+const PRODUCT_ID = "-//ai-agent-events//Events//EN";
+const UID_DOMAIN = "ai-agent-events";
+
+// Used when a VEVENT has neither DTEND nor DURATION
+const DEFAULT_DURATION_MINUTES = 180;
+
+const DAY_MINUTES = 24 * 60;
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const ORDINAL_WORDS: Record<string, string> = { "1": "1st", "2": "2nd", "3": "3rd", "4": "4th", "-1": "last" };
+
+// One calendar entry to export, already resolved to a first occurrence
+export interface CalendarEntry {
+  uid: string;
+  summary: string;
+  schedule: Pick<EventSchedule, "timezone" | "recurrence" | "allDay"> & { startsAt: Date; endsAt: Date | null };
+  location: string;
+  description: string;
+  url?: string | null;
+}
+
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// A VEVENT read from a calendar, with the line its BEGIN:VEVENT was on
+export interface ICalEvent {
+  line: number;
+  properties: ICalProperty[];
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+function escapeText(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function unescapeText(value: string) {
+  return value.replace(/\\([\\;,nN])/g, (_, char) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+// Content lines are limited to 75 octets; longer ones continue on lines starting with a space
+function foldLine(line: string): string {
+  const lines: string[] = [];
+  let current = "";
+  let bytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (bytes + size > (lines.length ? 74 : 75)) {
+      lines.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  lines.push(current);
+  return lines.join("\r\n ");
+}
+
+const formatDate = (parts: LocalParts) => `${parts.year}${pad(parts.month + 1)}${pad(parts.day)}`;
+const formatLocal = (parts: LocalParts) => `${formatDate(parts)}T${pad(parts.hour)}${pad(parts.minute)}00`;
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// Timed entries are written in the event's own time zone so recurring events keep their local time across DST
+function dateLines(schedule: CalendarEntry["schedule"]): string[] {
+  const { startsAt, timezone, allDay } = schedule;
+  const endsAt = schedule.endsAt ?? new Date(startsAt.getTime() + DEFAULT_DURATION_MINUTES * 60 * 1000);
+
+  if (allDay) {
+    const start = localParts(startsAt, timezone);
+    const nextDay = new Date(Date.UTC(start.year, start.month, start.day + 1));
+    return [`DTSTART;VALUE=DATE:${formatDate(start)}`, `DTEND;VALUE=DATE:${nextDay.toISOString().slice(0, 10).replace(/-/g, "")}`];
+  }
+  return [
+    `DTSTART;TZID=${timezone}:${formatLocal(localParts(startsAt, timezone))}`,
+    `DTEND;TZID=${timezone}:${formatLocal(localParts(endsAt, timezone))}`,
+  ];
+}
+
+// Writes entries as an RFC 5545 calendar. TZID refers to IANA zone names, which calendar apps resolve themselves
+export function toICalendar(entries: CalendarEntry[], name: string, now = new Date()): string {
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${PRODUCT_ID}`, "CALSCALE:GREGORIAN", "METHOD:PUBLISH", `X-WR-CALNAME:${escapeText(name)}`];
+  for (const entry of entries) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${entry.uid}`,
+      `DTSTAMP:${formatUtc(now)}`,
+      ...dateLines(entry.schedule),
+      ...(entry.schedule.recurrence ? [`RRULE:${entry.schedule.recurrence}`] : []),
+      `SUMMARY:${escapeText(entry.summary)}`,
+      ...(entry.location ? [`LOCATION:${escapeText(entry.location)}`] : []),
+      `DESCRIPTION:${escapeText(entry.description)}`,
+      ...(entry.url ? [`URL:${entry.url}`] : []),
+      "END:VEVENT"
+    );
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+function describe(details: { type?: string; notes?: string; location?: string; instagramUrl?: string | null }) {
+  return [
+    [details.type, details.notes].filter(Boolean).join(". "),
+    details.location && `Location: ${details.location}`,
+    details.instagramUrl && `Instagram: ${details.instagramUrl}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function withStart(schedule: EventSchedule): CalendarEntry["schedule"] | null {
+  if (!schedule.startsAt) return null;
+  return { ...schedule, startsAt: new Date(schedule.startsAt), endsAt: schedule.endsAt && new Date(schedule.endsAt) };
+}
+
+// A stored event, or null when its date couldn't be read
+export function eventCalendarEntry(event: Document): CalendarEntry | null {
+  const schedule = withStart(event.schedule ?? parseEventSchedule(event.date, event.time, event.city));
+  if (!schedule) return null;
+
+  const instagramUrl = event.instagramUrl ?? toInstagramUrl(event.instagram);
+  return {
+    uid: `${event._id}@${UID_DOMAIN}`,
+    summary: event.name,
+    schedule,
+    location: event.location ?? "",
+    description: describe({ type: event.type, notes: event.notes, location: event.location, instagramUrl }),
+    url: instagramUrl,
+  };
+}
+
+export function recommendationCalendarEntry(recommendation: Recommendation): CalendarEntry | null {
+  const schedule = withStart(parseEventSchedule(recommendation.date, recommendation.time, recommendation.city));
+  if (!schedule) return null;
+
+  // Web-only finds have no event id, so they're identified by what they are
+  const id =
+    recommendation.eventId ??
+    createHash("sha1").update([recommendation.name, recommendation.city, recommendation.date].join("|").toLowerCase()).digest("hex");
+  return {
+    uid: `${id}@${UID_DOMAIN}`,
+    summary: recommendation.name,
+    schedule,
+    location: recommendation.location,
+    description: describe({ type: recommendation.type, location: recommendation.location, instagramUrl: recommendation.instagramUrl }),
+    url: recommendation.instagramUrl,
+  };
+}
+
+export function itineraryCalendarEntries(itinerary: Itinerary): CalendarEntry[] {
+  return itinerary.days.flatMap((day) =>
+    day.items.map((item) => {
+      const instagramUrl = toInstagramUrl(item.instagram);
+      return {
+        uid: `${itinerary.itineraryId}-${item.eventId}@${UID_DOMAIN}`,
+        summary: item.name,
+        schedule: {
+          startsAt: new Date(item.startsAt),
+          endsAt: new Date(item.endsAt),
+          timezone: itinerary.timezone,
+          recurrence: null,
+          allDay: item.allDay,
+        },
+        location: item.location,
+        description: describe({ type: item.type, notes: item.warning, location: item.location, instagramUrl }),
+        url: instagramUrl,
+      };
+    })
+  );
+}
+
+export function sendCalendar(res: Response, name: string, calendar: string) {
+  const filename = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "events";
+  res.attachment(`${filename}.ics`).type("text/calendar; charset=utf-8").send(calendar);
+}
+
+// Splits "NAME;PARAM=value;PARAM="quoted:value":VALUE", keeping colons inside quoted parameters
+function parseProperty(line: string): ICalProperty | null {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ":" && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...params] = line.slice(0, colon).split(";");
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(
+      params.map((param) => {
+        const [key, ...value] = param.split("=");
+        return [key.toUpperCase(), value.join("=").replace(/^"|"$/g, "")];
+      })
+    ),
+    value: line.slice(colon + 1),
+  };
+}
+
+// Reads the VEVENTs of a calendar, unfolding continuation lines
+export function parseICalendar(text: string): ICalEvent[] {
+  const lines: { line: number; text: string }[] = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    if (/^[ \t]/.test(raw) && lines.length) {
+      lines[lines.length - 1].text += raw.slice(1);
+    } else if (raw.trim()) {
+      lines.push({ line: index + 1, text: raw });
+    }
+  });
+
+  const events: ICalEvent[] = [];
+  let current: ICalEvent | null = null;
+  // Components nested in a VEVENT, like VALARM, have properties of their own that must not leak into it
+  let nested = 0;
+  for (const { line, text: content } of lines) {
+    const property = parseProperty(content);
+    if (!property) continue;
+
+    if (property.name === "BEGIN" && property.value.toUpperCase() === "VEVENT") {
+      current = { line, properties: [] };
+    } else if (property.name === "END" && property.value.toUpperCase() === "VEVENT") {
+      if (current) events.push(current);
+      current = null;
+      nested = 0;
+    } else if (current && property.name === "BEGIN") {
+      nested++;
+    } else if (current && property.name === "END") {
+      nested--;
+    } else if (current && !nested) {
+      current.properties.push(property);
+    }
+  }
+  return events;
+}
+
+const propertyOf = (event: ICalEvent, name: string) => event.properties.find((property) => property.name === name);
+
+// Resolves a DATE or DATE-TIME property to wall-clock parts in `timezone`. UTC and TZID times are converted;
+// floating times are taken as already local
+function localDateTime(property: ICalProperty, timezone: string): { parts: LocalParts; allDay: boolean } | null {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, , utc] = match;
+  const y = Number(year);
+  const m = Number(month) - 1;
+  const d = Number(day);
+  if (hour === undefined || property.params.VALUE === "DATE") {
+    return { parts: { year: y, month: m, day: d, hour: 0, minute: 0, weekday: new Date(Date.UTC(y, m, d)).getUTCDay() }, allDay: true };
+  }
+
+  const h = Number(hour);
+  const min = Number(minute);
+  let instant: Date | null = null;
+  if (utc) {
+    instant = new Date(Date.UTC(y, m, d, h, min));
+  } else if (property.params.TZID) {
+    try {
+      instant = zonedTime(y, m, d, h, min, property.params.TZID);
+    } catch {
+      // Windows-style zone names aren't IANA ones; treat the time as local to the event
+    }
+  }
+  if (instant) return { parts: localParts(instant, timezone), allDay: false };
+  return { parts: { year: y, month: m, day: d, hour: h, minute: min, weekday: new Date(Date.UTC(y, m, d)).getUTCDay() }, allDay: false };
+}
+
+function durationMinutes(value: string): number | null {
+  const match = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:\d+S)?)?$/);
+  if (!match) return null;
+  const [, weeks, days, hours, minutes] = match.map((part) => Number(part ?? 0));
+  return ((weeks * 7 + days) * 24 + hours) * 60 + minutes;
+}
+
+// Writes an RRULE the way the events sheet describes dates, so parseEventSchedule reads it back the same.
+// Returns null for rules the sheet has no words for, like every other week
+function describeRecurrence(rule: string, start: LocalParts): string | null {
+  const params = Object.fromEntries(rule.split(";").map((part) => part.split("=") as [string, string]));
+  if ((params.INTERVAL && params.INTERVAL !== "1") || params.BYSETPOS) return null;
+  if (params.BYMONTHDAY && params.FREQ !== "YEARLY") return null;
+
+  const days = (params.BYDAY ?? WEEKDAY_CODES[start.weekday]).split(",");
+  switch (params.FREQ) {
+    case "DAILY":
+      return "daily";
+    case "WEEKLY": {
+      const names = days.map((code) => WEEKDAY_NAMES[WEEKDAY_CODES.indexOf(code)]);
+      return names.every(Boolean) ? `every ${names.join(" & ")}` : null;
+    }
+    case "MONTHLY": {
+      const entries = (params.BYDAY ? days : [`${Math.ceil(start.day / 7)}${WEEKDAY_CODES[start.weekday]}`]).map((entry) =>
+        entry.match(/^(-?\d)([A-Z]{2})$/)
+      );
+      const ordinals = new Set(entries.map((entry) => entry?.[1]));
+      const ordinal = ORDINAL_WORDS[Array.from(ordinals)[0] ?? ""];
+      if (entries.some((entry) => !entry) || ordinals.size !== 1 || !ordinal) return null;
+      return `${ordinal} ${entries.map((entry) => WEEKDAY_NAMES[WEEKDAY_CODES.indexOf(entry![2])]).join(" & ")} monthly`;
+    }
+    case "YEARLY": {
+      // One day a year, e.g. BYMONTH=12;BYMONTHDAY=25 or just the start date
+      if (params.BYDAY || /,/.test(`${params.BYMONTH ?? ""}${params.BYMONTHDAY ?? ""}`)) return null;
+      const month = params.BYMONTH ? Number(params.BYMONTH) - 1 : start.month;
+      const day = params.BYMONTHDAY ? Number(params.BYMONTHDAY) : start.day;
+      return MONTH_NAMES[month] && day ? `every year on ${day} ${MONTH_NAMES[month]}` : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// The first part of LOCATION that names a city we know, ignoring postcodes
+function cityFromLocation(location: string): string {
+  for (const part of location.split(",").reverse()) {
+    const city = resolveCity(part.replace(/\b[a-z]*\d[a-z0-9]*\b/gi, ""));
+    if (city && timezoneForCity(city) !== "UTC") return city;
+  }
+  return "";
+}
+
+function instagramFrom(...values: string[]): string {
+  for (const value of values) {
+    const match = value.match(/instagram\.com\/[A-Za-z0-9._]+/i) ?? value.match(/(?:^|\s)(@[A-Za-z0-9._]{1,30})\b/);
+    const handle = match && normalizeInstagramHandle(match[1] ?? match[0]);
+    if (handle) return handle;
+  }
+  return "";
+}
+
+// Maps a VEVENT to an events sheet row, for validation with the CSV rows. Cancelled events are skipped.
+// `city` is used for every event when the feed is for a single city; otherwise it's read from LOCATION
+export function veventToRow(event: ICalEvent, city?: string): SourceRow | null {
+  const text = (name: string) => unescapeText(propertyOf(event, name)?.value ?? "").trim();
+  if (text("STATUS").toUpperCase() === "CANCELLED") return null;
+
+  const location = text("LOCATION");
+  const eventCity = city ? resolveCity(city) : cityFromLocation(location);
+  const timezone = timezoneForCity(eventCity);
+  const description = text("DESCRIPTION");
+  const notes: string[] = [description];
+  const reasons: string[] = [];
+
+  let date = "";
+  let time = "";
+  const dtstart = propertyOf(event, "DTSTART");
+  const start = dtstart && localDateTime(dtstart, timezone);
+  if (start) {
+    const { parts } = start;
+    const rule = propertyOf(event, "RRULE")?.value;
+    const recurring = rule ? describeRecurrence(rule, parts) : null;
+    if (rule && !recurring) notes.push(`Repeats: ${rule}`);
+    date = recurring ?? `${parts.year}-${pad(parts.month + 1)}-${pad(parts.day)}`;
+
+    if (!start.allDay) {
+      const dtend = propertyOf(event, "DTEND");
+      const end = dtend && localDateTime(dtend, timezone);
+      const minutes =
+        end && !end.allDay
+          ? (Date.UTC(end.parts.year, end.parts.month, end.parts.day, end.parts.hour, end.parts.minute) -
+              Date.UTC(parts.year, parts.month, parts.day, parts.hour, parts.minute)) / 60000
+          : durationMinutes(text("DURATION")) ?? DEFAULT_DURATION_MINUTES;
+      const startTime = `${pad(parts.hour)}:${pad(parts.minute)}`;
+      if (minutes < 0) {
+        reasons.push("DTEND: is before DTSTART");
+      } else if (minutes >= DAY_MINUTES) {
+        // The time column only spans one night, so events running over several days keep their end in the notes
+        const ends = new Date(Date.UTC(parts.year, parts.month, parts.day, parts.hour, parts.minute + minutes));
+        time = startTime;
+        notes.push(`Ends ${ends.toISOString().slice(0, 10)} ${ends.toISOString().slice(11, 16)}`);
+      } else {
+        const endMinutes = (parts.hour * 60 + parts.minute + minutes) % DAY_MINUTES;
+        time = minutes ? `${startTime}-${pad(Math.floor(endMinutes / 60))}:${pad(endMinutes % 60)}` : startTime;
+      }
+    }
+  }
+
+  return {
+    line: event.line,
+    ...(reasons.length && { reasons }),
+    data: {
+      name: text("SUMMARY"),
+      type: text("CATEGORIES").split(",")[0]?.trim() || "Event",
+      date,
+      time,
+      location,
+      instagram: instagramFrom(text("URL"), description),
+      city: eventCity,
+      notes: notes.filter(Boolean).join(" "),
+      similarTo: "",
+    },
+  };
+}
+
+// Reads an .ics file's events as rows for validateEventRows
+export function icsToRows(text: string, city?: string): SourceRow[] {
+  return parseICalendar(text)
+    .map((event) => veventToRow(event, city))
+    .filter((row): row is SourceRow => row !== null);
+}
+
+// GET /events/:eventId/calendar downloads one event as an .ics file
+export function createEventCalendarRouter(client: MongoClient): Router {
+  const router = Router();
+  const collection = domainCollection(client, eventsProfile);
+
+  router.get("/:eventId/calendar", async (req: Request, res: Response) => {
+    if (!ObjectId.isValid(req.params.eventId)) {
+      res.status(400).json({ error: "Invalid event id" });
+      return;
+    }
+
+    try {
+      const event = await collection.findOne({ _id: new ObjectId(req.params.eventId), archived: { $ne: true } }, { projection: { embedding: 0 } });
+      if (!event) {
+        res.status(404).json({ error: "Event not found" });
+        return;
+      }
+      const entry = eventCalendarEntry(event);
+      if (!entry) {
+        res.status(422).json({ error: "The event's date couldn't be read" });
+        return;
+      }
+      sendCalendar(res, event.name, toICalendar([entry], event.name));
+    } catch (error) {
+      console.error("Error exporting event calendar: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  return router;
+}
@@ -1,12 +1,6 @@
 import { MongoClient } from "mongodb";
 import 'dotenv/config';
-import express, {Express, Request, Response } from "express";
-import { callAgent } from "./agent-events";
-import cors from 'cors';
-
-const app: Express = express();
-app.use(cors());
-app.use(express.json());
+import { createApp } from "./app";
 
 const client = new MongoClient(process.env.MONGODB_ATLAS_URI as string);
 const PORT = process.env.PORT || 3001;
@@ -16,34 +10,12 @@ async function startServer (){
         await client.connect();
         await client.db("admin").command({ping:1});
         console.log("Pinged your deployment. You successfully connected to MongoDB")
-        
-        app.get('/', (req:Request, res:Response)=> {
-            res.send('LangGraph Agent Server')
-        })
 
-        app.post('/chat', async (req:Request, res:Response)=> {
-            const initialMessage = req.body.message;
-            const threadId = Date.now() .toString();
-            try {
-                const response = await callAgent(client, initialMessage, threadId);
-                res.json({threadId, response});
-            } catch (error) {
-                console.error('Error starting conversation: ',error);
-                res.status(500).json({error: 'Internal server error'});
-            }
-        })
+        if (process.env.AUTH_DISABLED === "true") {
+            console.warn("AUTH_DISABLED is set: the chat API is open to anyone")
+        }
 
-        app.post('/chat/:threadId', async (req:Request, res:Response) => {
-            const {threadId} = req.params;
-            const {message} = req.body;
-            try {
-                const response = await callAgent(client, message, threadId);
-                res.json({response});
-            } catch (error) {
-                console.error('Error in chat: ',error);
-                res.status(500).json({error: 'Internal server error'});
-            }
-        })
+        const app = createApp(client);
         console.log(PORT)
 
 
@@ -0,0 +1,370 @@
+import { randomUUID } from "crypto";
+import { Request, Response, Router } from "express";
+import { tool } from "@langchain/core/tools";
+import { Document, MongoClient, ObjectId } from "mongodb";
+import { z } from "zod";
+import { EventSchedule, Occurrence, expandOccurrences, formatOccurrence, parseEventSchedule, timezoneForCity } from "./event-schedule";
+import { authOf } from "./auth";
+import { domainCollection, eventsProfile } from "./domain-profiles";
+import { isoDate, resolveDateWindow } from "./events-lookup";
+import { itineraryCalendarEntries, sendCalendar, toICalendar } from "./icalendar";
+import { canAccessThread } from "./threads";
+
+// Longest window an itinerary can cover
+const MAX_ITINERARY_DAYS = 31;
+
+// Buffer left between events, based on how far apart their locations look
+export const TRAVEL_MINUTES = {
+  sameVenue: 0,
+  sameArea: 20,
+  acrossCity: 45,
+};
+
+// Tool schemas have to be plain objects, so the cross-field checks live in ItineraryRequestSchema
+const ItineraryArgsSchema = z.object({
+  city: z.string().min(1).describe("City the itinerary is for, e.g. London"),
+  dateFrom: isoDate.describe("First day of the trip as YYYY-MM-DD, in the city's local time"),
+  dateTo: isoDate.describe("Last day of the trip as YYYY-MM-DD, in the city's local time"),
+  eventIds: z.array(z.string()).min(1).max(20).describe("The _id values of events from events_lookup results"),
+});
+
+export const ItineraryRequestSchema = ItineraryArgsSchema
+  .refine((request) => request.dateFrom <= request.dateTo, { message: "dateFrom must not be after dateTo", path: ["dateTo"] })
+  .refine(
+    (request) => (Date.parse(request.dateTo) - Date.parse(request.dateFrom)) / 86400000 < MAX_ITINERARY_DAYS,
+    { message: `An itinerary can cover at most ${MAX_ITINERARY_DAYS} days`, path: ["dateTo"] }
+  );
+
+export type ItineraryRequest = z.infer<typeof ItineraryRequestSchema>;
+
+export interface ItineraryItem {
+  eventId: string;
+  name: string;
+  type: string;
+  location: string;
+  instagram: string;
+  startsAt: Date;
+  endsAt: Date;
+  allDay: boolean;
+  // Local date and time range, e.g. "Sat, 7 Mar 2026, 13:00-19:00 (Europe/London)"
+  when: string;
+  // Travel buffer needed after the previous timed item of the day
+  travelMinutesBefore: number | null;
+  // Items this one overlaps, counting the travel buffer between them
+  conflictsWith: string[];
+  warning?: string;
+}
+
+export interface ItineraryDay {
+  date: string;
+  items: ItineraryItem[];
+}
+
+export interface Itinerary {
+  itineraryId: string;
+  // The chat that built it; with auth on only the thread's owner can read it
+  threadId?: string;
+  // The user who created it over the API
+  ownerId?: string;
+  city: string;
+  timezone: string;
+  dateFrom: string;
+  dateTo: string;
+  days: ItineraryDay[];
+  // Requested events that couldn't be placed, with the reason
+  unscheduled: { eventId: string; name?: string; reason: string }[];
+  conflicts: number;
+  createdAt: Date;
+}
+
+function itinerariesCollection(client: MongoClient) {
+  return client.db(eventsProfile.dbName).collection<Itinerary>("itineraries");
+}
+
+function normalizePlace(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// Without coordinates we go by the location text, which is usually "Venue, Area, City" or "Area, City"
+export function estimateTravelMinutes(from: string, to: string): number {
+  const parts = (location: string) => location.split(",").map(normalizePlace).filter(Boolean);
+  // Everything but the trailing city
+  const places = (location: string) => (parts(location).length > 1 ? parts(location).slice(0, -1) : parts(location));
+
+  if (!parts(from).length || !parts(to).length) return TRAVEL_MINUTES.acrossCity;
+  if (parts(from).length > 2 && parts(from).join(",") === parts(to).join(",")) return TRAVEL_MINUTES.sameVenue;
+  return places(from).some((place) => places(to).includes(place)) ? TRAVEL_MINUTES.sameArea : TRAVEL_MINUTES.acrossCity;
+}
+
+interface Slot {
+  startsAt: Date;
+  endsAt: Date;
+  allDay: boolean;
+  location: string;
+}
+
+// All-day listings (e.g. restaurants) fit around anything else
+function clashes(a: Slot, b: Slot) {
+  if (a.allDay || b.allDay) return false;
+  const bufferMs = estimateTravelMinutes(a.location, b.location) * 60 * 1000;
+  return a.startsAt.getTime() < b.endsAt.getTime() + bufferMs && b.startsAt.getTime() < a.endsAt.getTime() + bufferMs;
+}
+
+function localDate(date: Date, timezone: string) {
+  return new Intl.DateTimeFormat("en-CA", { timeZone: timezone, year: "numeric", month: "2-digit", day: "2-digit" }).format(date);
+}
+
+function scheduleOf(event: Document): EventSchedule {
+  return event.schedule ?? parseEventSchedule(event.date, event.time, event.city);
+}
+
+// Places each event once between dateFrom and dateTo. Events with the fewest dates are placed first,
+// each on its earliest date that doesn't clash; when every date clashes the earliest is kept and flagged
+export function buildItinerary(
+  request: ItineraryRequest,
+  events: Document[],
+  now = new Date()
+): Omit<Itinerary, "itineraryId" | "createdAt" | "threadId"> {
+  const timezone = timezoneForCity(request.city);
+  const window = resolveDateWindow({ dateFrom: request.dateFrom, dateTo: request.dateTo }, timezone, now)!;
+  const found = new Map(events.map((event) => [String(event._id), event]));
+  const unscheduled: Itinerary["unscheduled"] = [];
+
+  const candidates: { event: Document; schedule: EventSchedule; occurrences: Occurrence[] }[] = [];
+  for (const eventId of Array.from(new Set(request.eventIds))) {
+    const event = found.get(eventId);
+    if (!event) {
+      unscheduled.push({ eventId, reason: "Event not found" });
+      continue;
+    }
+    if (event.archived) {
+      unscheduled.push({ eventId, name: event.name, reason: "Event is no longer listed" });
+      continue;
+    }
+    if (normalizePlace(event.city ?? "") !== normalizePlace(request.city)) {
+      unscheduled.push({ eventId, name: event.name, reason: `Event is in ${event.city}, not ${request.city}` });
+      continue;
+    }
+
+    const schedule = scheduleOf(event);
+    const occurrences = expandOccurrences(schedule, window.from, window.to, 50);
+    if (!occurrences.length) {
+      const reason = schedule.startsAt
+        ? `No dates between ${request.dateFrom} and ${request.dateTo}`
+        : "Its date and time couldn't be read";
+      unscheduled.push({ eventId, name: event.name, reason });
+      continue;
+    }
+    candidates.push({ event, schedule, occurrences });
+  }
+
+  candidates.sort((a, b) => a.occurrences.length - b.occurrences.length || a.occurrences[0].startsAt.getTime() - b.occurrences[0].startsAt.getTime());
+
+  const items: ItineraryItem[] = [];
+  for (const { event, schedule, occurrences } of candidates) {
+    const slotFor = (occurrence: Occurrence): Slot => ({ ...occurrence, allDay: schedule.allDay, location: event.location ?? "" });
+    const chosen = occurrences.find((occurrence) => !items.some((item) => clashes(item, slotFor(occurrence)))) ?? occurrences[0];
+
+    items.push({
+      eventId: String(event._id),
+      name: event.name,
+      type: event.type ?? "",
+      location: event.location ?? "",
+      instagram: event.instagram ?? "",
+      startsAt: chosen.startsAt,
+      endsAt: chosen.endsAt,
+      allDay: schedule.allDay,
+      when: formatOccurrence(chosen, schedule.timezone, schedule.allDay),
+      travelMinutesBefore: null,
+      conflictsWith: [],
+      ...(event.verification?.status === "possibly_closed" && {
+        warning: "A recent web check suggests this event may have closed",
+      }),
+    });
+  }
+
+  for (const item of items) {
+    item.conflictsWith = items.filter((other) => other !== item && clashes(item, other)).map((other) => other.eventId);
+  }
+
+  const days = new Map<string, ItineraryItem[]>();
+  for (const item of items.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime())) {
+    const date = localDate(item.startsAt, timezone);
+    days.set(date, [...(days.get(date) ?? []), item]);
+  }
+  for (const dayItems of days.values()) {
+    const timed = dayItems.filter((item) => !item.allDay);
+    timed.forEach((item, index) => {
+      item.travelMinutesBefore = index ? estimateTravelMinutes(timed[index - 1].location, item.location) : null;
+    });
+  }
+
+  return {
+    city: request.city,
+    timezone,
+    dateFrom: request.dateFrom,
+    dateTo: request.dateTo,
+    days: Array.from(days, ([date, dayItems]) => ({ date, items: dayItems })),
+    unscheduled,
+    // Each clash is listed on both of its items
+    conflicts: items.reduce((total, item) => total + item.conflictsWith.length, 0) / 2,
+  };
+}
+
+// Builds an itinerary from event ids and saves it so it can be exported later
+export async function createItinerary(
+  client: MongoClient,
+  request: ItineraryRequest,
+  { threadId, ownerId }: Pick<Itinerary, "threadId" | "ownerId"> = {}
+): Promise<Itinerary> {
+  const ids = request.eventIds.filter((id) => ObjectId.isValid(id)).map((id) => new ObjectId(id));
+  const events = await domainCollection(client, eventsProfile)
+    .find({ _id: { $in: ids } }, { projection: { embedding: 0 } })
+    .toArray();
+
+  const itinerary: Itinerary = {
+    itineraryId: randomUUID(),
+    ...(threadId && { threadId }),
+    ...(ownerId && { ownerId }),
+    ...buildItinerary(request, events),
+    createdAt: new Date(),
+  };
+  await itinerariesCollection(client).insertOne({ ...itinerary });
+  return itinerary;
+}
+
+// Whether `userId` may read the itinerary. Like threads, ones made without an owner are refused to everyone
+export async function canAccessItinerary(client: MongoClient, itinerary: Itinerary, userId: string): Promise<boolean> {
+  if (itinerary.threadId) return canAccessThread(client, itinerary.threadId, userId);
+  return itinerary.ownerId === userId;
+}
+
+export function itineraryToMarkdown(itinerary: Itinerary): string {
+  const names = new Map(itinerary.days.flatMap((day) => day.items.map((item) => [item.eventId, item.name] as const)));
+  const lines = [`# ${itinerary.city} itinerary, ${itinerary.dateFrom} to ${itinerary.dateTo}`];
+
+  for (const day of itinerary.days) {
+    lines.push("", `## ${day.date}`);
+    for (const item of day.items) {
+      if (item.travelMinutesBefore) {
+        lines.push(`- Allow ${item.travelMinutesBefore} minutes to travel`);
+      }
+      lines.push(`- ${item.when}: ${item.name} (${item.type}), ${item.location}${item.instagram ? `, ${item.instagram}` : ""}`);
+      if (item.conflictsWith.length) {
+        lines.push(`  - Clashes with ${item.conflictsWith.map((id) => names.get(id) ?? id).join(", ")}`);
+      }
+      if (item.warning) {
+        lines.push(`  - ${item.warning}`);
+      }
+    }
+  }
+
+  if (itinerary.unscheduled.length) {
+    lines.push("", "## Not scheduled");
+    for (const entry of itinerary.unscheduled) {
+      lines.push(`- ${entry.name ?? entry.eventId}: ${entry.reason}`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+// The create_itinerary tool for the chat agent
+export function createItineraryTool(client: MongoClient) {
+  return tool(
+    async (args, config) => {
+      const parsed = ItineraryRequestSchema.safeParse(args);
+      if (!parsed.success) {
+        return JSON.stringify({ error: parsed.error.issues.map((issue) => issue.message).join("; ") });
+      }
+
+      try {
+        const itinerary = await createItinerary(client, parsed.data, { threadId: config?.configurable?.thread_id });
+        return JSON.stringify({ ...itinerary, exportUrl: `/itineraries/${itinerary.itineraryId}/export` });
+      } catch (error: any) {
+        console.error("Error in itinerary tool:", error);
+        return JSON.stringify({ error: error.message });
+      }
+    },
+    {
+      name: "create_itinerary",
+      description:
+        "Builds a day-by-day itinerary from events found with events_lookup. It places each event on a date it actually runs, leaves time to travel between locations and flags any events that clash. Returns the itinerary with an exportUrl the user can download it from.",
+      schema: ItineraryArgsSchema,
+    }
+  );
+}
+
+export function createItinerariesRouter(client: MongoClient): Router {
+  const router = Router();
+  const collection = itinerariesCollection(client);
+
+  // The itinerary, or null once a 404 or, with auth on, a 403 for someone else's has been sent
+  const findItinerary = async (req: Request, res: Response): Promise<Itinerary | null> => {
+    const itinerary = await collection.findOne({ itineraryId: req.params.itineraryId }, { projection: { _id: 0 } });
+    if (!itinerary) {
+      res.status(404).json({ error: "Itinerary not found" });
+      return null;
+    }
+    const auth = authOf(res);
+    if (auth && !(await canAccessItinerary(client, itinerary, auth.userId))) {
+      res.status(403).json({ error: "Forbidden" });
+      return null;
+    }
+    return itinerary;
+  };
+
+  router.post("/", async (req: Request, res: Response) => {
+    const parsed = ItineraryRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid itinerary request", issues: parsed.error.issues });
+      return;
+    }
+
+    try {
+      const itinerary = await createItinerary(client, parsed.data, { ownerId: authOf(res)?.userId });
+      res.status(201).json({ itinerary });
+    } catch (error) {
+      console.error("Error creating itinerary: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  router.get("/:itineraryId", async (req: Request, res: Response) => {
+    try {
+      const itinerary = await findItinerary(req, res);
+      if (!itinerary) return;
+      res.json({ itinerary });
+    } catch (error) {
+      console.error("Error fetching itinerary: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Downloads the itinerary as ?format=markdown (the default), json or ics
+  router.get("/:itineraryId/export", async (req: Request, res: Response) => {
+    const format = req.query.format ?? "markdown";
+    if (format !== "markdown" && format !== "json" && format !== "ics") {
+      res.status(400).json({ error: "format must be markdown, json or ics" });
+      return;
+    }
+
+    try {
+      const itinerary = await findItinerary(req, res);
+      if (!itinerary) return;
+
+      const filename = `itinerary-${itinerary.city.toLowerCase().replace(/[^a-z0-9]+/g, "-")}-${itinerary.dateFrom}`;
+      if (format === "json") {
+        res.attachment(`${filename}.json`).json(itinerary);
+      } else if (format === "ics") {
+        sendCalendar(res, filename, toICalendar(itineraryCalendarEntries(itinerary), `${itinerary.city} itinerary`));
+      } else {
+        res.attachment(`${filename}.md`).type("text/markdown").send(itineraryToMarkdown(itinerary));
+      }
+    } catch (error) {
+      console.error("Error exporting itinerary: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  return router;
+}
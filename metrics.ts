@@ -0,0 +1,110 @@
+import { NextFunction, Request, Response } from "express";
+
+type Labels = Record<string, string>;
+
+// Prometheus label values are quoted, so escape what would end the string
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (!entries.length) return "";
+  return `{${entries.map(([name, value]) => `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`).join(",")}}`;
+}
+
+const seriesKey = (labels: Labels) => JSON.stringify(Object.entries(labels).sort());
+
+class Counter {
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, value = 1) {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key) ?? { labels, value: 0 };
+    entry.value += value;
+    this.series.set(key, entry);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...Array.from(this.series.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+    ];
+  }
+
+  reset() {
+    this.series.clear();
+  }
+}
+
+class Histogram {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private buckets: number[]) {}
+
+  observe(labels: Labels, value: number) {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bucket, index) => {
+      if (value <= bucket) entry.counts[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bucket, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bucket) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+
+  reset() {
+    this.series.clear();
+  }
+}
+
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+// Process-wide metrics, exposed in the Prometheus text format at /metrics
+export const metrics = {
+  httpRequests: new Counter("http_requests_total", "HTTP requests by method, route and status"),
+  httpDuration: new Histogram("http_request_duration_seconds", "HTTP request latency by method and route", DURATION_BUCKETS),
+  agentRuns: new Counter("agent_runs_total", "Chat agent runs by agent and outcome: ok, degraded, error or aborted"),
+  agentFallbacks: new Counter("agent_fallbacks_total", "Answers served from a fallback path, by reason"),
+  toolCalls: new Counter("agent_tool_calls_total", "Agent tool calls by tool and outcome"),
+  toolDuration: new Histogram("agent_tool_call_duration_seconds", "Agent tool call latency by tool", DURATION_BUCKETS),
+  providerCalls: new Counter("provider_calls_total", "Outbound provider call attempts by provider and outcome: ok, retry, timeout, unavailable, error or circuit_open"),
+  webSearches: new Counter("web_searches_total", "Web searches by outcome: ok, cached, timeout or error"),
+  llmTokens: new Counter("llm_tokens_total", "Model tokens by provider, model and direction"),
+  llmCost: new Counter("llm_cost_usd_total", "Estimated model spend in US dollars by provider and model"),
+};
+
+export function renderMetrics(): string {
+  return Object.values(metrics).flatMap((metric) => metric.render()).join("\n") + "\n";
+}
+
+export function resetMetrics() {
+  Object.values(metrics).forEach((metric) => metric.reset());
+}
+
+// Counts and times every request by its route pattern, so ids in paths don't create new series
+export function recordHttpMetrics(req: Request, res: Response, next: NextFunction) {
+  const startedAt = process.hrtime.bigint();
+  res.on("finish", () => {
+    // Requests answered by middleware, e.g. a 401, are counted under the path it was mounted at
+    // A router's root route is labelled with its mount path alone, e.g. "/chat" rather than "/chat/"
+    const path = req.route && !(req.baseUrl && req.route.path === "/") ? req.route.path : "";
+    const route = req.route ? `${req.baseUrl}${path}` : req.baseUrl || "unmatched";
+    const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+    metrics.httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+    metrics.httpDuration.observe({ method: req.method, route }, seconds);
+  });
+  next();
+}
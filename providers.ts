@@ -0,0 +1,207 @@
+import { ChatAnthropic } from "@langchain/anthropic";
+import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
+import { TavilySearchResults } from "@langchain/community/tools/tavily_search";
+import { CallbackManagerForToolRun } from "@langchain/core/callbacks/manager";
+import { Embeddings } from "@langchain/core/embeddings";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { StructuredToolInterface, ToolRunnableConfig } from "@langchain/core/tools";
+import { z } from "zod";
+import { messageText } from "./agent-stream";
+import {
+  CannedSearchTool,
+  HashEmbeddings,
+  LookupTableGeocoder,
+  ScriptContext,
+  ScriptRule,
+  ScriptedChatModel,
+} from "./fake-providers";
+import { Geocoder, NominatimGeocoder } from "./geocoding";
+import { withResilience } from "./resilience";
+import "dotenv/config";
+
+const ProviderConfigSchema = z.object({
+  // Model behind the agents
+  chat: z.enum(["anthropic", "openai", "fake"]).default("anthropic"),
+  chatModel: z.string().default("claude-3-5-sonnet-20240620"),
+  // Model the seeders use to generate synthetic records
+  generation: z.enum(["anthropic", "openai", "fake"]).default("openai"),
+  generationModel: z.string().default("gpt-4o-mini"),
+  embeddings: z.enum(["openai", "fake"]).default("openai"),
+  webSearch: z.enum(["tavily", "fake"]).default("tavily"),
+  // "lookup" places addresses from a built-in table of cities and neighbourhoods, offline
+  geocoder: z.enum(["nominatim", "lookup"]).default("nominatim"),
+});
+
+export type ProviderConfig = z.infer<typeof ProviderConfigSchema>;
+
+// Instances that take precedence over the configured providers, e.g. a scripted model in tests
+export interface ProviderOverrides {
+  chatModel?: BaseChatModel;
+  generationModel?: BaseChatModel;
+  embeddings?: Embeddings;
+  webSearch?: StructuredToolInterface;
+  geocoder?: Geocoder;
+}
+
+let overrides: ProviderOverrides = {};
+
+// PROVIDERS=fake switches everything to the offline implementations; the per-provider variables win over it
+export function loadProviderConfig(env: NodeJS.ProcessEnv = process.env): ProviderConfig {
+  const fake = env.PROVIDERS === "fake" ? "fake" : undefined;
+  return ProviderConfigSchema.parse({
+    chat: env.CHAT_PROVIDER ?? fake,
+    chatModel: env.CHAT_MODEL,
+    generation: env.GENERATION_PROVIDER ?? fake,
+    generationModel: env.GENERATION_MODEL,
+    embeddings: env.EMBEDDINGS_PROVIDER ?? fake,
+    webSearch: env.WEB_SEARCH_PROVIDER ?? fake,
+    geocoder: env.GEOCODER_PROVIDER ?? (fake && "lookup"),
+  });
+}
+
+export function overrideProviders(next: ProviderOverrides) {
+  overrides = { ...overrides, ...next };
+}
+
+export function resetProviderOverrides() {
+  overrides = {};
+}
+
+// Retries are left to the resilience policies, so the clients' own are turned off
+function createChatModel(provider: ProviderConfig["chat"], model: string, temperature: number): BaseChatModel {
+  switch (provider) {
+    case "anthropic":
+      return new ChatAnthropic({ model, temperature, maxRetries: 0 });
+    case "openai":
+      return new ChatOpenAI({ modelName: model, temperature, maxRetries: 0 });
+    case "fake":
+      return new ScriptedChatModel({ rules: OFFLINE_RULES });
+  }
+}
+
+export function getChatModel(temperature = 0): BaseChatModel {
+  if (overrides.chatModel) return overrides.chatModel;
+  const config = loadProviderConfig();
+  return createChatModel(config.chat, config.chatModel, temperature);
+}
+
+export function getToolCallingModel(tools: StructuredToolInterface[]) {
+  const model = getChatModel();
+  if (!model.bindTools) {
+    throw new Error(`Chat model ${model._llmType()} does not support tool calling`);
+  }
+  return model.bindTools(tools);
+}
+
+export function getGenerationModel(temperature = 0.7): BaseChatModel {
+  if (overrides.generationModel) return overrides.generationModel;
+  const config = loadProviderConfig();
+  return createChatModel(config.generation, config.generationModel, temperature);
+}
+
+// Runs every embedding call under the embeddings policy, giving up when the run's signal aborts. The vector
+// store calls these itself, and the client takes no per-call signal, so an abandoned request is left to finish
+class ResilientEmbeddings extends Embeddings {
+  constructor(private inner: Embeddings, private signal?: AbortSignal) {
+    super({});
+  }
+
+  embedQuery(text: string): Promise<number[]> {
+    return withResilience("embeddings", () => this.inner.embedQuery(text), { signal: this.signal });
+  }
+
+  embedDocuments(texts: string[]): Promise<number[][]> {
+    return withResilience("embeddings", () => this.inner.embedDocuments(texts), { signal: this.signal });
+  }
+}
+
+// `signal` is the run's, for embeddings made on behalf of a request
+export function getEmbeddings(signal?: AbortSignal): Embeddings {
+  if (overrides.embeddings) return new ResilientEmbeddings(overrides.embeddings, signal);
+  return new ResilientEmbeddings(loadProviderConfig().embeddings === "fake" ? new HashEmbeddings() : new OpenAIEmbeddings({ maxRetries: 0 }), signal);
+}
+
+// TavilySearchResults doesn't pass the run's signal to fetch, so a timed-out or abandoned search kept running
+class CancellableTavilySearch extends TavilySearchResults {
+  async _call(input: string, runManager?: CallbackManagerForToolRun, parentConfig?: ToolRunnableConfig): Promise<string> {
+    const response = await fetch("https://api.tavily.com/search", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ query: input, max_results: this.maxResults, api_key: this.apiKey, ...this.kwargs }),
+      signal: parentConfig?.signal,
+    });
+    const json = await response.json();
+    if (!response.ok) {
+      // Kept on the error so the resilience policy can tell rate limits and outages from bad requests
+      throw Object.assign(new Error(`Request failed with status code ${response.status}: ${json.error}`), { status: response.status });
+    }
+    if (!Array.isArray(json.results)) {
+      throw new Error("Could not parse Tavily results. Please try again.");
+    }
+    return JSON.stringify(json.results);
+  }
+}
+
+export function getWebSearchTool(maxResults = 3): StructuredToolInterface {
+  if (overrides.webSearch) return overrides.webSearch;
+  return loadProviderConfig().webSearch === "fake" ? new CannedSearchTool() : new CancellableTavilySearch({ maxResults });
+}
+
+// Shared so Nominatim's one-request-a-second limit holds across callers
+let nominatim: NominatimGeocoder | undefined;
+
+export function getGeocoder(): Geocoder {
+  if (overrides.geocoder) return overrides.geocoder;
+  if (loadProviderConfig().geocoder === "lookup") return new LookupTableGeocoder();
+  return (nominatim ??= new NominatimGeocoder());
+}
+
+// Pulls event names out of an events_lookup result for the offline replies
+function eventNames(toolOutput: string): string[] {
+  try {
+    const results = JSON.parse(toolOutput);
+    return Array.isArray(results) ? results.map(([doc]: any) => doc?.metadata?.name).filter(Boolean) : [];
+  } catch {
+    return [];
+  }
+}
+
+const lastMessage = (context: ScriptContext) => context.messages[context.messages.length - 1];
+
+const lastMessageType = (context: ScriptContext) => lastMessage(context)?._getType();
+
+// Enough behaviour for the agents to complete a run end to end without a model API
+export const OFFLINE_RULES: ScriptRule[] = [
+  {
+    match: ({ prompt }) => prompt.includes("You extract structured event recommendations"),
+    reply: () => '```json\n{"recommendations": []}\n```',
+  },
+  {
+    // Canned search results prove nothing, so no verdicts are stored offline
+    match: ({ prompt }) => prompt.includes("You check event listings against web search results"),
+    reply: () => '```json\n{"verdicts": []}\n```',
+  },
+  {
+    match: (context) => context.toolNames.includes("events_lookup") && lastMessageType(context) === "human",
+    reply: (context) => ({
+      toolCalls: [{ name: "events_lookup", args: { query: messageText(lastMessage(context).content) } }],
+    }),
+  },
+  {
+    match: (context) => lastMessageType(context) === "tool",
+    reply: (context) => {
+      const names = eventNames(messageText(lastMessage(context).content));
+      return names.length
+        ? `RECOMMENDATIONS\n${names.map((name) => `- ${name}`).join("\n")}`
+        : "I couldn't find any matching events. Which city would you like recommendations for?";
+    },
+  },
+  {
+    match: ({ prompt }) => prompt.startsWith("You are an event recommendation assistant"),
+    reply: () => "RECOMMENDATIONS: Offline mode can't verify events on the web, so these come straight from the database.",
+  },
+  {
+    match: () => true,
+    reply: () => "Offline mode: no model is configured to answer this.",
+  },
+];
@@ -0,0 +1,75 @@
+import "dotenv/config";
+
+export interface RateLimits {
+  // 0 means unlimited
+  requestsPerMinute: number;
+  tokensPerHour: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  // Seconds until the current window resets, for the Retry-After header
+  retryAfterSeconds: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+function limitFromEnv(value: string | undefined, fallback: number) {
+  const limit = Number(value);
+  return value !== undefined && Number.isFinite(limit) && limit >= 0 ? limit : fallback;
+}
+
+// Applies to every key that doesn't carry its own limits
+export function defaultRateLimits(env: NodeJS.ProcessEnv = process.env): RateLimits {
+  return {
+    requestsPerMinute: limitFromEnv(env.RATE_LIMIT_REQUESTS_PER_MINUTE, 30),
+    tokensPerHour: limitFromEnv(env.RATE_LIMIT_TOKENS_PER_HOUR, 200000),
+  };
+}
+
+interface Window {
+  startedAt: number;
+  used: number;
+}
+
+// Fixed-window counters per key, kept in memory, so limits are per server process
+export class RateLimiter {
+  private requests = new Map<string, Window>();
+  private tokens = new Map<string, Window>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  private current(windows: Map<string, Window>, key: string, length: number): Window {
+    const now = this.now();
+    let window = windows.get(key);
+    if (!window || now - window.startedAt >= length) {
+      window = { startedAt: now, used: 0 };
+      windows.set(key, window);
+    }
+    return window;
+  }
+
+  private decide(window: Window, length: number, allowed: boolean): RateLimitDecision {
+    return { allowed, retryAfterSeconds: Math.max(1, Math.ceil((window.startedAt + length - this.now()) / 1000)) };
+  }
+
+  // Counts a request against the key's per-minute limit
+  takeRequest(key: string, limit: number): RateLimitDecision {
+    const window = this.current(this.requests, key, MINUTE);
+    if (limit > 0 && window.used >= limit) return this.decide(window, MINUTE, false);
+    window.used++;
+    return this.decide(window, MINUTE, true);
+  }
+
+  // Whether the key has any of this hour's model tokens left. Usage is only known after a run,
+  // so the run that crosses the limit completes and the next one is refused
+  checkTokens(key: string, limit: number): RateLimitDecision {
+    const window = this.current(this.tokens, key, HOUR);
+    return this.decide(window, HOUR, limit === 0 || window.used < limit);
+  }
+
+  recordTokens(key: string, tokens: number) {
+    this.current(this.tokens, key, HOUR).used += tokens;
+  }
+}
@@ -0,0 +1,133 @@
+import { StructuredOutputParser } from "@langchain/core/output_parsers";
+import { z } from "zod";
+import { AgentRunOptions, messageText, runCallbacks } from "./agent-stream";
+import { groupDuplicates } from "./event-dedup";
+import { getChatModel } from "./providers";
+import { withResilience } from "./resilience";
+import "dotenv/config";
+
+export const RecommendationSchema = z.object({
+  eventId: z.string().nullable().describe("The _id of the event from the database results, or null for web-only finds"),
+  name: z.string(),
+  type: z.string(),
+  date: z.string(),
+  time: z.string(),
+  location: z.string(),
+  city: z.string(),
+  instagramUrl: z.string().url().nullable(),
+  source: z.enum(["database", "web"]),
+  verificationStatus: z.enum(["verified", "unverified", "not_checked"]),
+});
+
+export const RecommendationListSchema = z.object({
+  recommendations: z.array(RecommendationSchema),
+});
+
+// `provenance` lists the listings a recommendation was merged from, when the answer named the same event twice
+export type Recommendation = z.infer<typeof RecommendationSchema> & {
+  provenance?: { name: string; source: Recommendation["source"]; eventId: string | null }[];
+};
+
+export interface RecommendationSources {
+  databaseResults: string;
+  // Omitted when the answer wasn't checked against the web
+  webResults?: string;
+}
+
+// The model may return a bare handle, which is normalized to a URL before validation
+const parser = StructuredOutputParser.fromZodSchema(
+  z.object({
+    recommendations: z.array(RecommendationSchema.extend({ instagramUrl: z.string().nullable() })),
+  })
+);
+
+// Turns an "@handle", bare handle or profile URL into a canonical Instagram URL
+export function toInstagramUrl(handle: string | null | undefined): string | null {
+  if (!handle) return null;
+
+  const trimmed = handle.trim();
+  const match = trimmed.match(/instagram\.com\/([A-Za-z0-9._]+)/i) ?? trimmed.match(/^@?([A-Za-z0-9._]+)$/);
+  return match ? `https://www.instagram.com/${match[1]}/` : null;
+}
+
+// Collects the _id values that appear in events_lookup output so we can reject invented ids
+function collectEventIds(databaseResults: string): Set<string> {
+  return new Set(Array.from(databaseResults.matchAll(/"_id":"([a-f0-9]{24})"/g), (match) => match[1]));
+}
+
+const VERIFICATION_RANK: Recommendation["verificationStatus"][] = ["not_checked", "unverified", "verified"];
+
+// Merges recommendations for the same event, such as a database event and its web listing. The database
+// entry wins, with the strongest verification and any fields it lacks taken from the others
+export function dedupeRecommendations(recommendations: Recommendation[]): Recommendation[] {
+  const groups = groupDuplicates(recommendations, (item) => ({ ...item, instagram: item.instagramUrl }));
+  return groups.map((group) => {
+    if (group.length === 1) return group[0];
+
+    const merged = { ...(group.find((item) => item.eventId) ?? group.find((item) => item.source === "database") ?? group[0]) };
+    for (const other of group) {
+      for (const key of ["type", "date", "time", "location", "city"] as const) {
+        if (!merged[key].trim()) merged[key] = other[key];
+      }
+      merged.instagramUrl ??= other.instagramUrl;
+      if (VERIFICATION_RANK.indexOf(other.verificationStatus) > VERIFICATION_RANK.indexOf(merged.verificationStatus)) {
+        merged.verificationStatus = other.verificationStatus;
+      }
+    }
+    merged.provenance = group.map(({ name, source, eventId }) => ({ name, source, eventId }));
+    return merged;
+  });
+}
+
+// Extracts the recommended items from a free-text answer as a validated, typed list
+export async function extractRecommendations(
+  answer: string,
+  sources: RecommendationSources,
+  options: AgentRunOptions = {}
+): Promise<Recommendation[]> {
+  const model = getChatModel();
+
+  const prompt = `You extract structured event recommendations from an assistant's answer.
+  List every event, venue, club or restaurant the answer recommends, in the order it appears. Do not add items that aren't in the answer.
+  Take field values from the database results where the item appears there, using its _id as eventId and "database" as source. Items only found on the web have a null eventId and "web" as source.
+  Set verificationStatus to "verified" when the web search results confirm the item, "unverified" when they were searched but not confirmed, and "not_checked" when there are no web search results.
+  Use an empty string for unknown text fields and null for an unknown instagramUrl.
+
+  Answer:
+  ${answer}
+
+  Database results:
+  ${sources.databaseResults || "None"}
+
+  Web search results:
+  ${sources.webResults ?? "None"}
+
+  ${parser.getFormatInstructions()}`;
+
+  try {
+    // Traced and counted, but its tokens aren't streamed to the user
+    const response = await withResilience(
+      "chat",
+      (signal) => model.invoke(prompt, { signal, callbacks: runCallbacks(options, false) }),
+      { signal: options.signal }
+    );
+    const parsed = await parser.parse(messageText(response.content));
+    const knownIds = collectEventIds(sources.databaseResults);
+
+    const { recommendations } = RecommendationListSchema.parse({
+      recommendations: parsed.recommendations.map((item) => ({
+        ...item,
+        eventId: item.eventId && knownIds.has(item.eventId) ? item.eventId : null,
+        instagramUrl: toInstagramUrl(item.instagramUrl),
+        verificationStatus: sources.webResults === undefined ? "not_checked" : item.verificationStatus,
+      })),
+    });
+    return dedupeRecommendations(recommendations);
+  } catch (error) {
+    if (options.signal?.aborted) {
+      throw error;
+    }
+    console.error("Error extracting recommendations:", error);
+    return [];
+  }
+}
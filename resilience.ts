@@ -0,0 +1,292 @@
+import { z } from "zod";
+import { metrics } from "./metrics";
+
+// Outbound dependencies, each with its own policy and circuit breaker. "generation" is the seeders'
+// model, often another provider than the agents' "chat" model
+export const RESILIENT_PROVIDERS = ["chat", "generation", "embeddings", "web_search", "atlas_search", "geocoding"] as const;
+
+export type ResilientProvider = (typeof RESILIENT_PROVIDERS)[number];
+
+// Why a call gave up: it ran out of time, its circuit is open, or it kept failing
+export type FailureReason = "timeout" | "unavailable" | "error";
+
+const ResiliencePolicySchema = z.object({
+  // Limit for a single attempt, in milliseconds
+  timeoutMs: z.coerce.number().int().positive(),
+  // Attempts after the first, for timeouts, 429s, 5xxs and network errors
+  retries: z.coerce.number().int().min(0),
+  // Backoff before retry n is a random delay up to min(maxDelayMs, baseDelayMs * 2^n)
+  baseDelayMs: z.coerce.number().int().min(0),
+  maxDelayMs: z.coerce.number().int().min(0),
+  // Consecutive failures that open the circuit, and how long it stays open before a trial call
+  failureThreshold: z.coerce.number().int().positive(),
+  resetMs: z.coerce.number().int().min(0),
+});
+
+export type ResiliencePolicy = z.infer<typeof ResiliencePolicySchema>;
+
+const DEFAULT_POLICIES: Record<ResilientProvider, ResiliencePolicy> = {
+  chat: { timeoutMs: 30000, retries: 2, baseDelayMs: 500, maxDelayMs: 4000, failureThreshold: 5, resetMs: 30000 },
+  // Generating a whole dataset in one reply takes far longer than a chat turn
+  generation: { timeoutMs: 120000, retries: 2, baseDelayMs: 1000, maxDelayMs: 8000, failureThreshold: 5, resetMs: 30000 },
+  embeddings: { timeoutMs: 10000, retries: 2, baseDelayMs: 250, maxDelayMs: 2000, failureThreshold: 5, resetMs: 30000 },
+  web_search: { timeoutMs: 10000, retries: 1, baseDelayMs: 500, maxDelayMs: 2000, failureThreshold: 5, resetMs: 60000 },
+  atlas_search: { timeoutMs: 5000, retries: 2, baseDelayMs: 100, maxDelayMs: 1000, failureThreshold: 5, resetMs: 15000 },
+  // Attempts include waiting for the geocoder's one-request-a-second turn
+  geocoding: { timeoutMs: 10000, retries: 1, baseDelayMs: 1000, maxDelayMs: 2000, failureThreshold: 5, resetMs: 60000 },
+};
+
+// How each provider is named in error messages
+const PROVIDER_LABELS: Record<ResilientProvider, string> = {
+  chat: "Model",
+  generation: "Generation model",
+  embeddings: "Embeddings",
+  web_search: "Search",
+  atlas_search: "Atlas Search",
+  geocoding: "Geocoder",
+};
+
+let overrides: Partial<Record<ResilientProvider, Partial<ResiliencePolicy>>> = {};
+
+// RESILIENCE_<PROVIDER>_<SETTING>, e.g. RESILIENCE_WEB_SEARCH_TIMEOUT_MS=5000 or RESILIENCE_CHAT_RETRIES=0
+export function loadResiliencePolicy(provider: ResilientProvider, env: NodeJS.ProcessEnv = process.env): ResiliencePolicy {
+  const setting = (name: string) => env[`RESILIENCE_${provider.toUpperCase()}_${name}`];
+  const defaults = DEFAULT_POLICIES[provider];
+  return ResiliencePolicySchema.parse({
+    timeoutMs: setting("TIMEOUT_MS") ?? defaults.timeoutMs,
+    retries: setting("RETRIES") ?? defaults.retries,
+    baseDelayMs: setting("BASE_DELAY_MS") ?? defaults.baseDelayMs,
+    maxDelayMs: setting("MAX_DELAY_MS") ?? defaults.maxDelayMs,
+    failureThreshold: setting("FAILURE_THRESHOLD") ?? defaults.failureThreshold,
+    resetMs: setting("RESET_MS") ?? defaults.resetMs,
+    ...overrides[provider],
+  });
+}
+
+export function overrideResiliencePolicies(next: Partial<Record<ResilientProvider, Partial<ResiliencePolicy>>>) {
+  for (const provider of Object.keys(next) as ResilientProvider[]) {
+    overrides[provider] = { ...overrides[provider], ...next[provider] };
+  }
+}
+
+// Clears the policy overrides and closes every circuit
+export function resetResilience() {
+  overrides = {};
+  breakers.clear();
+}
+
+// A call that gave up, after retrying where that could help. The message is the last attempt's
+export class ProviderError extends Error {
+  constructor(readonly provider: ResilientProvider, readonly reason: FailureReason, message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+export function failureReason(error: unknown): FailureReason {
+  return error instanceof ProviderError ? error.reason : "error";
+}
+
+// Socket and DNS failures, from Node itself and from undici under fetch
+const TRANSIENT_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+]);
+
+// Connection failures and timeouts as the model SDKs and the MongoDB driver name them
+const TRANSIENT_ERROR_NAMES = new Set([
+  "TimeoutError",
+  "APIConnectionError",
+  "APIConnectionTimeoutError",
+  "MongoNetworkError",
+  "MongoNetworkTimeoutError",
+  "MongoServerSelectionError",
+]);
+
+interface ErrorFields {
+  status?: unknown;
+  response?: { status?: unknown };
+  code?: unknown;
+  name?: unknown;
+  message?: unknown;
+  cause?: unknown;
+}
+
+// Timeouts, rate limits, server errors and transient network errors are worth another try. Anything
+// else, e.g. a TypeError or a response that doesn't parse, would fail the same way again
+function isRetryable(error: unknown): boolean {
+  if (error instanceof ProviderError) return error.reason === "timeout";
+  if (typeof error !== "object" || error === null) return false;
+
+  const { status, response, code, name, message, cause } = error as ErrorFields;
+  const httpStatus = status ?? response?.status;
+  if (typeof httpStatus === "number") return httpStatus === 408 || httpStatus === 429 || httpStatus >= 500;
+  if (typeof code === "string" && TRANSIENT_NETWORK_CODES.has(code)) return true;
+  if (typeof name === "string" && TRANSIENT_ERROR_NAMES.has(name)) return true;
+  // fetch rejects with a TypeError("fetch failed") whose cause is the network error
+  return name === "TypeError" && message === "fetch failed" && isRetryable(cause);
+}
+
+type CircuitState = "closed" | "open" | "half_open";
+
+// Stops calling a provider after repeated failures, then lets a single trial call through once resetMs has passed
+class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  // Whether a call may go ahead; a half-open circuit allows one at a time
+  tryAcquire(policy: ResiliencePolicy): boolean {
+    if (this.state === "open" && Date.now() - this.openedAt >= policy.resetMs) {
+      this.state = "half_open";
+    }
+    if (this.state === "open" || (this.state === "half_open" && this.trialInFlight)) return false;
+    if (this.state === "half_open") this.trialInFlight = true;
+    return true;
+  }
+
+  succeed() {
+    this.state = "closed";
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  fail(policy: ResiliencePolicy) {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.state === "half_open" || this.failures >= policy.failureThreshold) {
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+
+  // A call that ended without a verdict on the provider, e.g. aborted by the client
+  release() {
+    this.trialInFlight = false;
+  }
+}
+
+const breakers = new Map<ResilientProvider, CircuitBreaker>();
+
+function breakerFor(provider: ResilientProvider) {
+  let breaker = breakers.get(provider);
+  if (!breaker) {
+    breaker = new CircuitBreaker();
+    breakers.set(provider, breaker);
+  }
+  return breaker;
+}
+
+export interface ResilienceOptions {
+  // The run's signal, e.g. aborted when the HTTP client disconnects
+  signal?: AbortSignal;
+  // Epoch milliseconds the call has to finish by; attempts are shortened and retries skipped to meet it
+  deadline?: number;
+  // Overrides the policy, e.g. 0 for calls whose streamed output can't be taken back
+  retries?: number;
+}
+
+const abortReason = (signal: AbortSignal) => signal.reason ?? new Error("Aborted");
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortReason(signal));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// One attempt, with its own signal that aborts on timeout or when the run's signal does, so the
+// underlying request is cancelled rather than left running. Rejects on either even if `fn` ignores its signal
+async function attempt<T>(provider: ResilientProvider, fn: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(abortReason(signal!));
+  signal?.addEventListener("abort", forwardAbort, { once: true });
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      controller.signal.addEventListener("abort", () => reject(controller.signal.reason), { once: true });
+      timer = setTimeout(() => controller.abort(new ProviderError(provider, "timeout", `${PROVIDER_LABELS[provider]} timeout`)), Math.max(timeoutMs, 0));
+      fn(controller.signal).then(resolve, reject);
+    });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", forwardAbort);
+  }
+}
+
+// Calls a provider under its policy: per-attempt timeouts, retries with jittered exponential backoff,
+// and a circuit breaker that fails fast while the provider is down. Aborts are passed through untouched,
+// as are failures of nested calls to other providers, which have been retried and counted by their own policy
+export async function withResilience<T>(
+  provider: ResilientProvider,
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: ResilienceOptions = {}
+): Promise<T> {
+  const policy = loadResiliencePolicy(provider);
+  const breaker = breakerFor(provider);
+  const retries = options.retries ?? policy.retries;
+
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    if (options.signal?.aborted) throw abortReason(options.signal);
+    const remaining = (options.deadline ?? Infinity) - Date.now();
+    if (remaining <= 0) {
+      metrics.providerCalls.inc({ provider, outcome: "timeout" });
+      throw new ProviderError(provider, "timeout", `${PROVIDER_LABELS[provider]} timeout`);
+    }
+    if (!breaker.tryAcquire(policy)) {
+      metrics.providerCalls.inc({ provider, outcome: "circuit_open" });
+      throw new ProviderError(provider, "unavailable", `${PROVIDER_LABELS[provider]} unavailable (circuit open)`);
+    }
+
+    const timeoutMs = Math.min(policy.timeoutMs, remaining);
+    try {
+      const result = await attempt(provider, fn, timeoutMs, options.signal);
+      breaker.succeed();
+      metrics.providerCalls.inc({ provider, outcome: "ok" });
+      return result;
+    } catch (error: any) {
+      const nested = error instanceof ProviderError && error.provider !== provider;
+      if (options.signal?.aborted || nested) {
+        breaker.release();
+        throw error;
+      }
+
+      const retryable = isRetryable(error);
+      // Rejected requests, e.g. a 400, say nothing about the provider's health, and nor does running
+      // into the caller's deadline before the policy's own timeout
+      const cutShort = failureReason(error) === "timeout" && timeoutMs < policy.timeoutMs;
+      if (retryable && !cutShort) breaker.fail(policy);
+      else breaker.release();
+
+      const delay = Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attemptNumber);
+      if (retryable && attemptNumber < retries && Date.now() + delay < (options.deadline ?? Infinity)) {
+        metrics.providerCalls.inc({ provider, outcome: "retry" });
+        console.log(`${PROVIDER_LABELS[provider]} call failed, retrying in ${Math.round(delay)}ms:`, error?.message);
+        await sleep(delay, options.signal);
+        continue;
+      }
+
+      const reason = failureReason(error);
+      metrics.providerCalls.inc({ provider, outcome: reason });
+      throw error instanceof ProviderError ? error : new ProviderError(provider, reason, error?.message ?? String(error), error);
+    }
+  }
+}
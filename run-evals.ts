@@ -0,0 +1,85 @@
+import { MongoClient } from "mongodb";
+import fs from "fs";
+import path from "path";
+import * as eventsAgent from "./agent-events";
+import * as webEventsAgent from "./agent-events-web";
+import { domainCollection, eventsProfile } from "./domain-profiles";
+import {
+  EVAL_FIXTURE_PATH,
+  EvalReport,
+  diffReports,
+  evalFixtureProfile,
+  evaluateAnswers,
+  evaluateRetrieval,
+  formatReport,
+  loadEvalFixture,
+  loadGoldenFile,
+} from "./evaluation";
+import "dotenv/config";
+
+interface CliOptions {
+  goldenPath: string;
+  // Results are compared against this file, then overwritten with the new run
+  outPath: string;
+  k: number;
+  // Skip the full agent, e.g. when only the index or the embeddings changed
+  retrievalOnly: boolean;
+  agent: "single" | "web";
+  // Reload the fixture collection from evals/events.csv before evaluating
+  loadFixture: boolean;
+  // Evaluate against events_database.events instead of the fixture collection
+  live: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const value = (flag: string) => argv.find((arg) => arg.startsWith(`${flag}=`))?.split("=")[1];
+  return {
+    goldenPath: value("--golden") ?? "./evals/golden-queries.json",
+    outPath: value("--out") ?? "./evals/last-run.json",
+    k: Number(value("--k") ?? 5),
+    retrievalOnly: argv.includes("--retrieval-only"),
+    agent: value("--agent") === "web" ? "web" : "single",
+    loadFixture: argv.includes("--load-fixture"),
+    live: argv.includes("--live"),
+  };
+}
+
+async function main() {
+  const { goldenPath, outPath, k, retrievalOnly, agent, loadFixture, live } = parseArgs(process.argv.slice(2));
+  const profile = live ? eventsProfile : evalFixtureProfile;
+  const golden = loadGoldenFile(goldenPath);
+  const client = new MongoClient(process.env.MONGODB_ATLAS_URI as string);
+
+  try {
+    await client.connect();
+    if (loadFixture) {
+      const count = await loadEvalFixture(client, evalFixtureProfile);
+      console.log(`Loaded ${count} events from ${EVAL_FIXTURE_PATH} into ${evalFixtureProfile.dbName}.${evalFixtureProfile.collectionName}`);
+    }
+    console.log(`Evaluating ${golden.cases.length} golden queries from ${goldenPath} against ${profile.dbName}.${profile.collectionName}`);
+
+    const report: EvalReport = {
+      goldenVersion: golden.version,
+      createdAt: new Date().toISOString(),
+      k,
+      retrieval: await evaluateRetrieval(domainCollection(client, profile), golden.cases, k),
+      ...(!retrievalOnly && {
+        answers: await evaluateAnswers(client, golden.cases, agent === "web" ? webEventsAgent.callAgent : eventsAgent.callAgent, profile),
+      }),
+    };
+
+    console.log(formatReport(report).join("\n"));
+    if (fs.existsSync(outPath)) {
+      const previous: EvalReport = JSON.parse(fs.readFileSync(outPath, "utf8"));
+      console.log(`\nChanges since ${previous.createdAt}:\n${diffReports(previous, report).join("\n")}`);
+    }
+
+    fs.mkdirSync(path.dirname(outPath), { recursive: true });
+    fs.writeFileSync(outPath, JSON.stringify(report, null, 2));
+    console.log(`\nSaved results to ${outPath}`);
+  } finally {
+    await client.close();
+  }
+}
+
+main().catch(console.error);
@@ -0,0 +1,138 @@
+import { Request, Response, Router } from "express";
+import { MongoClient } from "mongodb";
+import { requireAdminKey } from "./admin-events";
+
+// How long a web search result is reused before the venue is searched again
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+export interface SearchCacheEntry {
+  key: string;
+  query: string;
+  results: unknown;
+  hits: number;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface SearchCacheStats {
+  hits: number;
+  misses: number;
+  // Lookups where the cache itself failed and we searched without it
+  errors: number;
+  hitRate: number;
+}
+
+// Counters for this process, since start-up or the last reset
+const stats = { hits: 0, misses: 0, errors: 0 };
+
+// By client, since each call to searchCacheCollection returns a new Collection
+const indexesReady = new WeakMap<MongoClient, Promise<void>>();
+
+export function searchCacheTtlSeconds(env: NodeJS.ProcessEnv = process.env) {
+  const ttl = Number(env.SEARCH_CACHE_TTL_SECONDS);
+  return Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_TTL_SECONDS;
+}
+
+// Case, punctuation and spacing don't change what a search returns
+export function normalizeSearchQuery(query: string) {
+  return query
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}@#&]+/gu, " ")
+    .trim()
+    .replace(/\s+/g, " ");
+}
+
+export function searchCacheCollection(client: MongoClient) {
+  return client.db("events_database").collection<SearchCacheEntry>("search_cache");
+}
+
+// Each entry carries its own expiry, so changing the TTL never needs the index rebuilt
+export function ensureSearchCacheIndexes(client: MongoClient) {
+  let ready = indexesReady.get(client);
+  if (!ready) {
+    const collection = searchCacheCollection(client);
+    ready = Promise.all([
+      collection.createIndex({ key: 1 }, { unique: true }),
+      collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+    ]).then(() => undefined);
+    ready.catch(() => indexesReady.delete(client));
+    indexesReady.set(client, ready);
+  }
+  return ready;
+}
+
+// Returns the cached results for `query`, or runs `search` and caches what it returns.
+// Failed searches aren't cached, and cache errors fall back to searching directly.
+export async function cachedSearch(
+  client: MongoClient,
+  query: string,
+  search: (query: string) => Promise<unknown>
+): Promise<{ results: unknown; cached: boolean }> {
+  const key = normalizeSearchQuery(query);
+  const ttlSeconds = searchCacheTtlSeconds();
+  if (!key || ttlSeconds === 0) {
+    return { results: await search(query), cached: false };
+  }
+
+  const collection = searchCacheCollection(client);
+  try {
+    await ensureSearchCacheIndexes(client);
+    // The TTL monitor only runs every minute, so expired entries are skipped here too
+    const entry = await collection.findOneAndUpdate(
+      { key, expiresAt: { $gt: new Date() } },
+      { $inc: { hits: 1 } },
+      { projection: { results: 1 } }
+    );
+    if (entry) {
+      stats.hits++;
+      return { results: entry.results, cached: true };
+    }
+    stats.misses++;
+  } catch (error) {
+    console.error("Error reading search cache:", error);
+    stats.errors++;
+    return { results: await search(query), cached: false };
+  }
+
+  const results = await search(query);
+  const now = new Date();
+  try {
+    await collection.updateOne(
+      { key },
+      { $set: { query, results, hits: 0, createdAt: now, expiresAt: new Date(now.getTime() + ttlSeconds * 1000) } },
+      { upsert: true }
+    );
+  } catch (error) {
+    console.error("Error writing search cache:", error);
+    stats.errors++;
+  }
+  return { results, cached: false };
+}
+
+export function getSearchCacheStats(): SearchCacheStats {
+  const lookups = stats.hits + stats.misses;
+  return { ...stats, hitRate: lookups ? stats.hits / lookups : 0 };
+}
+
+export function resetSearchCacheStats() {
+  Object.assign(stats, { hits: 0, misses: 0, errors: 0 });
+}
+
+export function createSearchCacheRouter(client: MongoClient): Router {
+  const router = Router();
+  const collection = searchCacheCollection(client);
+
+  router.use(requireAdminKey);
+
+  router.get("/stats", async (req: Request, res: Response) => {
+    try {
+      const entries = await collection.countDocuments({ expiresAt: { $gt: new Date() } });
+      res.json({ ...getSearchCacheStats(), entries, ttlSeconds: searchCacheTtlSeconds() });
+    } catch (error) {
+      console.error("Error reading search cache stats: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  return router;
+}
@@ -1,131 +1,315 @@
-import { MongoClient } from "mongodb";
-import { MongoDBAtlasVectorSearch } from "@langchain/mongodb";
-import { z } from "zod";
+import { AnyBulkWriteOperation, Document, MongoClient } from "mongodb";
 import "dotenv/config";
-import csv from 'csv-parser';
 import fs from 'fs';
-import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
 import { StructuredOutputParser } from "@langchain/core/output_parsers";
+import { domainCollection, eventsProfile } from "./domain-profiles";
+import { DedupFields, Provenance, groupDuplicates, isDuplicateEvent, mergeEvents } from "./event-dedup";
+import { ValidationResult, formatRejectionReport, readCSVRows, validateEventRows } from "./event-ingest";
+import { icsToRows } from "./icalendar";
+import { ensureEventsGeoIndex, ensureEventsTextIndex, ensureEventsVectorIndex } from "./events-lookup";
+import { eventAddress } from "./geocoding";
+import { getGeocoder } from "./providers";
+import {
+  EMBEDDING_BATCH_SIZE,
+  Event,
+  contentHashFor,
+  embedEventDocuments,
+  eventKeyFor,
+} from "./event-documents";
 import "dotenv/config";
 
 const client = new MongoClient(process.env.MONGODB_ATLAS_URI as string);
 
-const llm = new ChatOpenAI({
-    modelName: "gpt-4o-mini",
-    temperature: 0.7,
-  });
+interface SyncOptions {
+  // Number of summaries sent to the embeddings API per request
+  batchSize: number;
+  // Delete events that disappeared from the source instead of archiving them
+  prune: boolean;
+  // Off when rows were rejected, since their events would otherwise look like they'd been removed
+  removeMissing: boolean;
+}
 
-const EventSchema = z.object({
-  name: z.string(),
-  type: z.string(),
-  date: z.string(),
-  time: z.string(),
-  location: z.string(),
-  instagram: z.string(),
-  city: z.string(),
-  notes: z.string(),
-  similarTo: z.string(),
-});
-
-type Event = z.infer<typeof EventSchema>;
-
-async function parseCSVFile(filePath: string): Promise<Event[]> {
-  return new Promise((resolve, reject) => {
-    const events: Event[] = [];
-    fs.createReadStream(filePath)
-      .pipe(csv())
-      .on('data', (data:Event) => {
-        // Map CSV data to EventSchema
-        const event: Event = {
-          name: data.name,
-          type: data.type,
-          date: data.date,
-          time: data.time,
-          location: data.location,
-          instagram: data.instagram,
-          city: data.city,
-          notes: data.notes,
-          similarTo: data.similarTo,
-        };
-        events.push(event);
-      })
-      .on('end', () => {
-        resolve(events);
-      })
-      .on('error', (err:any) => {
-        reject(err);
-      });
+// An event ready to sync, with the rows it was merged from
+interface SourceEvent {
+  event: Event;
+  provenance: Provenance[];
+}
+
+interface SyncSummary {
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+}
+
+// Reads the CSV and validates every row, so missing columns are reported instead of embedded as "undefined"
+async function parseCSVFile(filePath: string): Promise<ValidationResult> {
+  return withSource(validateEventRows(await readCSVRows(fs.createReadStream(filePath))), filePath);
+}
+
+// Reads an .ics file or feed URL (webcal:// included) and validates its events like CSV rows
+async function parseICalendarSource(source: string, city?: string): Promise<ValidationResult> {
+  let text: string;
+  if (/^(https?|webcal):\/\//i.test(source)) {
+    const response = await fetch(source.replace(/^webcal:/i, "https:"));
+    if (!response.ok) {
+      throw new Error(`Fetching ${source} failed with status ${response.status}`);
+    }
+    text = await response.text();
+  } else {
+    text = fs.readFileSync(source, "utf8");
+  }
+  return withSource(validateEventRows(icsToRows(text, city)), source);
+}
+
+function withSource(result: ValidationResult, source: string): ValidationResult {
+  return {
+    ...result,
+    origins: result.origins.map((origin) => ({ ...origin, source })),
+    rejected: result.rejected.map((row) => ({ ...row, source })),
+  };
+}
+
+// Merges listings of the same event, whether repeated in one file or spread across the CSV and feeds
+function mergeDuplicateEvents({ events, origins }: ValidationResult): SourceEvent[] {
+  const records = events.map((event, index) => ({
+    event,
+    provenance: { source: origins[index].source ?? "", line: origins[index].line, name: event.name },
+  }));
+  return groupDuplicates(records, (record) => record.event).map((group) => {
+    const merged = mergeEvents(group);
+    if (group.length > 1) {
+      const from = merged.provenance.map(({ source, line, name }) => `${name} (${source} line ${line})`).join(", ");
+      console.log(`Merged ${group.length} listings of ${merged.event.name}: ${from}`);
+    }
+    return merged;
   });
 }
 
-async function createEventSummary(event: Event): Promise<string> {
-    return new Promise((resolve) => {
-      const name = `${event.name}`;
-      const type = `${event.type}`;
-      const date = `${event.date}`;
-      const time = `${event.time}`;
-      const location = `${event.location}`;
-      const instagram = `${event.instagram}`;
-      const city = `${event.city}`;
-      const notes = event.notes;
-      const similarTo = `${event.similarTo}`;
-  
-      const summary = `Name: ${name}. Type: ${type}. Date: ${date}. Time: ${time}. Location: ${location}. Instagram: ${instagram}. City: ${city}. Notes: ${notes}. Similar To ${similarTo}`;
-  
-      resolve(summary);
-    });
+interface CliOptions {
+  filePath: string;
+  // iCalendar files or feed URLs to sync alongside the CSV, from repeated --ics= flags
+  icsSources: string[];
+  // City for every event in the feeds, when their LOCATION doesn't name one
+  icsCity?: string;
+  batchSize: number;
+  prune: boolean;
+  // Validate and preview summaries without connecting to MongoDB or calling the embeddings API
+  dryRun: boolean;
+  // Where to write the rejected rows as JSON
+  reportPath?: string;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const value = (flag: string) => argv.find((arg) => arg.startsWith(`${flag}=`))?.split("=")[1];
+  const batchSize = value("--batch-size") ?? process.env.SEED_BATCH_SIZE ?? String(EMBEDDING_BATCH_SIZE);
+  // 0 would never advance through the events and NaN would skip them all
+  if (!/^\d+$/.test(batchSize.trim()) || Number(batchSize) < 1) {
+    throw new Error(`Batch size must be a positive integer, got "${batchSize}"`);
+  }
+  return {
+    filePath: value("--file") ?? './events-db.csv',
+    icsSources: argv.filter((arg) => arg.startsWith("--ics=")).map((arg) => arg.slice("--ics=".length)),
+    icsCity: value("--ics-city"),
+    batchSize: Number(batchSize),
+    prune: argv.includes("--prune"),
+    dryRun: argv.includes("--dry-run"),
+    reportPath: value("--report"),
+  };
+}
+
+// Prints the rejected rows, and saves them as JSON when a report path was given
+function reportRejectedRows({ events, rejected }: ValidationResult, reportPath?: string) {
+  console.log(`Validated ${events.length + rejected.length} rows: ${events.length} accepted, ${rejected.length} rejected`);
+  if (rejected.length) {
+    console.warn(`Rejected rows:\n${formatRejectionReport(rejected)}`);
+  }
+  if (reportPath) {
+    fs.writeFileSync(reportPath, JSON.stringify({ accepted: events.length, rejected }, null, 2));
+    console.log(`Wrote validation report to ${reportPath}`);
+  }
+}
+
+async function previewEvents(events: SourceEvent[]) {
+  for (const { event } of events) {
+    console.log(`[${eventKeyFor(event).slice(0, 8)}] ${await eventsProfile.summarize(event)}`);
   }
+  console.log(`Dry run: ${events.length} events would be synced. MongoDB and the embeddings API were not touched.`);
+}
 
+// Brings the collection in line with `events`, only embedding events whose summary changed
+async function syncEventsWithVectorSearch(events: SourceEvent[], options: SyncOptions): Promise<SyncSummary> {
+  const summary: SyncSummary = { added: 0, updated: 0, unchanged: 0, removed: 0 };
 
-async function embedEventsWithVectorSearch(events: Event[]): Promise<void> {
   try {
     await client.connect();
     await client.db("admin").command({ ping: 1 });
     console.log("Pinged your deployment. You successfully connected to MongoDB!");
 
-    const db = client.db("events_database");
-    const collection = db.collection("events");
+    const collection = domainCollection(client, eventsProfile);
 
-    // Prepare the records with summaries for vector search
-    const recordsWithSummaries = await Promise.all(
-      events.map(async (record) => ({
-        pageContent: await createEventSummary(record),
-        metadata: {...record},
-      }))
+    // Later rows win when the source repeats an event
+    const source = new Map<string, SourceEvent & { summary: string; contentHash: string }>();
+    for (const { event, provenance } of events) {
+      const eventSummary = await eventsProfile.summarize(event);
+      const key = eventKeyFor(event);
+      if (source.has(key)) {
+        console.warn("Duplicate event in source, keeping the last row:", event.name);
+      }
+      source.set(key, { event, provenance, summary: eventSummary, contentHash: contentHashFor(eventSummary) });
+    }
+
+    // Documents written by the old insert-only seeder have no eventKey, so derive one from their fields
+    const existing = new Map<string, Document>();
+    const duplicateIds: Document["_id"][] = [];
+    const cursor = collection.find(
+      {},
+      { projection: { eventKey: 1, contentHash: 1, archived: 1, embedding_text: 1, name: 1, city: 1, date: 1, location: 1, instagram: 1, geo: 1 } }
     );
+    for await (const doc of cursor) {
+      const key = doc.eventKey ?? eventKeyFor({ name: doc.name ?? "", city: doc.city ?? "", date: doc.date ?? "" });
+      if (existing.has(key)) {
+        duplicateIds.push(doc._id);
+        continue;
+      }
+      existing.set(key, { ...doc, contentHash: doc.contentHash ?? contentHashFor(doc.embedding_text ?? "") });
+    }
 
-    // Use vector search to store events
-    for (const record of recordsWithSummaries) {
-      await MongoDBAtlasVectorSearch.fromDocuments(
-        [record],
-        new OpenAIEmbeddings(),
-        {
-          collection,
-          indexName: "vector_index",
-          textKey: "embedding_text",
-          embeddingKey: "embedding",
+    // A renamed or re-sourced listing gets a new key, so fall back to fuzzy matching before adding it
+    const matched = new Set<string>();
+    const dedupFieldsOf = (doc: Document): DedupFields => ({ name: doc.name ?? "", city: doc.city, date: doc.date, instagram: doc.instagram });
+    const findExisting = (key: string, event: Event): Document | undefined => {
+      if (existing.has(key)) {
+        matched.add(key);
+        return existing.get(key);
+      }
+      for (const [existingKey, doc] of existing) {
+        if (matched.has(existingKey) || source.has(existingKey) || !isDuplicateEvent(event, dedupFieldsOf(doc))) continue;
+        console.log(`Matched ${event.name} to existing event ${doc.name}`);
+        matched.add(existingKey);
+        return doc;
+      }
+    };
+
+    const toEmbed: (SourceEvent & { key: string; summary: string; current?: Document })[] = [];
+    const operations: AnyBulkWriteOperation[] = [];
+
+    for (const [key, record] of source) {
+      const current = findExisting(key, record.event);
+      if (!current) {
+        summary.added++;
+        toEmbed.push({ key, ...record });
+      } else if (current.contentHash !== record.contentHash || current.archived) {
+        summary.updated++;
+        toEmbed.push({ key, ...record, current });
+      } else {
+        summary.unchanged++;
+        // Backfill identity fields on legacy or fuzzy-matched documents without paying for a new embedding
+        if (current.eventKey !== key) {
+          operations.push({
+            updateOne: {
+              filter: { _id: current._id },
+              update: { $set: { eventKey: key, contentHash: record.contentHash, archived: false, provenance: record.provenance } },
+            },
+          });
+        }
+        // Documents synced before geocoding have no geo field at all
+        if (current.geo === undefined) {
+          const geo = await getGeocoder().geocode(eventAddress(record.event));
+          operations.push({ updateOne: { filter: { _id: current._id }, update: { $set: { geo } } } });
         }
+      }
+    }
+
+    for (let i = 0; i < toEmbed.length; i += options.batchSize) {
+      const batch = toEmbed.slice(i, i + options.batchSize);
+      const documents = await embedEventDocuments(batch.map((record) => record.event), options.batchSize);
+
+      const writes: AnyBulkWriteOperation[] = batch.map((record, index) => {
+        const document = documents[index];
+        const current = record.current;
+        return {
+          updateOne: {
+            filter: current ? { _id: current._id } : { eventKey: record.key },
+            // A web check of the old details no longer applies once they've changed
+            update: {
+              $set: { ...document, provenance: record.provenance },
+              $unset: { archivedAt: "", ...(current?.contentHash !== document.contentHash && { verification: "" }) },
+            },
+            upsert: true,
+          },
+        };
+      });
+      await collection.bulkWrite(writes);
+      console.log(`Embedded & saved ${Math.min(i + options.batchSize, toEmbed.length)}/${toEmbed.length} events`);
+    }
+
+    for (const [key, doc] of existing) {
+      if (!options.removeMissing || matched.has(key) || doc.archived) continue;
+      summary.removed++;
+      operations.push(
+        options.prune
+          ? { deleteOne: { filter: { _id: doc._id } } }
+          : { updateOne: { filter: { _id: doc._id }, update: { $set: { archived: true, archivedAt: new Date() } } } }
       );
-      console.log("Successfully processed & saved event:", record.metadata.name);
+    }
+    if (duplicateIds.length) {
+      operations.push({ deleteMany: { filter: { _id: { $in: duplicateIds } } } });
+    }
+    if (operations.length) {
+      await collection.bulkWrite(operations);
     }
 
-    console.log("Database seeding with vector search completed.");
+    // Make sure city, type and archived can be used as vector search pre-filters, names and handles
+    // can be matched exactly, and geo is indexed for nearby searches
+    await ensureEventsVectorIndex(collection);
+    await ensureEventsTextIndex(collection);
+    await ensureEventsGeoIndex(client, collection);
+
+    console.log("Database sync with vector search completed.");
+    console.log(
+      `Added: ${summary.added}, updated: ${summary.updated}, unchanged: ${summary.unchanged}, ` +
+        `${options.prune ? "deleted" : "archived"}: ${summary.removed}` +
+        (duplicateIds.length ? `, duplicate copies removed: ${duplicateIds.length}` : "")
+    );
   } catch (error) {
-    console.error("Error seeding database with vector search:", error);
+    console.error("Error syncing database with vector search:", error);
   } finally {
     await client.close();
   }
+
+  return summary;
 }
 
 async function main() {
   try {
-    const filePath = './events-db.csv';  
-    const events = await parseCSVFile(filePath);
+    const { filePath, icsSources, icsCity, dryRun, reportPath, ...options } = parseArgs(process.argv.slice(2));
+    // The CSV can be left out when only feeds are synced
+    const results = [
+      ...(icsSources.length && !fs.existsSync(filePath) ? [] : [await parseCSVFile(filePath)]),
+      ...(await Promise.all(icsSources.map((source) => parseICalendarSource(source, icsCity)))),
+    ];
+    const validation: ValidationResult = {
+      events: results.flatMap((result) => result.events),
+      origins: results.flatMap((result) => result.origins),
+      rejected: results.flatMap((result) => result.rejected),
+    };
+    reportRejectedRows(validation, reportPath);
+    const events = mergeDuplicateEvents(validation);
 
-    await embedEventsWithVectorSearch(events);  // Insert events with vector search
+    if (dryRun) {
+      await previewEvents(events);
+      return;
+    }
+
+    const removeMissing = validation.rejected.length === 0;
+    if (!removeMissing) {
+      console.warn(`Not ${options.prune ? "deleting" : "archiving"} events missing from the source until the rejected rows are fixed`);
+    }
+    await syncEventsWithVectorSearch(events, { ...options, removeMissing });
   } catch (error) {
     console.error("Error processing events:", error);
   }
 }
 
-main().catch(console.error);
\ No newline at end of file
+main().catch(console.error);
@@ -0,0 +1,261 @@
+import { StructuredOutputParser } from "@langchain/core/output_parsers";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { z } from "zod";
+import { Event, EventSchema } from "./event-documents";
+import { normalizeInstagramHandle, resolveCity } from "./event-ingest";
+import { withResilience } from "./resilience";
+
+export const RECURRENCE_KINDS = ["weekly", "monthly", "daily", "once"] as const;
+
+export type RecurrenceKind = (typeof RECURRENCE_KINDS)[number];
+
+export interface SyntheticEventOptions {
+  // Rows to generate, near-duplicates included
+  count: number;
+  cities: string[];
+  // Relative weights of each event type, e.g. { Brunch: 3, "Day Party": 1 }
+  typeMix: Record<string, number>;
+  // Relative weights of each kind of date
+  recurrenceMix: Partial<Record<RecurrenceKind, number>>;
+  // Share of rows that restate another row's event under a slightly different listing
+  duplicateRate: number;
+  seed: number;
+  // One-off dates fall in the 90 days after this
+  startDate: Date;
+}
+
+export interface SyntheticDataset {
+  events: Event[];
+  // Which rows are near-duplicates, and the index of the row each one restates
+  duplicates: { index: number; of: number }[];
+}
+
+// A fixed default rather than today, so a seed gives the same dates whenever it's run
+const SYNTHETIC_START_DATE = new Date("2026-01-01T00:00:00Z");
+
+export const DEFAULT_SYNTHETIC_OPTIONS: SyntheticEventOptions = {
+  count: 50,
+  cities: ["London", "Atlanta", "New York", "Lagos"],
+  typeMix: { Brunch: 3, "Day Party": 3, Club: 2, Restaurant: 2, "Dinner Party": 1, "Live Music": 1 },
+  recurrenceMix: { weekly: 4, monthly: 3, daily: 1, once: 2 },
+  duplicateRate: 0.1,
+  seed: 1,
+  startDate: SYNTHETIC_START_DATE,
+};
+
+// Small, fast and good enough for fixtures: the same seed always gives the same sequence
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)];
+  const weighted = <K extends string>(weights: Partial<Record<K, number>>): K => {
+    const entries = (Object.entries(weights) as [K, number][]).filter(([, weight]) => weight > 0);
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+    let roll = next() * total;
+    for (const [key, weight] of entries) {
+      roll -= weight;
+      if (roll < 0) return key;
+    }
+    return entries[entries.length - 1][0];
+  };
+  return { next, pick, weighted };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+const GENRES = ["Afrobeats", "Amapiano", "RnB", "Dancehall", "Soca", "Hip Hop", "Afro House", "Neo Soul", "Jazz", "Gospel", "Reggae", "Kompa"];
+
+const ADJECTIVES = ["Golden", "Midnight", "Sunset", "Velvet", "Rooftop", "Secret", "Soulful", "Royal", "Island", "Uptown"];
+
+// Name endings, times and a line for the notes, by event type. Unknown types borrow the club's
+const TYPE_DETAILS: Record<string, { nouns: string[]; times: string[]; notes: string[] }> = {
+  Brunch: {
+    nouns: ["Brunch", "Brunch Club", "Bottomless Brunch", "Sunday Brunch"],
+    times: ["12pm-5pm", "1pm-7pm", "11am-4pm"],
+    notes: ["Bottomless drinks and live DJs", "Brunch menu with a dancefloor after", "Booking essential, tables of 4 or more"],
+  },
+  "Day Party": {
+    nouns: ["Day Party", "Day Fete", "Garden Party", "Block Party"],
+    times: ["2pm-10pm", "1pm-9pm", "3pm-11pm"],
+    notes: ["Outdoor terrace and food stalls", "Free entry before 3pm", "Summer favourite with guest DJs"],
+  },
+  Club: {
+    nouns: ["Night", "Sessions", "Rave", "Takeover"],
+    times: ["10pm-4am", "11pm-5am", "10pm-3am"],
+    notes: ["Dress code enforced", "Two rooms of music", "Late licence, last entry 1am"],
+  },
+  Restaurant: {
+    nouns: ["Kitchen", "Grill", "Supper Club", "Canteen"],
+    times: ["5pm-11pm", "12pm-10pm", "6pm-12am"],
+    notes: ["West African small plates", "Caribbean soul food", "Live band on weekends"],
+  },
+  "Dinner Party": {
+    nouns: ["Dinner Party", "Supper", "Table"],
+    times: ["7pm-11pm", "7:30pm-11:30pm"],
+    notes: ["Six-course tasting menu", "Long-table dinner with a DJ", "Chef's table, limited seats"],
+  },
+  "Live Music": {
+    nouns: ["Live", "Unplugged", "Showcase", "Sessions Live"],
+    times: ["8pm-11:30pm", "7pm-11pm"],
+    notes: ["Live band and open mic", "New artists every week", "Seated show, doors 7pm"],
+  },
+};
+
+const NEIGHBOURHOODS: Record<string, string[]> = {
+  London: ["Shoreditch", "Peckham", "Brixton", "Dalston", "Hackney Wick", "Soho", "Camden"],
+  Atlanta: ["Midtown", "Buckhead", "Old Fourth Ward", "West End", "Castleberry Hill"],
+  "New York": ["Harlem", "Bed-Stuy", "Williamsburg", "Lower East Side", "Crown Heights"],
+  Lagos: ["Victoria Island", "Lekki", "Ikoyi", "Yaba"],
+  Paris: ["Pigalle", "Oberkampf", "Belleville", "Le Marais"],
+  Accra: ["Osu", "East Legon", "Labadi"],
+};
+
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Brunches and day parties land on weekends, everything else on any evening
+function pickWeekday(random: Random, type: string) {
+  return ["Brunch", "Day Party"].includes(type) ? random.pick(["Saturday", "Sunday"]) : random.pick(WEEKDAY_NAMES.slice(3));
+}
+
+function formatISODate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function syntheticDate(random: Random, kind: RecurrenceKind, type: string, startDate: Date) {
+  switch (kind) {
+    case "weekly":
+      return `every ${pickWeekday(random, type)}`;
+    case "monthly":
+      return `${random.pick(["1st", "2nd", "3rd", "last"])} ${pickWeekday(random, type)} monthly`;
+    case "daily":
+      return "daily";
+    case "once":
+      return formatISODate(new Date(startDate.getTime() + Math.floor(random.next() * 90) * 24 * 60 * 60 * 1000));
+  }
+}
+
+function handleFor(name: string, city: string) {
+  const compact = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, "");
+  return `@${compact(name)}${compact(city).slice(0, 3)}`.slice(0, 30);
+}
+
+function originalEvent(random: Random, options: SyntheticEventOptions, taken: Set<string>, earlier: Event[]): Event {
+  const city = resolveCity(random.pick(options.cities));
+  const type = random.weighted(options.typeMix);
+  const details = TYPE_DETAILS[type] ?? TYPE_DETAILS.Club;
+  const genre = random.pick(GENRES);
+
+  let name = `${genre} ${random.pick(details.nouns)}`;
+  for (let attempt = 0; taken.has(`${name}|${city}`); attempt++) {
+    name = attempt < 5 ? `${random.pick(ADJECTIVES)} ${genre} ${random.pick(details.nouns)}` : `${name} ${attempt}`;
+  }
+  taken.add(`${name}|${city}`);
+
+  const neighbourhood = random.pick(NEIGHBOURHOODS[city] ?? ["City Centre"]);
+  const similar = earlier.filter((event) => event.city === city && event.type === type);
+  return {
+    name,
+    type,
+    date: syntheticDate(random, random.weighted(options.recurrenceMix), type, options.startDate),
+    time: random.pick(details.times),
+    location: `${neighbourhood}, ${city}`,
+    instagram: handleFor(name, city),
+    city,
+    notes: `${genre} ${type.toLowerCase()} in ${neighbourhood}. ${random.pick(details.notes)}`,
+    similarTo: similar.length ? random.pick(similar).name : "",
+  };
+}
+
+// Restates an event the way a second source might list it: the same handle and date under a
+// reworded name, a shorter location or a profile URL instead of the handle
+function nearDuplicate(random: Random, event: Event): Event {
+  const renames = [`The ${event.name}`, `${event.name} ${event.city}`, event.name.toUpperCase(), `${event.name}!`];
+  const weekly = event.date.match(/^every (\w+)$/);
+  const handle = normalizeInstagramHandle(event.instagram);
+  return {
+    ...event,
+    name: random.pick(renames),
+    // "every Saturday" and "Saturdays" are the same schedule
+    date: weekly && random.next() < 0.5 ? `${weekly[1]}s` : event.date,
+    location: random.next() < 0.5 ? event.location.split(",")[0] : event.location,
+    instagram: handle && random.next() < 0.5 ? `https://www.instagram.com/${handle.slice(1)}/` : event.instagram,
+    notes: random.next() < 0.5 ? "" : `${event.notes.replace(/\.?$/, ".")} Tickets on the door.`,
+    similarTo: "",
+  };
+}
+
+// Mixes near-duplicates of earlier rows into `originals` until there are `count` rows
+function withNearDuplicates(random: Random, originals: Event[], count: number): SyntheticDataset {
+  const dataset: SyntheticDataset = { events: [...originals], duplicates: [] };
+  while (dataset.events.length < count && originals.length) {
+    const of = Math.floor(random.next() * dataset.events.length);
+    const source = dataset.duplicates.find((duplicate) => duplicate.index === of)?.of ?? of;
+    const index = Math.floor(random.next() * (dataset.events.length + 1));
+    dataset.events.splice(index, 0, nearDuplicate(random, dataset.events[source]));
+    // Rows at or after the insertion point moved down one
+    const shift = (position: number) => (position >= index ? position + 1 : position);
+    dataset.duplicates = dataset.duplicates.map((duplicate) => ({ index: shift(duplicate.index), of: shift(duplicate.of) }));
+    dataset.duplicates.push({ index, of: shift(source) });
+  }
+  dataset.duplicates.sort((a, b) => a.index - b.index);
+  return dataset;
+}
+
+function duplicateCount(options: SyntheticEventOptions) {
+  return Math.min(Math.round(options.count * options.duplicateRate), Math.max(options.count - 1, 0));
+}
+
+// Generates events offline from word lists. The same options and seed always give the same rows
+export function generateSyntheticEvents(overrides: Partial<SyntheticEventOptions> = {}): SyntheticDataset {
+  const options = { ...DEFAULT_SYNTHETIC_OPTIONS, ...overrides };
+  const random = createRandom(options.seed);
+  const taken = new Set<string>();
+  const originals: Event[] = [];
+  for (let i = 0; i < options.count - duplicateCount(options); i++) {
+    originals.push(originalEvent(random, options, taken, originals));
+  }
+  return withNearDuplicates(random, originals, options.count);
+}
+
+// Asks the generation model for the original events, then adds seeded near-duplicates like the offline mode
+export async function generateEventsWithModel(model: BaseChatModel, overrides: Partial<SyntheticEventOptions> = {}): Promise<SyntheticDataset> {
+  const options = { ...DEFAULT_SYNTHETIC_OPTIONS, ...overrides };
+  const parser = StructuredOutputParser.fromZodSchema(z.array(EventSchema));
+  const weights = (mix: Record<string, number | undefined>) =>
+    Object.entries(mix)
+      .filter(([, weight]) => weight)
+      .map(([key, weight]) => `${key} (weight ${weight})`)
+      .join(", ");
+
+  const prompt = `You are a helpful assistant that generates listings of black events, clubs, day parties, brunches and restaurants. Generate ${options.count - duplicateCount(options)} fictional events, each different from the others.
+  Spread them across these cities: ${options.cities.join(", ")}.
+  Choose each type from: ${weights(options.typeMix)}.
+  Write dates as one of: ${weights(options.recurrenceMix)}. Weekly dates look like "every Saturday", monthly ones like "1st Sunday monthly", daily ones are "daily" and one-off dates are YYYY-MM-DD within 90 days of ${formatISODate(options.startDate)}.
+  Write times like "1pm-7pm", locations as "Neighbourhood, City", instagram as an @handle, and similarTo as the name of another generated event or an empty string.
+
+  ${parser.getFormatInstructions()}`;
+
+  console.log("Generating synthetic events...");
+
+  const response = await withResilience("generation", (signal) => model.invoke(prompt, { signal }));
+  const originals = await parser.parse(response.content as string);
+  return withNearDuplicates(createRandom(options.seed), originals, options.count);
+}
+
+export const EVENT_CSV_COLUMNS: (keyof Event)[] = ["name", "type", "date", "time", "location", "instagram", "city", "notes", "similarTo"];
+
+function csvValue(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Writes events in the events-db.csv layout the seeder reads
+export function toEventsCSV(events: Event[]): string {
+  const rows = events.map((event) => EVENT_CSV_COLUMNS.map((column) => csvValue(event[column] ?? "")).join(","));
+  return [EVENT_CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
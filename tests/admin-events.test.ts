@@ -0,0 +1,75 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { NominatimGeocoder } from "../geocoding";
+import { overrideProviders } from "../providers";
+import { overrideResiliencePolicies } from "../resilience";
+import { getJson, postJson, SAMPLE_EVENTS, startTestServer, TestServer } from "./support/harness";
+
+const ADMIN = { "x-api-key": "admin-secret", "Content-Type": "application/json" };
+
+const [brunch, amapiano] = SAMPLE_EVENTS;
+
+describe("admin events API", () => {
+  let server: TestServer;
+
+  before(async () => {
+    process.env.ADMIN_API_KEY = "admin-secret";
+    server = await startTestServer([]);
+  });
+
+  after(async () => {
+    await server.close();
+    delete process.env.ADMIN_API_KEY;
+  });
+
+  it("pages through events and rejects limits and skips that aren't whole numbers", async () => {
+    const { status, body } = await getJson(`${server.baseUrl}/admin/events?limit=2&skip=1`, ADMIN);
+    assert.equal(status, 200);
+    assert.deepEqual([body.events.length, body.total, body.limit, body.skip], [2, SAMPLE_EVENTS.length, 2, 1]);
+
+    for (const query of ["limit=abc", "limit=0", "skip=-1", "skip=1.5", "limit=2&limit=3"]) {
+      const rejected = await getJson(`${server.baseUrl}/admin/events?${query}`, ADMIN);
+      assert.equal(rejected.status, 400, query);
+      assert.equal(rejected.body.error, "Invalid limit or skip");
+    }
+  });
+
+  it("refuses to rename an event onto another event's name, city and date", async () => {
+    const { body } = await getJson(`${server.baseUrl}/admin/events?limit=200`, ADMIN);
+    const target = body.events.find((event: any) => event.name === amapiano.name);
+
+    const renamed = await fetch(`${server.baseUrl}/admin/events/${target._id}`, {
+      method: "PATCH",
+      headers: ADMIN,
+      body: JSON.stringify({ name: brunch.name, date: brunch.date }),
+    });
+    assert.equal(renamed.status, 409);
+    assert.equal((await getJson(`${server.baseUrl}/admin/events/${target._id}`, ADMIN)).body.event.name, amapiano.name);
+
+    const edited = await fetch(`${server.baseUrl}/admin/events/${target._id}`, {
+      method: "PATCH",
+      headers: ADMIN,
+      body: JSON.stringify({ notes: "Now with a live band" }),
+    });
+    assert.equal(edited.status, 200);
+    assert.equal((await edited.json()).event.notes, "Now with a live band");
+  });
+
+  it("saves events without a location rather than waiting on a geocoder that hangs", async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (input, init) =>
+      String(input).startsWith("http://nominatim.test")
+        ? new Promise((_, reject) => init?.signal?.addEventListener("abort", () => reject(init.signal?.reason)))
+        : originalFetch(input, init);
+    overrideProviders({ geocoder: new NominatimGeocoder("http://nominatim.test") });
+    overrideResiliencePolicies({ geocoding: { timeoutMs: 50, retries: 0 } });
+
+    try {
+      const created = await postJson(`${server.baseUrl}/admin/events`, { ...brunch, name: "Hanging Geocoder Brunch" }, ADMIN);
+      assert.equal(created.status, 201);
+      assert.equal(created.body.event.geo, null);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
@@ -0,0 +1,160 @@
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { verifyJwt } from "../auth";
+import { getJson, postJson, startTestServer, TestServer } from "./support/harness";
+
+const JWT_SECRET = "test-jwt-secret";
+const ADMIN = { "x-api-key": "admin-secret" };
+
+function signJwt(claims: Record<string, unknown>, secret = JWT_SECRET) {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const unsigned = `${encode({ alg: "HS256", typ: "JWT" })}.${encode(claims)}`;
+  return `${unsigned}.${createHmac("sha256", secret).update(unsigned).digest("base64url")}`;
+}
+
+const bearer = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+describe("JWT verification", () => {
+  it("accepts valid tokens and rejects forged or expired ones", () => {
+    const now = Date.now();
+    const exp = Math.floor(now / 1000) + 60;
+
+    assert.equal(verifyJwt(signJwt({ sub: "ada", exp }), JWT_SECRET, now), "ada");
+    assert.equal(verifyJwt(signJwt({ sub: "ada", exp }, "wrong"), JWT_SECRET, now), null);
+    assert.equal(verifyJwt(signJwt({ sub: "ada", exp: exp - 120 }), JWT_SECRET, now), null);
+    assert.equal(verifyJwt(signJwt({ sub: "not a user id!" }), JWT_SECRET, now), null);
+  });
+});
+
+describe("API authentication", () => {
+  let server: TestServer;
+
+  const createKey = async (body: Record<string, unknown>) => {
+    const { status, body: created } = await postJson(`${server.baseUrl}/admin/api-keys`, body, ADMIN);
+    assert.equal(status, 201);
+    return { headers: { "x-api-key": created.key as string }, keyId: created.keyId as string };
+  };
+
+  before(() => {
+    process.env.ADMIN_API_KEY = "admin-secret";
+  });
+
+  after(() => {
+    delete process.env.ADMIN_API_KEY;
+  });
+
+  beforeEach(async () => {
+    server = await startTestServer([{ match: () => true, reply: () => "RECOMMENDATIONS\nHello." }], {
+      auth: { jwtSecret: JWT_SECRET },
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("requires an API key or JWT", async () => {
+    const anonymous = await postJson(`${server.baseUrl}/chat`, { message: "Hi" });
+    assert.equal(anonymous.status, 401);
+    assert.equal(anonymous.headers.get("www-authenticate"), "Bearer");
+
+    const { headers: key, keyId } = await createKey({ userId: "ada" });
+    assert.equal((await postJson(`${server.baseUrl}/chat`, { message: "Hi" }, key)).status, 200);
+
+    const token = signJwt({ sub: "grace", exp: Math.floor(Date.now() / 1000) + 60 });
+    assert.equal((await postJson(`${server.baseUrl}/chat`, { message: "Hi" }, bearer(token))).status, 200);
+
+    const revoked = await fetch(`${server.baseUrl}/admin/api-keys/${keyId}`, { method: "DELETE", headers: ADMIN });
+    assert.equal(revoked.status, 204);
+    assert.equal((await postJson(`${server.baseUrl}/chat`, { message: "Hi" }, key)).status, 401);
+  });
+
+  it("keeps threads and profiles to the user who owns them", async () => {
+    const ada = (await createKey({ userId: "ada" })).headers;
+    const grace = bearer(signJwt({ sub: "grace" }));
+
+    const started = await postJson(`${server.baseUrl}/chat`, { message: "Hi" }, ada);
+    const { threadId } = started.body;
+
+    assert.equal((await postJson(`${server.baseUrl}/chat/${threadId}`, { message: "Hi" }, ada)).status, 200);
+    assert.equal((await postJson(`${server.baseUrl}/chat/${threadId}`, { message: "Hi" }, grace)).status, 403);
+    assert.equal((await getJson(`${server.baseUrl}/threads/${threadId}`, grace)).status, 403);
+    assert.equal((await getJson(`${server.baseUrl}/threads/${threadId}`, ada)).status, 200);
+
+    assert.deepEqual((await getJson(`${server.baseUrl}/threads`, grace)).body.threads, []);
+    assert.equal((await getJson(`${server.baseUrl}/threads`, ada)).body.threads[0].ownerId, "ada");
+
+    const impersonating = await postJson(`${server.baseUrl}/chat`, { message: "Hi", userId: "ada" }, grace);
+    assert.equal(impersonating.status, 403);
+    assert.equal((await getJson(`${server.baseUrl}/users/ada/profile`, grace)).status, 403);
+  });
+
+  it("refuses threads that ran without an owner instead of letting someone claim them", async () => {
+    const ada = (await createKey({ userId: "ada" })).headers;
+    const legacyId = "1700000000000";
+    await server.client.db("events_database").collection("checkpoints").insertOne({ thread_id: legacyId, checkpoint_id: "1" });
+
+    assert.equal((await postJson(`${server.baseUrl}/chat/${legacyId}`, { message: "Hi" }, ada)).status, 403);
+    assert.equal((await getJson(`${server.baseUrl}/threads/${legacyId}`, ada)).status, 403);
+    assert.equal((await getJson(`${server.baseUrl}/traces/${legacyId}`, ada)).status, 403);
+    assert.equal(await server.client.db("events_database").collection("threads").countDocuments({ threadId: legacyId }), 0);
+
+    // A brand-new id can still be started, and is then the starter's
+    const fresh = await postJson(`${server.baseUrl}/chat/ada-new-thread`, { message: "Hi" }, ada);
+    assert.equal(fresh.status, 200);
+    assert.equal((await getJson(`${server.baseUrl}/threads/ada-new-thread`, ada)).status, 200);
+  });
+
+  it("keeps itineraries to the user who created them", async () => {
+    const ada = (await createKey({ userId: "ada" })).headers;
+    const grace = bearer(signJwt({ sub: "grace" }));
+
+    const created = await postJson(
+      `${server.baseUrl}/itineraries`,
+      { city: "London", dateFrom: "2027-03-06", dateTo: "2027-03-07", eventIds: ["0123456789abcdef01234567"] },
+      ada
+    );
+    assert.equal(created.status, 201);
+    const { itineraryId } = created.body.itinerary;
+
+    assert.equal((await getJson(`${server.baseUrl}/itineraries/${itineraryId}`, ada)).status, 200);
+    assert.equal((await getJson(`${server.baseUrl}/itineraries/${itineraryId}`, grace)).status, 403);
+    assert.equal((await getJson(`${server.baseUrl}/itineraries/${itineraryId}/export`, grace)).status, 403);
+
+    // Ones built in a chat follow the thread's owner
+    const { threadId } = (await postJson(`${server.baseUrl}/chat`, { message: "Hi" }, ada)).body;
+    await server.client
+      .db("events_database")
+      .collection("itineraries")
+      .updateOne({ itineraryId }, { $set: { threadId }, $unset: { ownerId: "" } });
+    assert.equal((await getJson(`${server.baseUrl}/itineraries/${itineraryId}`, ada)).status, 200);
+    assert.equal((await getJson(`${server.baseUrl}/itineraries/${itineraryId}`, grace)).status, 403);
+  });
+
+  it("limits requests per minute for each key", async () => {
+    const key = (await createKey({ userId: "ada", requestsPerMinute: 2 })).headers;
+
+    assert.equal((await getJson(`${server.baseUrl}/threads`, key)).status, 200);
+    assert.equal((await getJson(`${server.baseUrl}/threads`, key)).status, 200);
+
+    const limited = await getJson(`${server.baseUrl}/threads`, key);
+    assert.equal(limited.status, 429);
+    assert.equal(limited.body.error, "Too many requests");
+
+    const other = (await createKey({ userId: "grace" })).headers;
+    assert.equal((await getJson(`${server.baseUrl}/threads`, other)).status, 200);
+  });
+
+  it("stops chats once a key has used its tokens for the hour", async () => {
+    const key = (await createKey({ userId: "ada", tokensPerHour: 50 })).headers;
+
+    // The limit is checked before each run, so the run that crosses it still completes
+    assert.equal((await postJson(`${server.baseUrl}/chat`, { message: "Hi" }, key)).status, 200);
+
+    const limited = await postJson(`${server.baseUrl}/chat`, { message: "Hi" }, key);
+    assert.equal(limited.status, 429);
+    assert.equal(limited.body.error, "Token limit exceeded");
+    assert.ok(Number(limited.headers.get("retry-after")) > 0);
+  });
+});
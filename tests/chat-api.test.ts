@@ -0,0 +1,227 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { messageText } from "../agent-stream";
+import { ScriptContext, ScriptRule } from "../fake-providers";
+import { getJson, postJson, startTestServer, TestServer } from "./support/harness";
+
+const lastMessage = (context: ScriptContext) => context.messages[context.messages.length - 1];
+
+// Turns seen by the agent model, so tests can check what history it was given
+const agentCalls: ScriptContext[] = [];
+
+const rules: ScriptRule[] = [
+  {
+    match: ({ prompt }) => prompt.includes("You extract structured event recommendations"),
+    // In content blocks, as Anthropic's tool-capable models reply
+    reply: ({ prompt }) => {
+      const id = prompt.match(/"_id":"([a-f0-9]{24})"/)?.[1];
+      const text = JSON.stringify({
+        recommendations: [
+          {
+            eventId: id,
+            name: "Afrobeats Brunch",
+            type: "Brunch",
+            date: "every Saturday",
+            time: "1pm-7pm",
+            location: "Shoreditch, London",
+            city: "London",
+            instagramUrl: "@afrobeatsbrunch",
+            source: "database",
+            verificationStatus: "verified",
+          },
+          {
+            eventId: "0123456789abcdef01234567",
+            name: "Invented Venue",
+            type: "Club",
+            date: "",
+            time: "",
+            location: "",
+            city: "London",
+            instagramUrl: null,
+            source: "database",
+            verificationStatus: "not_checked",
+          },
+        ],
+      });
+      return { content: [{ type: "text", text }] };
+    },
+  },
+  {
+    match: (context) => lastMessage(context)._getType() === "human",
+    reply: (context) => {
+      agentCalls.push(context);
+      const text = messageText(lastMessage(context).content);
+      if (text.includes("explode")) {
+        throw Object.assign(new Error("model unavailable"), { status: 503 });
+      }
+      return text.includes("London")
+        ? { toolCalls: [{ name: "events_lookup", args: { query: "brunch", city: "London" } }] }
+        : "Which city would you like recommendations for?";
+    },
+  },
+  {
+    match: (context) => lastMessage(context)._getType() === "tool",
+    reply: (context) => {
+      const results = JSON.parse(messageText(lastMessage(context).content));
+      return `RECOMMENDATIONS\n${results.map(([doc]: any) => `- ${doc.metadata.name} (${doc.metadata.city})`).join("\n")}`;
+    },
+  },
+];
+
+describe("chat API", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer(rules);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("starts a thread, routes through events_lookup and returns validated recommendations", async () => {
+    const { status, body } = await postJson(`${server.baseUrl}/chat`, { message: "Brunch in London this weekend?" });
+
+    assert.equal(status, 200);
+    assert.match(body.threadId, /^[0-9a-f-]{36}$/);
+    assert.match(body.response, /^RECOMMENDATIONS/);
+    assert.match(body.response, /Afrobeats Brunch \(London\)/);
+    // The city pre-filter keeps the Atlanta brunch out
+    assert.doesNotMatch(body.response, /Atlanta/);
+
+    assert.equal(body.recommendations.length, 2);
+    assert.match(body.recommendations[0].eventId, /^[a-f0-9]{24}$/);
+    assert.equal(body.recommendations[0].instagramUrl, "https://www.instagram.com/afrobeatsbrunch/");
+    // Ids that weren't in the tool results are dropped, and nothing was checked on the web
+    assert.equal(body.recommendations[1].eventId, null);
+    assert.equal(body.recommendations[0].verificationStatus, "not_checked");
+  });
+
+  it("ends the run without calling tools when the model asks a question", async () => {
+    const { status, body } = await postJson(`${server.baseUrl}/chat`, { message: "Any brunches?" });
+
+    assert.equal(status, 200);
+    assert.equal(body.response, "Which city would you like recommendations for?");
+    assert.deepEqual(body.recommendations, []);
+
+    const thread = await getJson(`${server.baseUrl}/threads/${body.threadId}`);
+    assert.deepEqual(
+      thread.body.messages.map((message: any) => message.role),
+      ["human", "ai"]
+    );
+  });
+
+  it("continues a thread with its earlier messages and exposes the history", async () => {
+    const first = await postJson(`${server.baseUrl}/chat`, { message: "Any brunches?" });
+    const callsBefore = agentCalls.length;
+
+    const second = await postJson(`${server.baseUrl}/chat/${first.body.threadId}`, { message: "I'll be in London" });
+    assert.equal(second.status, 200);
+    assert.deepEqual(Object.keys(second.body).sort(), ["recommendations", "response"]);
+    assert.match(second.body.response, /Afrobeats Brunch/);
+
+    // The model saw the first exchange before the new message
+    const secondTurn = agentCalls[callsBefore];
+    assert.deepEqual(
+      secondTurn.messages.filter((message) => message._getType() !== "system").map((message) => messageText(message.content)),
+      ["Any brunches?", "Which city would you like recommendations for?", "I'll be in London"]
+    );
+
+    const thread = await getJson(`${server.baseUrl}/threads/${first.body.threadId}`);
+    assert.equal(thread.status, 200);
+    assert.deepEqual(
+      thread.body.messages.map((message: any) => message.role),
+      ["human", "ai", "human", "ai", "tool", "ai"]
+    );
+    assert.equal(thread.body.messages[3].toolCalls[0].name, "events_lookup");
+    assert.equal(thread.body.messages[4].toolName, "events_lookup");
+  });
+
+  it("rejects chats without a message", async () => {
+    const { body } = await postJson(`${server.baseUrl}/chat`, { message: "Any brunches?" });
+
+    for (const payload of [{}, { message: 42 }, { message: "  " }]) {
+      for (const path of ["/chat", `/chat/${body.threadId}`, "/chat/hr"]) {
+        const rejected = await postJson(`${server.baseUrl}${path}`, payload);
+        assert.equal(rejected.status, 400, `${path} ${JSON.stringify(payload)}`);
+        assert.equal(rejected.body.error, "message is required");
+      }
+    }
+  });
+
+  it("refuses thread ids named after a domain, which /chat/:domain would shadow", async () => {
+    for (const path of ["/chat/events/hr", "/chat/hr/events", "/chat/events/events/stream"]) {
+      const rejected = await postJson(`${server.baseUrl}${path}`, { message: "Any brunches?" });
+      assert.equal(rejected.status, 400, path);
+      assert.equal(rejected.body.error, "Thread ids cannot be domain names");
+    }
+  });
+
+  it("lists and deletes threads", async () => {
+    const { body } = await postJson(`${server.baseUrl}/chat`, { message: "Any brunches?" });
+
+    const list = await getJson(`${server.baseUrl}/threads`);
+    assert.equal(list.body.threads[0].threadId, body.threadId);
+
+    const deleted = await fetch(`${server.baseUrl}/threads/${body.threadId}`, { method: "DELETE" });
+    assert.equal(deleted.status, 204);
+
+    const missing = await getJson(`${server.baseUrl}/threads/${body.threadId}`);
+    assert.equal(missing.status, 404);
+  });
+
+  it("pages through threads and rejects limits and skips that aren't whole numbers", async () => {
+    await postJson(`${server.baseUrl}/chat`, { message: "Any brunches?" });
+    await postJson(`${server.baseUrl}/chat`, { message: "Any brunches?" });
+
+    const page = await getJson(`${server.baseUrl}/threads?limit=1&skip=1`);
+    assert.equal(page.status, 200);
+    assert.equal(page.body.threads.length, 1);
+
+    for (const query of ["limit=abc", "limit=0", "skip=-1", "skip=1.5"]) {
+      const rejected = await getJson(`${server.baseUrl}/threads?${query}`);
+      assert.equal(rejected.status, 400, query);
+      assert.equal(rejected.body.error, "Invalid limit or skip");
+    }
+  });
+
+  it("answers with the failed step when the model keeps failing", async () => {
+    const callsBefore = agentCalls.length;
+    const { status, body } = await postJson(`${server.baseUrl}/chat`, { message: "explode" });
+
+    assert.equal(status, 200);
+    assert.equal(body.response, "I'm sorry, I couldn't answer that because the language model failed. Please try again in a moment.");
+    assert.deepEqual(body.degraded, [{ step: "model", reason: "error" }]);
+    // The first call and both retries
+    assert.equal(agentCalls.length - callsBefore, 3);
+
+    const [trace] = (await getJson(`${server.baseUrl}/traces/${body.threadId}`)).body.traces;
+    assert.equal(trace.status, "degraded");
+    assert.deepEqual(trace.degraded, [{ step: "model", reason: "error" }]);
+  });
+
+  it("streams tool activity, tokens and the final answer as server-sent events", async () => {
+    const response = await fetch(`${server.baseUrl}/chat/stream-thread/stream`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ message: "Brunch in London" }),
+    });
+    assert.equal(response.headers.get("content-type"), "text/event-stream");
+
+    const events = (await response.text())
+      .trim()
+      .split("\n\n")
+      .map((block) => JSON.parse(block.split("\n")[1].slice("data: ".length)));
+    const types = events.map((event) => event.type);
+
+    assert.equal(types[0], "events_lookup_start");
+    assert.equal(events[0].query, "brunch");
+    assert.equal(types[1], "tool_result");
+    assert.ok(types.includes("token"));
+    assert.equal(types[types.length - 1], "final");
+    assert.equal(
+      events.filter((event) => event.type === "token").map((event) => event.content).join(""),
+      events[events.length - 1].content
+    );
+  });
+});
@@ -0,0 +1,130 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { messageText } from "../agent-stream";
+import { EMBEDDING_KEY, TEXT_KEY, createDomainTools, domainCollection, hrProfile } from "../domain-profiles";
+import { ScriptContext, ScriptRule } from "../fake-providers";
+import { Employee } from "../hr-directory";
+import { getEmbeddings } from "../providers";
+import { overrideResiliencePolicies, withResilience } from "../resilience";
+import { getJson, postJson, startTestServer, TestServer } from "./support/harness";
+
+const employee = (fields: { employee_id: string; first_name: string; last_name: string; job_title: string; skills: string[] }): Employee => ({
+  employee_id: fields.employee_id,
+  first_name: fields.first_name,
+  last_name: fields.last_name,
+  date_of_birth: "1990-04-12",
+  address: { street: "1 Main St", city: "London", state: "", postal_code: "E1 6AA", country: "UK" },
+  contact_details: { email: `${fields.first_name.toLowerCase()}@example.com`, phone_number: "+44 20 7946 0000" },
+  job_details: {
+    job_title: fields.job_title,
+    department: "Engineering",
+    hire_date: "2021-09-01",
+    employment_type: "Full-time",
+    salary: 85000,
+    currency: "GBP",
+  },
+  work_location: { nearest_office: "London", is_remote: false },
+  reporting_manager: null,
+  skills: fields.skills,
+  performance_reviews: [],
+  benefits: { health_insurance: "Bupa", retirement_plan: "Pension", paid_time_off: 25 },
+  emergency_contact: { name: "Sam", relationship: "Partner", phone_number: "+44 20 7946 0001" },
+  notes: "",
+});
+
+const EMPLOYEES = [
+  employee({ employee_id: "E001", first_name: "Ada", last_name: "Okafor", job_title: "Data Engineer", skills: ["Python", "Spark"] }),
+  employee({ employee_id: "E002", first_name: "Kwame", last_name: "Mensah", job_title: "Designer", skills: ["Figma"] }),
+];
+
+const lastMessage = (context: ScriptContext) => context.messages[context.messages.length - 1];
+
+const rules: ScriptRule[] = [
+  {
+    match: (context) => context.toolNames.includes("employee_lookup") && lastMessage(context)._getType() === "human",
+    reply: () => ({ toolCalls: [{ name: "employee_lookup", args: { query: "data engineer who knows Spark", n: 1 } }] }),
+  },
+  {
+    match: (context) => context.toolNames.includes("employee_lookup") && lastMessage(context)._getType() === "tool",
+    reply: (context) => {
+      const [[doc]] = JSON.parse(messageText(lastMessage(context).content));
+      return `${doc.metadata.first_name} ${doc.metadata.last_name} is a ${doc.metadata.job_details.job_title}`;
+    },
+  },
+  {
+    match: (context) => lastMessage(context)._getType() === "human",
+    reply: (context) => `Events agent with ${context.toolNames.join(", ")}`,
+  },
+];
+
+describe("domain profiles", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer(rules);
+    const summaries = await Promise.all(EMPLOYEES.map(hrProfile.summarize));
+    const embeddings = await getEmbeddings().embedDocuments(summaries);
+    await domainCollection(server.client, hrProfile).insertMany(
+      EMPLOYEES.map((record, index) => ({ ...record, [TEXT_KEY]: summaries[index], [EMBEDDING_KEY]: embeddings[index] }))
+    );
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("answers from the HR directory on /chat/hr", async () => {
+    const { status, body } = await postJson(`${server.baseUrl}/chat/hr`, { message: "Who knows Spark?" });
+
+    assert.equal(status, 200);
+    assert.equal(body.response, "Ada Okafor is a Data Engineer");
+    assert.deepEqual(body.recommendations, []);
+
+    const trace = await getJson(`${server.baseUrl}/traces/${body.threadId}`);
+    assert.equal(trace.body.traces[0].domain, "hr");
+    assert.deepEqual(trace.body.traces[0].toolCalls.map((call: any) => call.tool), ["employee_lookup"]);
+  });
+
+  it("keeps salaries, birth dates, reviews and emergency contacts out of lookups", async () => {
+    const [lookup] = createDomainTools(hrProfile, server.client);
+    const [[doc]] = JSON.parse(await lookup.invoke({ query: "data engineer who knows Spark", n: 1 }));
+
+    assert.equal(doc.metadata.job_details.job_title, "Data Engineer");
+    for (const path of ["date_of_birth", "performance_reviews", "emergency_contact"]) {
+      assert.equal(doc.metadata[path], undefined, path);
+    }
+    assert.equal(doc.metadata.job_details.salary, undefined);
+    assert.doesNotMatch(doc.pageContent, /1990-04-12/);
+  });
+
+  it("runs lookups under the Atlas Search policy", async () => {
+    const [lookup] = createDomainTools(hrProfile, server.client);
+    overrideResiliencePolicies({ atlas_search: { retries: 0, failureThreshold: 1 } });
+    await assert.rejects(withResilience("atlas_search", () => Promise.reject(Object.assign(new Error("Service Unavailable"), { status: 503 }))));
+
+    const refused = JSON.parse(await lookup.invoke({ query: "data engineer who knows Spark", n: 1 }));
+    assert.deepEqual(refused, { message: "NO_RESULTS_FOUND", error: "Atlas Search unavailable (circuit open)" });
+
+    overrideResiliencePolicies({ atlas_search: { resetMs: 0, failureThreshold: 5 } });
+    const [[doc]] = JSON.parse(await lookup.invoke({ query: "data engineer who knows Spark", n: 1 }));
+    assert.equal(doc.metadata.first_name, "Ada");
+  });
+
+  it("keeps the events agent on /chat and /chat/events", async () => {
+    for (const path of ["/chat", "/chat/events"]) {
+      const { body } = await postJson(`${server.baseUrl}${path}`, { message: "Hi" });
+      assert.equal(body.response, "Events agent with events_lookup, events_nearby, create_itinerary");
+    }
+  });
+
+  it("refuses to continue a thread in another domain", async () => {
+    const { body } = await postJson(`${server.baseUrl}/chat/hr`, { message: "Who knows Spark?" });
+
+    const events = await postJson(`${server.baseUrl}/chat/${body.threadId}`, { message: "Any brunches?" });
+    assert.equal(events.status, 409);
+    assert.equal(events.body.error, "Thread was not started in the events domain");
+
+    const followUp = await postJson(`${server.baseUrl}/chat/hr/${body.threadId}`, { message: "And Figma?" });
+    assert.equal(followUp.status, 200);
+  });
+});
@@ -0,0 +1,210 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { messageText } from "../agent-stream";
+import { callAgent } from "../agent-events";
+import { domainCollection, eventsProfile } from "../domain-profiles";
+import { createEventSummary, eventKeyFor } from "../event-documents";
+import {
+  EvalReport,
+  GoldenCaseSchema,
+  checkAnswer,
+  diffReports,
+  evalFixtureProfile,
+  evaluateAnswers,
+  evaluateRetrieval,
+  loadEvalFixture,
+  loadGoldenFile,
+  recallAtK,
+  reciprocalRank,
+} from "../evaluation";
+import { HashEmbeddings, ScriptContext, ScriptRule } from "../fake-providers";
+import { overrideProviders } from "../providers";
+import { SAMPLE_EVENTS, startTestServer, TestServer } from "./support/harness";
+
+const [brunch, amapiano, atlanta] = SAMPLE_EVENTS;
+
+const goldenCase = (fields: Record<string, unknown>) => GoldenCaseSchema.parse({ id: "case", query: "brunch", ...fields });
+
+const lastMessage = (context: ScriptContext) => context.messages[context.messages.length - 1];
+
+const rules: ScriptRule[] = [
+  {
+    match: ({ prompt }) => prompt.includes("You extract structured event recommendations"),
+    reply: ({ prompt }) =>
+      JSON.stringify({
+        recommendations: [
+          {
+            eventId: prompt.match(/"_id":"([a-f0-9]{24})"/)?.[1],
+            name: "Afrobeats Brunch",
+            type: "Brunch",
+            date: "every Saturday",
+            time: "1pm-7pm",
+            location: "Shoreditch, London",
+            city: "London",
+            instagramUrl: "@afrobeatsbrunch",
+            source: "database",
+            verificationStatus: "not_checked",
+          },
+        ],
+      }),
+  },
+  {
+    match: (context) => lastMessage(context)._getType() === "human",
+    reply: (context) =>
+      messageText(lastMessage(context).content).includes("London")
+        ? { toolCalls: [{ name: "events_lookup", args: { query: "brunch", city: "London" } }] }
+        : "Which city would you like recommendations for?",
+  },
+  {
+    match: (context) => lastMessage(context)._getType() === "tool",
+    // Leaves out the Instagram link the prompt asks for
+    reply: () => "RECOMMENDATIONS\n- Afrobeats Brunch, every Saturday in Shoreditch",
+  },
+];
+
+describe("evaluation metrics and checks", () => {
+  it("loads the versioned golden queries", () => {
+    const golden = loadGoldenFile("./evals/golden-queries.json");
+    assert.equal(golden.version, 1);
+    assert.ok(golden.cases.some((candidate) => candidate.shouldAskForCity));
+    assert.ok(golden.cases.every((candidate) => candidate.shouldAskForCity || candidate.expectedEventIds.length));
+  });
+
+  it("computes recall@k and reciprocal rank", () => {
+    assert.equal(recallAtK([1, null], 5), 0.5);
+    assert.equal(recallAtK([2, 6], 5), 0.5);
+    assert.equal(reciprocalRank([3, 2]), 0.5);
+    assert.equal(reciprocalRank([null]), 0);
+  });
+
+  it("checks answers for links, city and clarifying questions", () => {
+    const recommendation = {
+      eventId: null,
+      name: "Peach State Brunch",
+      type: "Brunch",
+      date: "every Sunday",
+      time: "12pm-5pm",
+      location: "Midtown, Atlanta",
+      city: "Atlanta",
+      instagramUrl: "https://www.instagram.com/peachstatebrunch/",
+      source: "database" as const,
+      verificationStatus: "not_checked" as const,
+    };
+    const linked = { response: "Try [Peach State Brunch](https://www.instagram.com/PeachStateBrunch/)", recommendations: [recommendation] };
+
+    assert.deepEqual(checkAnswer(goldenCase({ expectedCity: "ATL" }), linked, ["Peach State Brunch"]), [
+      { name: "instagram_links", passed: true },
+      { name: "city", passed: true },
+      { name: "expected_events", passed: true },
+    ]);
+    assert.deepEqual(checkAnswer(goldenCase({ expectedCity: "London" }), { ...linked, response: "Peach State Brunch" }), [
+      { name: "instagram_links", passed: false, detail: "No link for Peach State Brunch" },
+      { name: "city", passed: false, detail: "Not in London: Peach State Brunch" },
+    ]);
+    assert.deepEqual(checkAnswer(goldenCase({ shouldAskForCity: true }), linked), [
+      { name: "asks_for_city", passed: false, detail: "Recommended without asking for a city" },
+    ]);
+  });
+
+  it("diffs a run against the previous one", () => {
+    const report = (recall: number, passed: boolean): EvalReport => ({
+      goldenVersion: 1,
+      createdAt: "2026-10-01T00:00:00.000Z",
+      k: 5,
+      retrieval: { recallAtK: recall, mrr: recall, cases: [{ id: "brunch", ranks: [], recall, reciprocalRank: recall, retrieved: [] }] },
+      answers: { passRate: passed ? 1 : 0, cases: [{ id: "brunch", passed, checks: [{ name: "city", passed }], response: "" }] },
+    });
+
+    assert.deepEqual(diffReports(report(1, true), report(0.5, false)), [
+      "recall@5: 1.000 -> 0.500 (-0.500)",
+      "MRR: 1.000 -> 0.500 (-0.500)",
+      "answer pass rate: 1.000 -> 0.000 (-1.000)",
+      "  brunch recall: 1.000 -> 0.500 (-0.500)",
+      "  brunch city: passed -> failed",
+    ]);
+    assert.deepEqual(diffReports(report(1, true), report(1, true)), ["No changes since the previous run"]);
+  });
+});
+
+describe("evaluation runs", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer(rules);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("scores retrieval by _id or eventKey", async () => {
+    const collection = domainCollection(server.client, eventsProfile);
+    const stored = await collection.findOne({ name: amapiano.name });
+    const retrieval = await evaluateRetrieval(
+      collection,
+      [
+        // The scripted embeddings only match identical text, so the summary itself finds the event first
+        goldenCase({ id: "exact", query: await createEventSummary(brunch), expectedEventIds: [eventKeyFor(brunch)] }),
+        goldenCase({ id: "by-id", query: await createEventSummary(amapiano), expectedEventIds: [String(stored!._id), eventKeyFor(atlanta)] }),
+        goldenCase({ id: "ask", shouldAskForCity: true }),
+      ],
+      1
+    );
+
+    assert.deepEqual(
+      retrieval.cases.map(({ id, ranks, recall }) => ({ id, ranks, recall })),
+      [
+        { id: "exact", ranks: [1], recall: 1 },
+        { id: "by-id", ranks: [1, null], recall: 0.5 },
+      ]
+    );
+    assert.equal(retrieval.recallAtK, 0.75);
+    assert.equal(retrieval.mrr, 1);
+  });
+
+  it("loads the fixture events into a collection of their own", async () => {
+    const embeddings = new HashEmbeddings();
+    let embeddingRequests = 0;
+    const embedDocuments = embeddings.embedDocuments.bind(embeddings);
+    embeddings.embedDocuments = (texts) => {
+      embeddingRequests++;
+      return embedDocuments(texts);
+    };
+    overrideProviders({ embeddings });
+    const count = await loadEvalFixture(server.client);
+    overrideProviders({ embeddings: new HashEmbeddings() });
+    // The whole fixture fits in one batch
+    assert.equal(embeddingRequests, 1);
+
+    const fixture = domainCollection(server.client, evalFixtureProfile);
+    const [first] = await fixture.find({}).toArray();
+
+    assert.equal(await fixture.countDocuments({}), count);
+    assert.equal(await domainCollection(server.client, eventsProfile).countDocuments({}), SAMPLE_EVENTS.length);
+    const retrieval = await evaluateRetrieval(fixture, [goldenCase({ query: first.embedding_text, expectedEventIds: [first.eventKey] })], 1);
+    assert.deepEqual(retrieval.cases[0].ranks, [1]);
+
+    await assert.rejects(loadEvalFixture(server.client, eventsProfile), /Refusing to replace the live events/);
+  });
+
+  it("runs the agent on throwaway threads and checks each answer", async () => {
+    const answers = await evaluateAnswers(
+      server.client,
+      [
+        goldenCase({ id: "brunch-london", query: "Brunch in London?", expectedCity: "London", expectedEventIds: [eventKeyFor(brunch)] }),
+        goldenCase({ id: "no-city", query: "Any brunches?", shouldAskForCity: true }),
+      ],
+      callAgent
+    );
+
+    assert.deepEqual(
+      answers.cases.map(({ id, passed, checks }) => ({ id, passed, failed: checks.filter((check) => !check.passed).map((check) => check.name) })),
+      [
+        { id: "brunch-london", passed: false, failed: ["instagram_links"] },
+        { id: "no-city", passed: true, failed: [] },
+      ]
+    );
+    assert.equal(answers.passRate, 0.5);
+    assert.equal(await server.client.db("events_database").collection("checkpoints").countDocuments({}), 0);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { groupDuplicates, isDuplicateEvent, mergeEvents } from "../event-dedup";
+import { Event } from "../event-documents";
+import { Recommendation, dedupeRecommendations } from "../recommendations";
+
+const event = (fields: Partial<Event>): Event => ({
+  name: "Afrobeats Brunch",
+  type: "Brunch",
+  date: "every Saturday",
+  time: "1pm-7pm",
+  location: "Shoreditch, London",
+  instagram: "@afrobeatsbrunch",
+  city: "London",
+  notes: "",
+  similarTo: "",
+  ...fields,
+});
+
+const recommendation = (fields: Partial<Recommendation>): Recommendation => ({
+  eventId: null,
+  name: "Afrobeats Brunch",
+  type: "Brunch",
+  date: "every Saturday",
+  time: "1pm-7pm",
+  location: "Shoreditch, London",
+  city: "London",
+  instagramUrl: null,
+  source: "web",
+  verificationStatus: "not_checked",
+  ...fields,
+});
+
+describe("event deduplication", () => {
+  it("matches listings of the same event across naming, city and handle variations", () => {
+    const brunch = event({});
+    assert.ok(isDuplicateEvent(brunch, event({ name: "The Afrobeats Brunch London", city: "ldn", instagram: "https://www.instagram.com/AfrobeatsBrunch/" })));
+    // A shared handle tolerates a looser name
+    assert.ok(isDuplicateEvent(brunch, event({ name: "Afrobeats Brunch Bottomless Edition" })));
+    assert.ok(isDuplicateEvent(event({ name: "Amapiano Sunday", instagram: "", date: "1st Sunday monthly" }), event({ name: "Amapiano Sundays", instagram: "", date: "1st Sunday monthly" })));
+    assert.ok(isDuplicateEvent(event({ date: "2025-06-14" }), event({ date: "14 Jun" })));
+  });
+
+  it("keeps lookalike events apart", () => {
+    const brunch = event({});
+    assert.ok(!isDuplicateEvent(brunch, event({ name: "Bottomless Afrobeats Brunch Club", instagram: "@brunchclubldn" })));
+    assert.ok(!isDuplicateEvent(brunch, event({ city: "Atlanta", location: "Midtown, Atlanta" })));
+    assert.ok(!isDuplicateEvent(brunch, event({ date: "every Sunday" })));
+    assert.ok(!isDuplicateEvent(event({ instagram: "" }), event({ name: "Afrobeats Brunch Bottomless Edition", instagram: "" })));
+  });
+
+  it("doesn't chain events with different handles together through a listing without one", () => {
+    const listings = [
+      event({ name: "Afro Night", instagram: "@afronight_peckham", location: "Peckham, London" }),
+      event({ name: "Afro Nights", instagram: "", location: "London" }),
+      event({ name: "Afro Night", instagram: "@afronight_dalston", location: "Dalston, London" }),
+    ];
+
+    assert.deepEqual(
+      groupDuplicates(listings, (listing) => listing).map((group) => group.map((listing) => listing.instagram)),
+      [["@afronight_peckham", ""], ["@afronight_dalston"]]
+    );
+  });
+
+  it("merges duplicates into the most complete listing with provenance", () => {
+    const records = [
+      { event: event({ time: "", notes: "Bottomless" }), provenance: { source: "events-db.csv", line: 2, name: "Afrobeats Brunch" } },
+      { event: event({ name: "Amapiano Sundays", date: "1st Sunday monthly", instagram: "@amapianosundays" }), provenance: { source: "events-db.csv", line: 3, name: "Amapiano Sundays" } },
+      { event: event({ name: "Afrobeats Brunch LDN", notes: "", similarTo: "Day parties" }), provenance: { source: "feed.ics", line: 14, name: "Afrobeats Brunch LDN" } },
+    ];
+
+    const groups = groupDuplicates(records, (record) => record.event);
+    assert.deepEqual(groups.map((group) => group.length), [2, 1]);
+
+    const merged = mergeEvents(groups[0]);
+    assert.equal(merged.event.name, "Afrobeats Brunch LDN");
+    assert.equal(merged.event.time, "1pm-7pm");
+    assert.equal(merged.event.notes, "Bottomless");
+    assert.deepEqual(merged.provenance.map(({ source, line }) => `${source}:${line}`), ["events-db.csv:2", "feed.ics:14"]);
+  });
+
+  it("merges a database recommendation with its web listing", () => {
+    const merged = dedupeRecommendations([
+      recommendation({ name: "Afrobeats Brunch London", instagramUrl: "https://www.instagram.com/afrobeatsbrunch/", verificationStatus: "verified" }),
+      recommendation({ eventId: "65f0c0ffee0000000000abcd", source: "database", time: "", verificationStatus: "unverified" }),
+      recommendation({ name: "Brixton Day Party", location: "Brixton, London", date: "2027-03-06" }),
+    ]);
+
+    assert.equal(merged.length, 2);
+    assert.deepEqual(merged[0], {
+      ...recommendation({ eventId: "65f0c0ffee0000000000abcd", source: "database", verificationStatus: "verified" }),
+      instagramUrl: "https://www.instagram.com/afrobeatsbrunch/",
+      provenance: [
+        { name: "Afrobeats Brunch London", source: "web", eventId: null },
+        { name: "Afrobeats Brunch", source: "database", eventId: "65f0c0ffee0000000000abcd" },
+      ],
+    });
+    assert.equal(merged[1].provenance, undefined);
+  });
+});
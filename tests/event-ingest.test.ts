@@ -0,0 +1,82 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Readable } from "stream";
+import { formatRejectionReport, normalizeInstagramHandle, readCSVRows, resolveCity, validateEventRows } from "../event-ingest";
+
+const HEADER = "name,type,date,time,location,instagram,city,notes,similarTo";
+
+const validate = async (csv: string) => validateEventRows(await readCSVRows(Readable.from([csv])));
+
+describe("event ingestion", () => {
+  it("canonicalizes Instagram handles and city aliases", () => {
+    assert.equal(normalizeInstagramHandle(" AfrobeatsBrunch "), "@afrobeatsbrunch");
+    assert.equal(normalizeInstagramHandle("@k12hackney"), "@k12hackney");
+    assert.equal(normalizeInstagramHandle("https://www.instagram.com/brunch.club_ldn/?hl=en"), "@brunch.club_ldn");
+    assert.equal(normalizeInstagramHandle("not a handle"), null);
+
+    assert.equal(resolveCity(" LDN "), "London");
+    assert.equal(resolveCity("new york city"), "New York");
+    assert.equal(resolveCity("london"), "London");
+    assert.equal(resolveCity("Lisbon"), "Lisbon");
+  });
+
+  it("normalizes valid rows and skips blank lines", async () => {
+    const { events, rejected } = await validate(
+      [HEADER, "  Afrobeats Brunch ,Brunch,every Saturday,1pm-7pm,\"Shoreditch,  London\",afrobeatsbrunch,ldn,,", ""].join("\n")
+    );
+
+    assert.deepEqual(rejected, []);
+    assert.deepEqual(events, [
+      {
+        name: "Afrobeats Brunch",
+        type: "Brunch",
+        date: "every Saturday",
+        time: "1pm-7pm",
+        location: "Shoreditch, London",
+        instagram: "@afrobeatsbrunch",
+        city: "London",
+        notes: "",
+        similarTo: "",
+      },
+    ]);
+  });
+
+  it("rejects rows with line numbers and reasons, counting multi-line values", async () => {
+    const { events, rejected } = await validate(
+      [
+        HEADER,
+        'Amapiano Sundays,Day Party,1st Sunday monthly,2pm-10pm,"Peckham,\nLondon",@amapianosundays,London,"Outdoor\nday party",',
+        "Broken Brunch,Brunch,,1pm,Soho,@broken brunch!,London,,",
+        "Peach State Brunch,Brunch,every Sunday,12pm-5pm,Midtown,@peachstatebrunch,atl,,",
+      ].join("\n")
+    );
+
+    assert.deepEqual(
+      events.map((event) => [event.name, event.city]),
+      [["Amapiano Sundays", "London"], ["Peach State Brunch", "Atlanta"]]
+    );
+    assert.deepEqual(rejected, [
+      {
+        line: 5,
+        name: "Broken Brunch",
+        reasons: ["date: is empty", 'instagram: "@broken brunch!" is not an Instagram handle or profile URL'],
+      },
+    ]);
+    assert.equal(
+      formatRejectionReport(rejected),
+      'line 5 (Broken Brunch): date: is empty; instagram: "@broken brunch!" is not an Instagram handle or profile URL'
+    );
+  });
+
+  it("reports missing columns instead of storing undefined", async () => {
+    const { events, rejected } = await validate(["name,type,date,location,city", "Jazz Night,Live Music,every Friday,Alfama,Lisbon"].join("\n"));
+
+    assert.deepEqual(events, []);
+    assert.deepEqual(rejected[0].reasons, [
+      "time: column is missing",
+      "instagram: column is missing",
+      "notes: column is missing",
+      "similarTo: column is missing",
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseDatePattern, parseEventSchedule, parseTimeRange } from "../event-schedule";
+
+// Minutes after midnight
+const at = (hour: number, minute = 0) => hour * 60 + minute;
+
+describe("event schedule parsing", () => {
+  it("reads time ranges, inferring am or pm from the other end", () => {
+    const cases: [string, { startMinutes: number; durationMinutes: number } | null][] = [
+      ["1pm-7pm", { startMinutes: at(13), durationMinutes: 360 }],
+      ["2-8pm", { startMinutes: at(14), durationMinutes: 360 }],
+      ["10-2am", { startMinutes: at(22), durationMinutes: 240 }],
+      ["11-4", { startMinutes: at(11), durationMinutes: 300 }],
+      ["2-8", { startMinutes: at(14), durationMinutes: 360 }],
+      ["10pm-2", { startMinutes: at(22), durationMinutes: 240 }],
+      ["10pm-midnight", { startMinutes: at(22), durationMinutes: 120 }],
+      ["noon-6", { startMinutes: at(12), durationMinutes: 360 }],
+      ["7:30-11pm", { startMinutes: at(19, 30), durationMinutes: 210 }],
+      ["10:00-14:00", { startMinutes: at(10), durationMinutes: 240 }],
+      ["22:00-02:00", { startMinutes: at(22), durationMinutes: 240 }],
+      ["10:00-11:30", { startMinutes: at(10), durationMinutes: 90 }],
+      // Implausibly long ranges fall back to the default duration
+      ["10pm-2pm", { startMinutes: at(22), durationMinutes: 180 }],
+      ["9pm", { startMinutes: at(21), durationMinutes: 180 }],
+      ["8", { startMinutes: at(20), durationMinutes: 180 }],
+      ["8:30", { startMinutes: at(20, 30), durationMinutes: 180 }],
+      ["09:00", { startMinutes: at(9), durationMinutes: 180 }],
+      ["00:30", { startMinutes: at(0, 30), durationMinutes: 180 }],
+      ["12", { startMinutes: at(12), durationMinutes: 180 }],
+      ["TBC", null],
+    ];
+
+    for (const [time, expected] of cases) {
+      assert.deepEqual(parseTimeRange(time), expected, time);
+    }
+  });
+
+  it("reads dates, weekday ranges and ordinal lists", () => {
+    const cases: [string, string, ReturnType<typeof parseDatePattern>][] = [
+      ["every Saturday", "Europe/London", { recurrence: "FREQ=WEEKLY;BYDAY=SA" }],
+      ["Fri & Sat", "Europe/London", { recurrence: "FREQ=WEEKLY;BYDAY=FR,SA" }],
+      ["Monday to Friday", "Europe/London", { recurrence: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR" }],
+      ["Thurs-Sat", "Europe/London", { recurrence: "FREQ=WEEKLY;BYDAY=TH,FR,SA" }],
+      ["Fri through Sun", "Europe/London", { recurrence: "FREQ=WEEKLY;BYDAY=FR,SA,SU" }],
+      ["1st Sunday monthly", "Europe/London", { recurrence: "FREQ=MONTHLY;BYDAY=1SU" }],
+      ["2nd and 4th Saturday", "Europe/London", { recurrence: "FREQ=MONTHLY;BYDAY=2SA,4SA" }],
+      ["first & last Friday of the month", "Europe/London", { recurrence: "FREQ=MONTHLY;BYDAY=1FR,-1FR" }],
+      ["daily", "Europe/London", { recurrence: "FREQ=DAILY" }],
+      ["every year on 25 Dec", "Europe/London", { recurrence: "FREQ=YEARLY;BYMONTH=12;BYMONTHDAY=25" }],
+      ["July 4th annually", "America/New_York", { recurrence: "FREQ=YEARLY;BYMONTH=7;BYMONTHDAY=4" }],
+      ["2025-06-14", "Europe/London", { date: { year: 2025, month: 5, day: 14 } }],
+      ["12/03", "Europe/London", { date: { year: undefined, month: 2, day: 12 } }],
+      ["12/03", "America/New_York", { date: { year: undefined, month: 11, day: 3 } }],
+      ["14th June 2025", "Europe/London", { date: { year: 2025, month: 5, day: 14 } }],
+      ["Dec 25", "Europe/London", { date: { year: undefined, month: 11, day: 25 } }],
+      ["sometime soon", "Europe/London", null],
+    ];
+
+    for (const [date, timezone, expected] of cases) {
+      assert.deepEqual(parseDatePattern(date, timezone), expected, date);
+    }
+  });
+
+  it("schedules the next occurrence in the city's timezone", () => {
+    const now = new Date("2025-06-11T12:00:00Z");
+
+    assert.deepEqual(parseEventSchedule("2nd and 4th Saturday", "11-4", "London", now), {
+      startsAt: new Date("2025-06-14T10:00:00Z"),
+      endsAt: new Date("2025-06-14T15:00:00Z"),
+      timezone: "Europe/London",
+      recurrence: "FREQ=MONTHLY;BYDAY=2SA,4SA",
+      allDay: false,
+    });
+    assert.deepEqual(parseEventSchedule("every year on 25 Dec", "7pm", "London", now).startsAt, new Date("2025-12-25T19:00:00Z"));
+    assert.deepEqual(parseEventSchedule("Monday to Friday", "10pm-2", "Atlanta", now), {
+      startsAt: new Date("2025-06-12T02:00:00Z"),
+      endsAt: new Date("2025-06-12T06:00:00Z"),
+      timezone: "America/New_York",
+      recurrence: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR",
+      allDay: false,
+    });
+  });
+});
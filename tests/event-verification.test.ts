@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MongoClient } from "mongodb";
+import { assessVerification, needsVerification, recordVerification } from "../event-verification";
+import { createEventLookupTool } from "../events-lookup";
+import { HashEmbeddings, LookupTableGeocoder, ScriptedChatModel } from "../fake-providers";
+import { overrideProviders, resetProviderOverrides } from "../providers";
+import { createInMemoryMongoClient } from "./support/in-memory-mongo";
+import { seedEvents } from "./support/harness";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("event verification", () => {
+  let client: MongoClient;
+  const events = () => client.db("events_database").collection("events");
+
+  beforeEach(async () => {
+    client = createInMemoryMongoClient();
+    overrideProviders({ embeddings: new HashEmbeddings(), geocoder: new LookupTableGeocoder() });
+    await seedEvents(client);
+  });
+
+  afterEach(() => {
+    resetProviderOverrides();
+  });
+
+  it("only re-checks events whose last check is older than the max age", () => {
+    const now = new Date("2026-03-01T12:00:00Z");
+    assert.equal(needsVerification({}, now, 72 * HOUR), true);
+    assert.equal(needsVerification({ verification: { checkedAt: "2026-02-28T12:00:00Z" } }, now, 72 * HOUR), false);
+    assert.equal(needsVerification({ verification: { checkedAt: new Date("2026-02-20T12:00:00Z") } }, now, 72 * HOUR), true);
+  });
+
+  it("keeps verdicts for known events and drops invalid source URLs", async () => {
+    const [brunch] = await events().find({ name: "Afrobeats Brunch" }).toArray();
+    // In content blocks, as Anthropic's tool-capable models reply
+    const model = new ScriptedChatModel({
+      queue: [
+        {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                verdicts: [
+                  {
+                    eventId: String(brunch._id),
+                    status: "possibly_closed",
+                    sourceUrls: ["https://example.com/closed", "not a url"],
+                    corrections: { location: "Hackney, London" },
+                  },
+                  { eventId: "0123456789abcdef01234567", status: "verified", sourceUrls: [], corrections: {} },
+                ],
+              }),
+            },
+          ],
+        },
+      ],
+    });
+    overrideProviders({ chatModel: model, embeddings: new HashEmbeddings() });
+
+    const verdicts = await assessVerification([{ ...brunch, _id: String(brunch._id) }], "[]");
+
+    assert.deepEqual(verdicts, [
+      {
+        eventId: String(brunch._id),
+        status: "possibly_closed",
+        sourceUrls: ["https://example.com/closed"],
+        corrections: { location: "Hackney, London" },
+      },
+    ]);
+  });
+
+  it("stores verdicts on the events and ranks possibly closed ones lower", async () => {
+    const [brunch] = await events().find({ name: "Afrobeats Brunch" }).toArray();
+    const lookup = createEventLookupTool(events());
+    const names = async () =>
+      // Not naming the event, since exact matches come first whatever their status
+      JSON.parse(await lookup.invoke({ query: "bottomless brunch and amapiano", city: "London" })).map(([doc]: any) => doc.metadata);
+
+    assert.equal((await names())[0].name, "Afrobeats Brunch");
+
+    const checkedAt = new Date();
+    await recordVerification(
+      events(),
+      [{ eventId: String(brunch._id), status: "possibly_closed", sourceUrls: ["https://example.com/closed"], corrections: {} }],
+      checkedAt
+    );
+
+    const stored = await events().findOne({ _id: brunch._id });
+    assert.deepEqual(stored?.verification, {
+      status: "possibly_closed",
+      checkedAt,
+      sourceUrls: ["https://example.com/closed"],
+      corrections: {},
+    });
+
+    const ranked = await names();
+    assert.deepEqual(
+      ranked.map((event: any) => event.name),
+      ["Amapiano Sundays", "Afrobeats Brunch"]
+    );
+    assert.equal(ranked[1].verification.status, "possibly_closed");
+  });
+});
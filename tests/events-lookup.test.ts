@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Document } from "@langchain/core/documents";
+import { MongoClient } from "mongodb";
+import { Event } from "../event-documents";
+import { createEventLookupTool, fuseEventRankings } from "../events-lookup";
+import { HashEmbeddings, LookupTableGeocoder } from "../fake-providers";
+import { overrideProviders, resetProviderOverrides } from "../providers";
+import { createInMemoryMongoClient } from "./support/in-memory-mongo";
+import { SAMPLE_EVENTS, seedEvents } from "./support/harness";
+
+// Similar enough to the sample events that vector search alone can't tell them apart by name
+const LOOKALIKES: Event[] = [
+  ...SAMPLE_EVENTS,
+  {
+    name: "Bottomless Afrobeats Brunch Club",
+    type: "Brunch",
+    date: "every Saturday",
+    time: "12pm-6pm",
+    location: "Shoreditch, London",
+    instagram: "@brunchclubldn",
+    city: "London",
+    notes: "Bottomless brunch with afrobeats DJs and amapiano",
+    similarTo: "Afrobeats Brunch",
+  },
+  {
+    name: "Kitchen 12",
+    type: "Restaurant",
+    date: "every day",
+    time: "6pm-11pm",
+    location: "Hackney, London",
+    instagram: "@k12hackney",
+    city: "London",
+    notes: "West African small plates",
+    similarTo: "",
+  },
+];
+
+const doc = (id: string) => new Document({ pageContent: id, metadata: { _id: id, name: id } });
+
+describe("events lookup retrieval", () => {
+  let client: MongoClient;
+  const lookup = async (args: { query: string; city?: string }) =>
+    JSON.parse(await createEventLookupTool(client.db("events_database").collection("events")).invoke(args));
+
+  beforeEach(async () => {
+    client = createInMemoryMongoClient();
+    overrideProviders({ embeddings: new HashEmbeddings(), geocoder: new LookupTableGeocoder() });
+    await seedEvents(client, LOOKALIKES);
+  });
+
+  afterEach(() => {
+    resetProviderOverrides();
+    delete process.env.EVENTS_LOOKUP_MODE;
+  });
+
+  it("puts events named by their Instagram handle first", async () => {
+    const [[first]] = await lookup({ query: "what's on at @k12hackney", city: "London" });
+    assert.equal(first.metadata.name, "Kitchen 12");
+    assert.equal(first.metadata.retrieval.matchedBy, "exact");
+  });
+
+  it("puts events named exactly first", async () => {
+    const results = await lookup({ query: "tell me about Bottomless Afrobeats Brunch Club", city: "London" });
+    assert.equal(results[0][0].metadata.name, "Bottomless Afrobeats Brunch Club");
+    assert.equal(results[0][0].metadata.retrieval.matchedBy, "exact");
+    // Its name contains "Afrobeats Brunch", which is named exactly too but less specifically
+    assert.equal(results[1][0].metadata.name, "Afrobeats Brunch");
+  });
+
+  it("reports the scores from both searches", async () => {
+    const results = await lookup({ query: "brunch in Shoreditch", city: "London" });
+    const { retrieval } = results[0][0].metadata;
+
+    assert.equal(retrieval.matchedBy, "text+vector");
+    assert.ok(retrieval.vectorScore > 0 && retrieval.textScore > 0);
+    assert.ok(results[0][1] > 0 && results[0][1] <= retrieval.fusedScore);
+  });
+
+  it("can be limited to vector search", async () => {
+    process.env.EVENTS_LOOKUP_MODE = "vector";
+    const results = await lookup({ query: "brunch in Shoreditch", city: "London" });
+
+    assert.ok(results.length > 0);
+    for (const [{ metadata }] of results) {
+      assert.equal(metadata.retrieval.textScore, undefined);
+      assert.equal(metadata.retrieval.matchedBy, "vector");
+    }
+  });
+
+  it("rejects dates that aren't YYYY-MM-DD and result counts that aren't whole numbers up to 20", async () => {
+    const tool = createEventLookupTool(client.db("events_database").collection("events"));
+    for (const args of [{ dateFrom: "next friday" }, { dateTo: "2025-6-1" }, { n: 0 }, { n: 2.5 }, { n: 21 }]) {
+      await assert.rejects(tool.invoke({ query: "brunch", ...args }), JSON.stringify(args));
+    }
+    assert.ok((await lookup({ query: "brunch", city: "London" })).length > 0);
+  });
+
+  it("ranks results found by both searches above those found by one", () => {
+    const fused = fuseEventRankings("anything", [[doc("a"), 0.9], [doc("b"), 0.8]], [[doc("b"), 4], [doc("c"), 3]]);
+    const ranked = fused.sort((x, y) => y.metadata.retrieval.fusedScore - x.metadata.retrieval.fusedScore);
+
+    assert.deepEqual(
+      ranked.map((item) => [item.metadata.name, item.metadata.retrieval.matchedBy]),
+      [
+        ["b", "text+vector"],
+        ["a", "vector"],
+        ["c", "text"],
+      ]
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MongoClient } from "mongodb";
+import { createNearbyEventsTool } from "../events-lookup";
+import { HashEmbeddings, LookupTableGeocoder } from "../fake-providers";
+import { METERS_PER_MILE, NominatimGeocoder, distanceMeters, eventAddress, toGeoPoint } from "../geocoding";
+import { overrideProviders, resetProviderOverrides } from "../providers";
+import { overrideResiliencePolicies, resetResilience } from "../resilience";
+import { createInMemoryMongoClient } from "./support/in-memory-mongo";
+import { seedEvents } from "./support/harness";
+
+const SHOREDITCH = { lat: 51.5265, lng: -0.0786 };
+
+describe("geocoding", () => {
+  it("places addresses by the most specific area they mention", async () => {
+    const geocoder = new LookupTableGeocoder();
+    const shoreditch = await geocoder.geocode("Boxpark, Shoreditch, London");
+    const london = await geocoder.geocode("Somewhere, London");
+
+    assert.ok(shoreditch && london);
+    assert.ok(distanceMeters(shoreditch, toGeoPoint(SHOREDITCH.lat, SHOREDITCH.lng)) < 500);
+    assert.ok(distanceMeters(shoreditch, london) > 1000);
+    assert.equal(await geocoder.geocode("Nowhere in particular"), null);
+  });
+
+  it("adds the city to addresses that leave it out", () => {
+    assert.equal(eventAddress({ location: "Shoreditch", city: "London" }), "Shoreditch, London");
+    assert.equal(eventAddress({ location: "Peckham, London", city: "London" }), "Peckham, London");
+    assert.equal(eventAddress({ location: "", city: "Atlanta" }), "Atlanta");
+  });
+});
+
+describe("Nominatim geocoder", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    resetResilience();
+  });
+
+  it("keeps concurrent lookups a second apart", async () => {
+    const requestedAt: number[] = [];
+    globalThis.fetch = async () => {
+      requestedAt.push(Date.now());
+      return new Response(JSON.stringify([{ lat: "51.5", lon: "-0.1" }]));
+    };
+
+    const geocoder = new NominatimGeocoder("http://nominatim.test");
+    const points = await Promise.all(["Shoreditch, London", "Peckham, London"].map((address) => geocoder.geocode(address)));
+
+    assert.deepEqual(points, [toGeoPoint(51.5, -0.1), toGeoPoint(51.5, -0.1)]);
+    assert.ok(requestedAt[1] - requestedAt[0] >= 990);
+  });
+
+  it("retries server errors and gives up on lookups that hang", async () => {
+    overrideResiliencePolicies({ geocoding: { timeoutMs: 2000, retries: 1, baseDelayMs: 0, maxDelayMs: 0 } });
+    const statuses = [503, 200];
+    globalThis.fetch = async () => new Response(JSON.stringify([{ lat: "51.5", lon: "-0.1" }]), { status: statuses.shift() });
+
+    const geocoder = new NominatimGeocoder("http://nominatim.test");
+    assert.deepEqual(await geocoder.geocode("Shoreditch, London"), toGeoPoint(51.5, -0.1));
+    assert.deepEqual(statuses, []);
+
+    overrideResiliencePolicies({ geocoding: { timeoutMs: 50, retries: 0 } });
+    globalThis.fetch = (_input, init) => new Promise((_, reject) => init?.signal?.addEventListener("abort", () => reject(init.signal?.reason)));
+    assert.equal(await geocoder.geocode("Peckham, London"), null);
+  });
+});
+
+describe("nearby events tool", () => {
+  let client: MongoClient;
+  const events = () => client.db("events_database").collection("events");
+  const nearby = async (args: Record<string, unknown>) => JSON.parse(await createNearbyEventsTool(client, events()).invoke(args));
+
+  beforeEach(async () => {
+    client = createInMemoryMongoClient();
+    overrideProviders({ embeddings: new HashEmbeddings(), geocoder: new LookupTableGeocoder() });
+    await seedEvents(client);
+  });
+
+  afterEach(() => {
+    resetProviderOverrides();
+  });
+
+  it("stores a GeoJSON point for each event when it's ingested", async () => {
+    const brunch = await events().findOne({ name: "Afrobeats Brunch" });
+    assert.equal(brunch?.geo.type, "Point");
+    assert.ok(distanceMeters(brunch?.geo, toGeoPoint(SHOREDITCH.lat, SHOREDITCH.lng)) < 500);
+  });
+
+  it("only returns events within the radius, nearest first", async () => {
+    const close = await nearby({ ...SHOREDITCH, radiusMiles: 2 });
+    assert.deepEqual(
+      close.map(([doc]: any) => doc.metadata.name),
+      ["Afrobeats Brunch"]
+    );
+    assert.equal(close[0][0].metadata.distanceMiles, 0);
+    assert.equal(close[0][0].metadata.geo, undefined);
+
+    const wider = await nearby({ address: "Shoreditch", city: "London", radiusMiles: 10 });
+    assert.deepEqual(
+      wider.map(([doc]: any) => doc.metadata.name),
+      ["Afrobeats Brunch", "Amapiano Sundays"]
+    );
+    assert.ok(wider[1][0].metadata.distanceMiles > 2);
+    assert.ok(wider[1][0].metadata.upcomingDates.length > 0);
+  });
+
+  it("blends distance with how well events match the query", async () => {
+    const results = await nearby({ query: "Amapiano Sundays outdoor day party", address: "Shoreditch, London", radiusMiles: 10 });
+    assert.equal(results[0][0].metadata.name, "Amapiano Sundays");
+  });
+
+  it("says so when the location can't be found", async () => {
+    const result = await nearby({ address: "Nowhere in particular" });
+    assert.equal(result.message, "LOCATION_NOT_FOUND");
+  });
+});
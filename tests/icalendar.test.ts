@@ -0,0 +1,230 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { messageText } from "../agent-stream";
+import { validateEventRows } from "../event-ingest";
+import { parseEventSchedule } from "../event-schedule";
+import { ScriptContext, ScriptRule } from "../fake-providers";
+import { eventCalendarEntry, icsToRows, toICalendar } from "../icalendar";
+import { postJson, startTestServer, TestServer } from "./support/harness";
+
+const FEED = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "PRODID:-//Organizer//EN",
+  "BEGIN:VEVENT",
+  "UID:brunch@organizer",
+  "SUMMARY:Afrobeats Brunch",
+  "DTSTART;TZID=Europe/London:20250607T130000",
+  "DTEND;TZID=Europe/London:20250607T190000",
+  "RRULE:FREQ=WEEKLY;BYDAY=SA",
+  "LOCATION:Shoreditch\\, London E1 6AA",
+  "CATEGORIES:Brunch,Music",
+  "DESCRIPTION:Bottomless brunch with afrobeats DJs. Tickets and line-ups: https://ww",
+  " w.instagram.com/AfrobeatsBrunch/",
+  "BEGIN:VALARM",
+  "ACTION:DISPLAY",
+  "DESCRIPTION:Reminder",
+  "END:VALARM",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "SUMMARY:Amapiano Sundays",
+  "DTSTART:20250601T130000Z",
+  "DURATION:PT8H",
+  "RRULE:FREQ=MONTHLY;BYDAY=1SU",
+  "LOCATION:Peckham\\, London",
+  "DESCRIPTION:Outdoor day party. Follow @amapianosundays",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "SUMMARY:Fortnightly Jazz",
+  "DTSTART;TZID=Europe/London:20250605T200000",
+  "RRULE:FREQ=WEEKLY;INTERVAL=2",
+  "LOCATION:Dalston\\, London",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "SUMMARY:Cancelled Rave",
+  "STATUS:CANCELLED",
+  "DTSTART:20250610T220000Z",
+  "LOCATION:London",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "DTSTART;VALUE=DATE:20250620",
+  "LOCATION:Somewhere",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+const lastMessage = (context: ScriptContext) => context.messages[context.messages.length - 1];
+
+describe("iCalendar import", () => {
+  it("maps VEVENTs and their RRULEs to event rows", () => {
+    const { events, rejected } = validateEventRows(icsToRows(FEED));
+
+    assert.deepEqual(events[0], {
+      name: "Afrobeats Brunch",
+      type: "Brunch",
+      date: "every Saturday",
+      time: "13:00-19:00",
+      location: "Shoreditch, London E1 6AA",
+      instagram: "@afrobeatsbrunch",
+      city: "London",
+      notes: "Bottomless brunch with afrobeats DJs. Tickets and line-ups: https://www.instagram.com/AfrobeatsBrunch/",
+      similarTo: "",
+    });
+    // UTC start times are read in the city's time zone (BST in June)
+    assert.deepEqual([events[1].date, events[1].time, events[1].instagram], ["1st Sunday monthly", "14:00-22:00", "@amapianosundays"]);
+    assert.deepEqual(parseEventSchedule(events[1].date, events[1].time, events[1].city).recurrence, "FREQ=MONTHLY;BYDAY=1SU");
+
+    // Rules the sheet can't describe keep their first date and the rule in the notes
+    assert.equal(events[2].date, "2025-06-05");
+    assert.equal(events[2].notes, "Repeats: FREQ=WEEKLY;INTERVAL=2");
+
+    assert.equal(events.length, 3);
+    assert.deepEqual(rejected, [{ line: 39, reasons: ["name: is empty", "city: is empty"] }]);
+  });
+
+  it("describes yearly rules so they read back as yearly", () => {
+    const [row] = icsToRows(
+      ["BEGIN:VEVENT", "SUMMARY:Christmas Day Party", "DTSTART;TZID=Europe/London:20251225T140000", "RRULE:FREQ=YEARLY", "LOCATION:Brixton\\, London", "END:VEVENT"].join("\n")
+    );
+
+    assert.equal(row.data.date, "every year on 25 Dec");
+    assert.equal(parseEventSchedule(row.data.date, row.data.time, row.data.city).recurrence, "FREQ=YEARLY;BYMONTH=12;BYMONTHDAY=25");
+  });
+
+  it("uses the feed's city when locations don't name one", () => {
+    const [row] = icsToRows(["BEGIN:VEVENT", "SUMMARY:Jazz Night", "DTSTART:20250606T200000", "LOCATION:Alfama", "END:VEVENT"].join("\n"), "Lisbon");
+    assert.equal(row.data.city, "Lisbon");
+    assert.equal(row.data.time, "20:00-23:00");
+  });
+
+  it("keeps the end of multi-day events in the notes and rejects events that end before they start", () => {
+    const { events, rejected } = validateEventRows(
+      icsToRows(
+        [
+          "BEGIN:VEVENT",
+          "SUMMARY:Carnival Weekend",
+          "DTSTART;TZID=Europe/London:20250823T120000",
+          "DTEND;TZID=Europe/London:20250825T230000",
+          "LOCATION:Notting Hill\\, London",
+          "END:VEVENT",
+          "BEGIN:VEVENT",
+          "SUMMARY:Backwards Party",
+          "DTSTART;TZID=Europe/London:20250823T220000",
+          "DTEND;TZID=Europe/London:20250823T200000",
+          "LOCATION:Brixton\\, London",
+          "END:VEVENT",
+        ].join("\n")
+      )
+    );
+
+    assert.deepEqual([events[0].date, events[0].time, events[0].notes], ["2025-08-23", "12:00", "Ends 2025-08-25 23:00"]);
+    assert.deepEqual(rejected, [{ line: 7, name: "Backwards Party", reasons: ["DTEND: is before DTSTART"] }]);
+  });
+});
+
+describe("iCalendar export", () => {
+  it("writes recurring events in local time with location and Instagram in the description", () => {
+    const entry = eventCalendarEntry({
+      _id: "65f0c0ffee0000000000abcd",
+      name: "Afrobeats Brunch",
+      type: "Brunch",
+      date: "every Saturday",
+      time: "1pm-7pm",
+      location: "Shoreditch, London",
+      instagram: "@afrobeatsbrunch",
+      city: "London",
+      notes: "Bottomless brunch with afrobeats and amapiano DJs, plus a very long note so the description line has to be folded",
+    })!;
+    const calendar = toICalendar([entry], "Afrobeats Brunch", new Date("2025-06-01T00:00:00Z"));
+
+    assert.match(calendar, /^BEGIN:VCALENDAR\r\n/);
+    assert.match(calendar, /\r\nUID:65f0c0ffee0000000000abcd@ai-agent-events\r\n/);
+    assert.match(calendar, /\r\nDTSTART;TZID=Europe\/London:\d{8}T130000\r\n/);
+    assert.match(calendar, /\r\nRRULE:FREQ=WEEKLY;BYDAY=SA\r\n/);
+    assert.match(calendar, /\r\nLOCATION:Shoreditch\\, London\r\n/);
+    assert.match(calendar, /\r\nURL:https:\/\/www\.instagram\.com\/afrobeatsbrunch\/\r\n/);
+    assert.ok(calendar.split("\r\n").every((line) => Buffer.byteLength(line) <= 75));
+
+    // Reading the export back gives the same event
+    const [row] = icsToRows(calendar);
+    assert.deepEqual(
+      [row.data.name, row.data.date, row.data.time, row.data.city, row.data.instagram],
+      ["Afrobeats Brunch", "every Saturday", "13:00-19:00", "London", "@afrobeatsbrunch"]
+    );
+    assert.match(row.data.notes, /Location: Shoreditch, London\nInstagram: https:\/\/www\.instagram\.com\/afrobeatsbrunch\/$/);
+  });
+});
+
+describe("calendar download routes", () => {
+  let server: TestServer;
+
+  const rules: ScriptRule[] = [
+    {
+      match: ({ prompt }) => prompt.includes("You extract structured event recommendations"),
+      reply: ({ prompt }) =>
+        JSON.stringify({
+          recommendations: [
+            {
+              eventId: prompt.match(/"_id":"([a-f0-9]{24})"/)?.[1],
+              name: "Afrobeats Brunch",
+              type: "Brunch",
+              date: "every Saturday",
+              time: "1pm-7pm",
+              location: "Shoreditch, London",
+              city: "London",
+              instagramUrl: "@afrobeatsbrunch",
+              source: "database",
+              verificationStatus: "not_checked",
+            },
+          ],
+        }),
+    },
+    {
+      match: (context) => lastMessage(context)._getType() === "human",
+      reply: (context) =>
+        messageText(lastMessage(context).content).includes("London")
+          ? { toolCalls: [{ name: "events_lookup", args: { query: "brunch", city: "London" } }] }
+          : "You're welcome!",
+    },
+    {
+      match: (context) => lastMessage(context)._getType() === "tool",
+      reply: () => "RECOMMENDATIONS\n- Afrobeats Brunch",
+    },
+  ];
+
+  before(async () => {
+    server = await startTestServer(rules);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("downloads a single event", async () => {
+    const event = await server.client.db("events_database").collection("events").findOne({ name: "Amapiano Sundays" });
+    const response = await fetch(`${server.baseUrl}/events/${event!._id}/calendar`);
+
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get("content-type") ?? "", /^text\/calendar/);
+    assert.match(response.headers.get("content-disposition") ?? "", /amapiano-sundays\.ics/);
+    const text = await response.text();
+    assert.match(text, /\r\nSUMMARY:Amapiano Sundays\r\n/);
+    assert.match(text, /\r\nRRULE:FREQ=MONTHLY;BYDAY=1SU\r\n/);
+
+    assert.equal((await fetch(`${server.baseUrl}/events/0123456789abcdef01234567/calendar`)).status, 404);
+  });
+
+  it("downloads a thread's latest recommendations", async () => {
+    const { body } = await postJson(`${server.baseUrl}/chat`, { message: "Brunch in London?" });
+    // A follow-up without recommendations leaves the earlier ones to export
+    await postJson(`${server.baseUrl}/chat/${body.threadId}`, { message: "Thanks!" });
+
+    const response = await fetch(`${server.baseUrl}/threads/${body.threadId}/recommendations/calendar`);
+    assert.equal(response.status, 200);
+    const text = (await response.text()).replace(/\r\n /g, "");
+    assert.match(text, /\r\nSUMMARY:Afrobeats Brunch\r\n/);
+    assert.match(text, /\r\nDESCRIPTION:Brunch\\nLocation: Shoreditch\\, London\\nInstagram: https:\/\/www\.instagram\.com\/afrobeatsbrunch\/\r\n/);
+
+    assert.equal((await fetch(`${server.baseUrl}/threads/unknown-thread/recommendations/calendar`)).status, 404);
+  });
+});
@@ -0,0 +1,159 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ObjectId } from "mongodb";
+import { messageText } from "../agent-stream";
+import { buildItinerary } from "../itinerary";
+import { ScriptContext } from "../fake-providers";
+import { getJson, postJson, startTestServer, TestServer } from "./support/harness";
+
+const event = (fields: Record<string, string>) => ({
+  _id: new ObjectId(),
+  type: "Day Party",
+  city: "London",
+  instagram: "",
+  ...fields,
+});
+
+// 6 and 13 March 2027 are Saturdays
+const brunch = event({ name: "Afrobeats Brunch", type: "Brunch", date: "every Saturday", time: "1pm-7pm", location: "Shoreditch, London" });
+const dayParty = event({ name: "Brixton Day Party", date: "2027-03-06", time: "3pm-9pm", location: "Brixton, London" });
+const lateShow = event({ name: "Late Show", date: "2027-03-06", time: "7:30pm-11pm", location: "Peckham, London" });
+const nearbyShow = event({ name: "Nearby Show", date: "2027-03-06", time: "7:30pm-11pm", location: "Boxpark, Shoreditch, London" });
+const atlanta = event({ name: "Peach State Brunch", date: "every Sunday", time: "12pm-5pm", location: "Midtown, Atlanta", city: "Atlanta" });
+
+const ids = (...events: { _id: ObjectId }[]) => events.map((item) => String(item._id));
+
+describe("itinerary builder", () => {
+  it("moves a recurring event to another day to avoid a clash", () => {
+    const itinerary = buildItinerary(
+      { city: "London", dateFrom: "2027-03-06", dateTo: "2027-03-13", eventIds: ids(brunch, dayParty) },
+      [brunch, dayParty]
+    );
+
+    assert.deepEqual(
+      itinerary.days.map((day) => [day.date, day.items.map((item) => item.name)]),
+      [
+        ["2027-03-06", ["Brixton Day Party"]],
+        ["2027-03-13", ["Afrobeats Brunch"]],
+      ]
+    );
+    assert.equal(itinerary.conflicts, 0);
+  });
+
+  it("flags events that can only clash", () => {
+    const itinerary = buildItinerary(
+      { city: "London", dateFrom: "2027-03-06", dateTo: "2027-03-06", eventIds: ids(brunch, dayParty) },
+      [brunch, dayParty]
+    );
+
+    const [first, second] = itinerary.days[0].items;
+    assert.deepEqual(first.conflictsWith, ids(dayParty));
+    assert.deepEqual(second.conflictsWith, ids(brunch));
+    assert.equal(itinerary.conflicts, 1);
+  });
+
+  it("leaves time to travel between locations", () => {
+    const acrossTown = buildItinerary(
+      { city: "London", dateFrom: "2027-03-06", dateTo: "2027-03-06", eventIds: ids(brunch, lateShow) },
+      [brunch, lateShow]
+    );
+    // 30 minutes isn't enough to get from Shoreditch to Peckham
+    assert.equal(acrossTown.conflicts, 1);
+    assert.equal(acrossTown.days[0].items[1].travelMinutesBefore, 45);
+
+    const nearby = buildItinerary(
+      { city: "London", dateFrom: "2027-03-06", dateTo: "2027-03-06", eventIds: ids(brunch, nearbyShow) },
+      [brunch, nearbyShow]
+    );
+    assert.equal(nearby.conflicts, 0);
+    assert.equal(nearby.days[0].items[1].travelMinutesBefore, 20);
+  });
+
+  it("explains why events were left out", () => {
+    const missing = new ObjectId();
+    const itinerary = buildItinerary(
+      { city: "London", dateFrom: "2027-03-08", dateTo: "2027-03-09", eventIds: [...ids(brunch, atlanta), String(missing)] },
+      [brunch, atlanta]
+    );
+
+    assert.deepEqual(itinerary.days, []);
+    assert.deepEqual(
+      itinerary.unscheduled.map((entry) => entry.reason),
+      ["No dates between 2027-03-08 and 2027-03-09", "Event is in Atlanta, not London", "Event not found"]
+    );
+  });
+});
+
+describe("itinerary tool and routes", () => {
+  let server: TestServer;
+  const lastMessage = (context: ScriptContext) => context.messages[context.messages.length - 1];
+
+  before(async () => {
+    server = await startTestServer([
+      {
+        match: (context) => lastMessage(context)._getType() === "human",
+        reply: () => ({ toolCalls: [{ name: "events_lookup", args: { query: "brunch day party", city: "London" } }] }),
+      },
+      {
+        match: (context) => lastMessage(context)._getType() === "tool" && lastMessage(context).name === "events_lookup",
+        reply: (context) => {
+          const results = JSON.parse(messageText(lastMessage(context).content));
+          const eventIds = results.map(([doc]: any) => doc.metadata._id);
+          return { toolCalls: [{ name: "create_itinerary", args: { city: "London", dateFrom: "2027-03-06", dateTo: "2027-03-07", eventIds } }] };
+        },
+      },
+      {
+        match: (context) => lastMessage(context)._getType() === "tool",
+        reply: (context) => `RECOMMENDATIONS\nHere's your weekend: ${JSON.parse(messageText(lastMessage(context).content)).exportUrl}`,
+      },
+    ]);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("lets the agent build an itinerary that can be exported", async () => {
+    const { body } = await postJson(`${server.baseUrl}/chat`, { message: "Plan my weekend in London" });
+    const exportUrl = body.response.match(/\/itineraries\/[0-9a-f-]+\/export/)?.[0];
+    assert.ok(exportUrl);
+
+    const markdown = await fetch(`${server.baseUrl}${exportUrl}`);
+    assert.match(markdown.headers.get("content-disposition") ?? "", /itinerary-london-2027-03-06\.md/);
+    const text = await markdown.text();
+    assert.match(text, /^# London itinerary, 2027-03-06 to 2027-03-07/);
+    assert.match(text, /## 2027-03-06\n- Sat, 6 Mar 2027, 13:00-19:00 \(Europe\/London\): Afrobeats Brunch/);
+    assert.match(text, /## 2027-03-07\n- Sun, 7 Mar 2027, 14:00-22:00 \(Europe\/London\): Amapiano Sundays/);
+
+    const saved = await server.client.db("events_database").collection("itineraries").findOne({});
+    assert.equal(saved?.threadId, body.threadId);
+  });
+
+  it("creates itineraries over the API and validates requests", async () => {
+    const events = await server.client.db("events_database").collection("events").find({ city: "London" }).toArray();
+    const created = await postJson(`${server.baseUrl}/itineraries`, {
+      city: "London",
+      dateFrom: "2027-03-06",
+      dateTo: "2027-03-07",
+      eventIds: events.map((item) => String(item._id)),
+    });
+    assert.equal(created.status, 201);
+    assert.equal(created.body.itinerary.days.length, 2);
+
+    const fetched = await getJson(`${server.baseUrl}/itineraries/${created.body.itinerary.itineraryId}/export?format=json`);
+    assert.deepEqual(fetched.body, created.body.itinerary);
+
+    const calendar = await fetch(`${server.baseUrl}/itineraries/${created.body.itinerary.itineraryId}/export?format=ics`);
+    assert.match(calendar.headers.get("content-disposition") ?? "", /itinerary-london-2027-03-06\.ics/);
+    const ics = await calendar.text();
+    assert.match(ics, /\r\nDTSTART;TZID=Europe\/London:20270306T130000\r\nDTEND;TZID=Europe\/London:20270306T190000\r\n/);
+    assert.match(ics, /\r\nDTSTART;TZID=Europe\/London:20270307T140000\r\n/);
+
+    const invalid = await postJson(`${server.baseUrl}/itineraries`, { city: "London", dateFrom: "2027-03-08", dateTo: "2027-03-01", eventIds: ["x"] });
+    assert.equal(invalid.status, 400);
+    assert.equal(invalid.body.issues[0].message, "dateFrom must not be after dateTo");
+
+    const missing = await getJson(`${server.baseUrl}/itineraries/unknown`);
+    assert.equal(missing.status, 404);
+  });
+});
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { WEB_AGENT_TIMEOUTS } from "../agent-events-web";
+import { messageText } from "../agent-stream";
+import { ScriptContext, ScriptRule } from "../fake-providers";
+import { resetMetrics } from "../metrics";
+import { overrideResiliencePolicies } from "../resilience";
+import { estimateCost } from "../tracing";
+import { getJson, postJson, ScriptedSearchTool, startTestServer, TestServer } from "./support/harness";
+
+const DEFAULT_TIMEOUTS = { ...WEB_AGENT_TIMEOUTS };
+
+const lastMessage = (context: ScriptContext) => context.messages[context.messages.length - 1];
+
+function pipelineRules({ lookupError = false } = {}): ScriptRule[] {
+  return [
+    {
+      match: ({ prompt }) => prompt.includes("You extract structured event recommendations"),
+      reply: () => '{"recommendations": []}',
+    },
+    {
+      match: ({ prompt }) => prompt.includes("You check event listings against web search results"),
+      reply: () => '{"verdicts": []}',
+    },
+    {
+      match: (context) => context.toolNames.includes("events_lookup") && lastMessage(context)._getType() === "human",
+      reply: (context) => {
+        if (lookupError) throw new Error("model unavailable");
+        return { toolCalls: [{ name: "events_lookup", args: { query: messageText(lastMessage(context).content), city: "London" } }] };
+      },
+    },
+    {
+      match: (context) => lastMessage(context)._getType() === "tool",
+      reply: () => "- Afrobeats Brunch\n- Amapiano Sundays",
+    },
+    {
+      match: ({ prompt }) => prompt.startsWith("You are an event recommendation assistant"),
+      reply: () => "RECOMMENDATIONS: Afrobeats Brunch is on every Saturday.",
+    },
+  ];
+}
+
+// Answers searches about Afrobeats Brunch and never returns for anything else
+const flakySearch = () =>
+  new ScriptedSearchTool((query) =>
+    query.startsWith("Afrobeats") ? JSON.stringify([{ title: query, url: "https://example.com", content: "Open" }]) : new Promise<string>(() => {})
+  );
+
+describe("cost estimates", () => {
+  it("prices known models per million tokens and leaves others unpriced", () => {
+    assert.equal(estimateCost("claude-3-5-sonnet-20240620", 1_000_000, 1_000_000), 18);
+    assert.equal(estimateCost("gpt-4o-mini", 1_000_000, 0), 0.15);
+    assert.equal(estimateCost("gpt-4o-2024-08-06", 0, 1_000_000), 10);
+    assert.equal(estimateCost("scripted", 100, 100), null);
+  });
+});
+
+describe("request traces and metrics", () => {
+  let server: TestServer | undefined;
+
+  beforeEach(() => {
+    resetMetrics();
+    overrideResiliencePolicies({ web_search: { timeoutMs: 200 }, chat: { timeoutMs: 200 } });
+    Object.assign(WEB_AGENT_TIMEOUTS, { pipeline: 1000 });
+  });
+
+  afterEach(async () => {
+    Object.assign(WEB_AGENT_TIMEOUTS, DEFAULT_TIMEOUTS);
+    await server?.close();
+    server = undefined;
+  });
+
+  it("records the nodes, tool calls, searches and token usage of each chat", async () => {
+    server = await startTestServer(pipelineRules(), { agent: "web", search: flakySearch() });
+    const { baseUrl } = server;
+
+    const { body } = await postJson(`${baseUrl}/chat`, { message: "Brunch in London" });
+    const { status, body: traced } = await getJson(`${baseUrl}/traces/${body.threadId}`);
+
+    assert.equal(status, 200);
+    assert.equal(traced.traces.length, 1);
+    const [trace] = traced.traces;
+    assert.equal(trace.status, "ok");
+    assert.equal(trace.query, "Brunch in London");
+
+    const nodes = trace.nodes.map((node: any) => node.node);
+    for (const node of ["lookup_agent", "tools", "collect_results", "web_search", "verify_events", "synthesize", "recommend"]) {
+      assert.ok(nodes.includes(node), `missing node ${node}`);
+    }
+
+    const [lookup] = trace.toolCalls;
+    assert.equal(lookup.tool, "events_lookup");
+    assert.equal(lookup.args.query, "Brunch in London");
+    assert.equal(lookup.args.city, "London");
+    assert.ok(lookup.durationMs >= 0);
+    assert.deepEqual(lookup.scores.map((score: any) => score.name).sort(), ["Afrobeats Brunch", "Amapiano Sundays"]);
+    assert.ok(lookup.scores.every((score: any) => score.score > 0 && score.matchedBy));
+
+    assert.deepEqual(trace.webSearches.map((search: any) => search.outcome).sort(), ["ok", "timeout"]);
+
+    assert.ok(trace.modelCalls.length >= 3);
+    assert.ok(trace.modelCalls.every((call: any) => call.provider === "scripted" && call.costUsd === null));
+    assert.ok(trace.usage.totalTokens > 0);
+    assert.equal(trace.usage.totalTokens, trace.usage.inputTokens + trace.usage.outputTokens);
+
+    assert.equal((await getJson(`${baseUrl}/traces/no-such-thread`)).status, 404);
+  });
+
+  it("exposes request, fallback, search and token counts in Prometheus format", async () => {
+    server = await startTestServer(pipelineRules({ lookupError: true }), { agent: "web", search: flakySearch() });
+    const { baseUrl } = server;
+
+    await postJson(`${baseUrl}/chat`, { message: "Jazz in London" });
+    const response = await fetch(`${baseUrl}/metrics`);
+    const text = await response.text();
+
+    assert.match(response.headers.get("content-type") ?? "", /^text\/plain/);
+    assert.match(text, /^http_requests_total\{method="POST",route="\/chat",status="200"\} 1$/m);
+    assert.match(text, /^http_request_duration_seconds_count\{method="POST",route="\/chat"\} 1$/m);
+    // The lookup failed and the answer came from a fallback, so the run doesn't count as ok
+    assert.match(text, /^agent_runs_total\{agent="web",status="degraded"\} 1$/m);
+    assert.match(text, /^agent_fallbacks_total\{reason="lookup_failed"\} 1$/m);
+    assert.match(text, /^web_searches_total\{outcome="timeout"\} 1$/m);
+    assert.match(text, /^llm_tokens_total\{provider="scripted",model="scripted",type="output"\} [1-9]\d*$/m);
+  });
+});
@@ -0,0 +1,155 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { HashEmbeddings } from "../fake-providers";
+import { renderMetrics, resetMetrics } from "../metrics";
+import { getEmbeddings, overrideProviders, resetProviderOverrides } from "../providers";
+import { ProviderError, loadResiliencePolicy, overrideResiliencePolicies, resetResilience, withResilience } from "../resilience";
+
+const FAST = { timeoutMs: 50, retries: 2, baseDelayMs: 1, maxDelayMs: 2, failureThreshold: 3, resetMs: 50 };
+
+const httpError = (status: number) => Object.assign(new Error(`status ${status}`), { status });
+
+// Counts the calls it gets, failing with each of `failures` in turn and then returning "ok"
+function flaky(...failures: Error[]) {
+  const calls = { count: 0 };
+  const fn = async () => {
+    const failure = failures[calls.count++];
+    if (failure) throw failure;
+    return "ok";
+  };
+  return { fn, calls };
+}
+
+describe("resilience policies", () => {
+  afterEach(() => {
+    resetResilience();
+    resetMetrics();
+    resetProviderOverrides();
+    delete process.env.RESILIENCE_WEB_SEARCH_TIMEOUT_MS;
+  });
+
+  it("reads each provider's policy from the environment over its defaults", () => {
+    process.env.RESILIENCE_WEB_SEARCH_TIMEOUT_MS = "2500";
+
+    assert.equal(loadResiliencePolicy("web_search").timeoutMs, 2500);
+    assert.equal(loadResiliencePolicy("web_search").retries, 1);
+    assert.equal(loadResiliencePolicy("chat").timeoutMs, 30000);
+    assert.throws(() => loadResiliencePolicy("web_search", { RESILIENCE_WEB_SEARCH_RETRIES: "-1" }));
+  });
+
+  it("retries rate limits, server errors and network errors, but not bad requests", async () => {
+    overrideResiliencePolicies({ chat: { ...FAST, failureThreshold: 4 } });
+    const recovering = flaky(
+      httpError(429),
+      Object.assign(new Error("socket hang up"), { code: "ECONNRESET" }),
+      Object.assign(new TypeError("fetch failed"), { cause: Object.assign(new Error("connect ETIMEDOUT"), { code: "ETIMEDOUT" }) })
+    );
+
+    assert.equal(await withResilience("chat", recovering.fn, { retries: 3 }), "ok");
+    assert.equal(recovering.calls.count, 4);
+
+    const rejected = flaky(httpError(400));
+    await assert.rejects(withResilience("chat", rejected.fn), { name: "ProviderError", reason: "error", message: "status 400" });
+    assert.equal(rejected.calls.count, 1);
+
+    const down = flaky(httpError(503), httpError(503), httpError(503));
+    await assert.rejects(withResilience("chat", down.fn), { message: "status 503" });
+    assert.equal(down.calls.count, 3);
+    assert.match(renderMetrics(), /^provider_calls_total\{provider="chat",outcome="retry"\} 5$/m);
+  });
+
+  it("doesn't retry or count programming errors against the circuit", async () => {
+    overrideResiliencePolicies({ chat: { ...FAST, failureThreshold: 1 } });
+
+    for (const error of [new TypeError("Cannot read properties of undefined"), new SyntaxError("Unexpected token < in JSON"), new Error("Invalid output")]) {
+      const broken = flaky(error);
+      await assert.rejects(withResilience("chat", broken.fn), { reason: "error", message: error.message });
+      assert.equal(broken.calls.count, 1, error.message);
+    }
+    assert.equal(await withResilience("chat", async () => "ok"), "ok");
+  });
+
+  it("aborts an attempt's signal when it times out", async () => {
+    overrideResiliencePolicies({ web_search: { ...FAST, retries: 0 } });
+    let attemptSignal: AbortSignal | undefined;
+
+    await assert.rejects(
+      withResilience("web_search", (signal) => {
+        attemptSignal = signal;
+        return new Promise(() => {});
+      }),
+      (error) => error instanceof ProviderError && error.reason === "timeout" && error.message === "Search timeout"
+    );
+    assert.equal(attemptSignal?.aborted, true);
+  });
+
+  it("cancels the call and skips retries when the run is aborted", async () => {
+    overrideResiliencePolicies({ chat: FAST });
+    const controller = new AbortController();
+    let calls = 0;
+
+    const call = withResilience(
+      "chat",
+      (signal) => {
+        calls++;
+        return new Promise((_, reject) => signal.addEventListener("abort", () => reject(new Error("cancelled"))));
+      },
+      { signal: controller.signal }
+    );
+    controller.abort(new Error("client went away"));
+
+    await assert.rejects(call, { message: "client went away" });
+    assert.equal(calls, 1);
+  });
+
+  it("gives up on embeddings when the run is aborted", async () => {
+    const stalled = new HashEmbeddings();
+    stalled.embedQuery = () => new Promise(() => {});
+    overrideProviders({ embeddings: stalled });
+    const controller = new AbortController();
+
+    const call = getEmbeddings(controller.signal).embedQuery("brunch");
+    controller.abort(new Error("client went away"));
+
+    await assert.rejects(call, { message: "client went away" });
+  });
+
+  it("stops retrying at the deadline", async () => {
+    overrideResiliencePolicies({ chat: { ...FAST, retries: 10 } });
+    const startedAt = Date.now();
+
+    await assert.rejects(withResilience("chat", () => new Promise(() => {}), { deadline: startedAt + 120 }), { reason: "timeout" });
+    assert.ok(Date.now() - startedAt < 200);
+  });
+
+  it("opens the circuit after repeated failures and lets a trial call through once it has cooled off", async () => {
+    overrideResiliencePolicies({ atlas_search: { ...FAST, retries: 0 } });
+    const down = flaky(httpError(500), httpError(500), httpError(500));
+    for (let i = 0; i < 3; i++) {
+      await assert.rejects(withResilience("atlas_search", down.fn));
+    }
+
+    await assert.rejects(withResilience("atlas_search", down.fn), { reason: "unavailable", message: "Atlas Search unavailable (circuit open)" });
+    assert.equal(down.calls.count, 3);
+
+    await new Promise((resolve) => setTimeout(resolve, FAST.resetMs));
+    assert.equal(await withResilience("atlas_search", down.fn), "ok");
+    assert.equal(await withResilience("atlas_search", down.fn), "ok");
+    // Other providers have circuits of their own
+    assert.equal(await withResilience("embeddings", async () => "ok"), "ok");
+  });
+
+  it("leaves failures of nested calls to their own provider's policy", async () => {
+    overrideResiliencePolicies({ atlas_search: FAST });
+    let calls = 0;
+
+    await assert.rejects(
+      withResilience("atlas_search", async () => {
+        calls++;
+        throw new ProviderError("embeddings", "unavailable", "Embeddings unavailable (circuit open)");
+      }),
+      { provider: "embeddings" }
+    );
+    assert.equal(calls, 1);
+  });
+});
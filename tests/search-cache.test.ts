@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  cachedSearch,
+  getSearchCacheStats,
+  normalizeSearchQuery,
+  resetSearchCacheStats,
+  searchCacheCollection,
+} from "../search-cache";
+import { createInMemoryMongoClient } from "./support/in-memory-mongo";
+import { getJson, startTestServer } from "./support/harness";
+
+describe("web search cache", () => {
+  beforeEach(() => {
+    resetSearchCacheStats();
+  });
+
+  afterEach(() => {
+    delete process.env.SEARCH_CACHE_TTL_SECONDS;
+    delete process.env.ADMIN_API_KEY;
+  });
+
+  it("normalizes case, punctuation and spacing in queries", () => {
+    assert.equal(normalizeSearchQuery("  Afrobeats   Brunch, Shoreditch!  "), "afrobeats brunch shoreditch");
+    assert.equal(normalizeSearchQuery("@afrobeatsbrunch"), "@afrobeatsbrunch");
+  });
+
+  it("serves repeated queries from the cache and counts hits and misses", async () => {
+    const client = createInMemoryMongoClient();
+    const searched: string[] = [];
+    const search = async (query: string) => {
+      searched.push(query);
+      return `results for ${query}`;
+    };
+
+    const first = await cachedSearch(client, "Afrobeats Brunch London", search);
+    const second = await cachedSearch(client, "afrobeats brunch, london", search);
+
+    assert.deepEqual(first, { results: "results for Afrobeats Brunch London", cached: false });
+    assert.deepEqual(second, { results: "results for Afrobeats Brunch London", cached: true });
+    assert.deepEqual(searched, ["Afrobeats Brunch London"]);
+    assert.deepEqual(getSearchCacheStats(), { hits: 1, misses: 1, errors: 0, hitRate: 0.5 });
+
+    const entry = await searchCacheCollection(client).findOne({ key: "afrobeats brunch london" });
+    assert.equal(entry?.hits, 1);
+  });
+
+  it("searches again once an entry has expired", async () => {
+    const client = createInMemoryMongoClient();
+    let calls = 0;
+    const search = async () => `call ${++calls}`;
+
+    await cachedSearch(client, "Amapiano Sundays", search);
+    await searchCacheCollection(client).updateOne({ key: "amapiano sundays" }, { $set: { expiresAt: new Date(Date.now() - 1000) } });
+
+    assert.deepEqual(await cachedSearch(client, "Amapiano Sundays", search), { results: "call 2", cached: false });
+  });
+
+  it("doesn't cache failed searches", async () => {
+    const client = createInMemoryMongoClient();
+    await assert.rejects(cachedSearch(client, "Peach State Brunch", async () => Promise.reject(new Error("Search timeout"))));
+
+    assert.equal(await searchCacheCollection(client).countDocuments({}), 0);
+    assert.deepEqual(await cachedSearch(client, "Peach State Brunch", async () => "ok"), { results: "ok", cached: false });
+  });
+
+  it("bypasses the cache when the TTL is zero", async () => {
+    process.env.SEARCH_CACHE_TTL_SECONDS = "0";
+    const client = createInMemoryMongoClient();
+
+    await cachedSearch(client, "Afrobeats Brunch", async () => "fresh");
+
+    assert.equal(await searchCacheCollection(client).countDocuments({}), 0);
+    assert.deepEqual(getSearchCacheStats(), { hits: 0, misses: 0, errors: 0, hitRate: 0 });
+  });
+
+  it("reports stats to admins", async () => {
+    process.env.ADMIN_API_KEY = "secret";
+    const server = await startTestServer([]);
+    try {
+      await cachedSearch(server.client, "Afrobeats Brunch", async () => "results");
+      await cachedSearch(server.client, "Afrobeats Brunch", async () => "results");
+
+      const unauthorized = await getJson(`${server.baseUrl}/admin/search-cache/stats`);
+      assert.equal(unauthorized.status, 401);
+
+      const response = await fetch(`${server.baseUrl}/admin/search-cache/stats`, { headers: { "x-api-key": "secret" } });
+      assert.deepEqual(await response.json(), { hits: 1, misses: 1, errors: 0, hitRate: 0.5, entries: 1, ttlSeconds: 86400 });
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,127 @@
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { Tool } from "@langchain/core/tools";
+import { MongoClient } from "mongodb";
+import { createApp, AppOptions } from "../../app";
+import { Event, embedEventDocument } from "../../event-documents";
+import { HashEmbeddings, LookupTableGeocoder, ScriptRule, ScriptedChatModel } from "../../fake-providers";
+import { overrideProviders, resetProviderOverrides } from "../../providers";
+import { RESILIENT_PROVIDERS, overrideResiliencePolicies, resetResilience } from "../../resilience";
+import { createInMemoryMongoClient } from "./in-memory-mongo";
+
+export const SAMPLE_EVENTS: Event[] = [
+  {
+    name: "Afrobeats Brunch",
+    type: "Brunch",
+    date: "every Saturday",
+    time: "1pm-7pm",
+    location: "Shoreditch, London",
+    instagram: "@afrobeatsbrunch",
+    city: "London",
+    notes: "Bottomless brunch with afrobeats and amapiano DJs",
+    similarTo: "Amapiano Sundays",
+  },
+  {
+    name: "Amapiano Sundays",
+    type: "Day Party",
+    date: "1st Sunday monthly",
+    time: "2pm-10pm",
+    location: "Peckham, London",
+    instagram: "@amapianosundays",
+    city: "London",
+    notes: "Outdoor amapiano day party",
+    similarTo: "Afrobeats Brunch",
+  },
+  {
+    name: "Peach State Brunch",
+    type: "Brunch",
+    date: "every Sunday",
+    time: "12pm-5pm",
+    location: "Midtown, Atlanta",
+    instagram: "@peachstatebrunch",
+    city: "Atlanta",
+    notes: "Southern brunch with RnB and hip hop",
+    similarTo: "Afrobeats Brunch",
+  },
+];
+
+// A search tool whose behaviour each test controls, recording the queries it was sent
+export class ScriptedSearchTool extends Tool {
+  name = "tavily_search_results_json";
+
+  description = "Scripted web search for tests.";
+
+  queries: string[] = [];
+
+  constructor(private handler: (query: string) => string | Promise<string>) {
+    super();
+  }
+
+  async _call(query: string): Promise<string> {
+    this.queries.push(query);
+    return this.handler(query);
+  }
+}
+
+export interface TestServer {
+  baseUrl: string;
+  client: MongoClient;
+  model: ScriptedChatModel;
+  close: () => Promise<void>;
+}
+
+export async function seedEvents(client: MongoClient, events: Event[] = SAMPLE_EVENTS) {
+  const collection = client.db("events_database").collection("events");
+  for (const event of events) {
+    await collection.insertOne(await embedEventDocument(event));
+  }
+}
+
+// Starts the app on a random port against an in-memory database and scripted providers
+export async function startTestServer(
+  rules: ScriptRule[],
+  options: AppOptions & { search?: Tool; events?: Event[] } = {}
+): Promise<TestServer> {
+  const client = createInMemoryMongoClient();
+  const model = new ScriptedChatModel({ rules });
+  overrideProviders({
+    chatModel: model,
+    embeddings: new HashEmbeddings(),
+    geocoder: new LookupTableGeocoder(),
+    webSearch: options.search ?? new ScriptedSearchTool((query) => JSON.stringify([{ title: query, url: "https://example.com", content: query }])),
+  });
+  // Retries back off for a millisecond or two, so failures don't slow the tests down
+  overrideResiliencePolicies(Object.fromEntries(RESILIENT_PROVIDERS.map((provider) => [provider, { baseDelayMs: 1, maxDelayMs: 2 }])));
+  await seedEvents(client, options.events);
+
+  const server: Server = await new Promise((resolve) => {
+    // Auth is covered by its own tests; the rest chat anonymously unless they opt in
+    const listening = createApp(client, { ...options, auth: options.auth ?? { enabled: false } }).listen(0, () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    client,
+    model,
+    close: async () => {
+      resetProviderOverrides();
+      resetResilience();
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
+
+export async function postJson(url: string, body: unknown, headers: Record<string, string> = {}) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json(), headers: response.headers };
+}
+
+export async function getJson(url: string, headers: Record<string, string> = {}) {
+  const response = await fetch(url, { headers });
+  return { status: response.status, body: response.status === 204 ? null : await response.json() };
+}
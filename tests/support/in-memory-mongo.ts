@@ -0,0 +1,546 @@
+import { Binary, Document, MongoClient, ObjectId } from "mongodb";
+import { distanceMeters } from "../../geocoding";
+
+// Just enough of the MongoDB driver for the app, the checkpointer and MongoDBAtlasVectorSearch
+// to run in-process. $vectorSearch is emulated with an exact cosine similarity scan, $search with
+// term overlap and $geoNear with a haversine one.
+
+type Filter = Record<string, any>;
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+// Copies documents in and out so callers can't mutate stored state, storing bytes the way the driver returns them
+function clone(value: any): any {
+  if (value instanceof ObjectId || value instanceof Binary) return value;
+  if (value instanceof Date) return new Date(value.getTime());
+  if (value instanceof Uint8Array) return new Binary(Buffer.from(value));
+  if (Array.isArray(value)) return value.map(clone);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined).map(([k, v]) => [k, clone(v)]));
+  }
+  return value;
+}
+
+function getPath(doc: any, path: string): any {
+  return path.split(".").reduce((value, key) => (value == null ? undefined : value[key]), doc);
+}
+
+function setPath(doc: any, path: string, value: any) {
+  const keys = path.split(".");
+  const last = keys.pop()!;
+  const target = keys.reduce((current, key) => (current[key] ??= {}), doc);
+  target[last] = value;
+}
+
+function unsetPath(doc: any, path: string) {
+  const keys = path.split(".");
+  const last = keys.pop()!;
+  const target = keys.reduce((current, key) => current?.[key], doc);
+  if (target) delete target[last];
+}
+
+function equals(a: any, b: any): boolean {
+  if (a instanceof ObjectId || b instanceof ObjectId) return String(a) === String(b);
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((item, i) => equals(item, b[i]));
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => equals(a[key], b[key]));
+  }
+  return a === b || (a == null && b == null);
+}
+
+function compare(a: any, b: any): number {
+  if (a == null && b == null) return 0;
+  if (a == null) return -1;
+  if (b == null) return 1;
+  const left = a instanceof Date ? a.getTime() : a instanceof ObjectId ? a.toHexString() : a;
+  const right = b instanceof Date ? b.getTime() : b instanceof ObjectId ? b.toHexString() : b;
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function matchesCondition(value: any, condition: any): boolean {
+  if (condition instanceof RegExp) {
+    return typeof value === "string" && condition.test(value);
+  }
+  if (!isPlainObject(condition) || !Object.keys(condition).some((key) => key.startsWith("$"))) {
+    return Array.isArray(value) && !Array.isArray(condition)
+      ? value.some((item) => equals(item, condition))
+      : equals(value, condition);
+  }
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case "$eq":
+        return matchesCondition(value, operand);
+      case "$ne":
+        return !matchesCondition(value, operand);
+      case "$in":
+        return (operand as any[]).some((item) => matchesCondition(value, item));
+      case "$nin":
+        return !(operand as any[]).some((item) => matchesCondition(value, item));
+      case "$gt":
+        return value != null && compare(value, operand) > 0;
+      case "$gte":
+        return value != null && compare(value, operand) >= 0;
+      case "$lt":
+        return value != null && compare(value, operand) < 0;
+      case "$lte":
+        return value != null && compare(value, operand) <= 0;
+      case "$exists":
+        return (value !== undefined) === Boolean(operand);
+      case "$not":
+        return !matchesCondition(value, operand);
+      case "$regex":
+        return typeof value === "string" && new RegExp(operand as string, condition.$options ?? "").test(value);
+      case "$options":
+        return true;
+      default:
+        throw new Error(`Unsupported query operator ${operator}`);
+    }
+  });
+}
+
+export function matches(doc: Document, filter: Filter = {}): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    switch (key) {
+      case "$and":
+        return (condition as Filter[]).every((clause) => matches(doc, clause));
+      case "$or":
+        return (condition as Filter[]).some((clause) => matches(doc, clause));
+      case "$nor":
+        return !(condition as Filter[]).some((clause) => matches(doc, clause));
+      default:
+        return matchesCondition(getPath(doc, key), condition);
+    }
+  });
+}
+
+function applyUpdate(doc: Document, update: Filter, inserting: boolean) {
+  const operators = Object.keys(update).some((key) => key.startsWith("$"));
+  if (!operators) {
+    const { _id } = doc;
+    Object.keys(doc).forEach((key) => delete doc[key]);
+    Object.assign(doc, clone(update), { _id });
+    return;
+  }
+
+  for (const [operator, fields] of Object.entries(update)) {
+    for (const [path, value] of Object.entries(fields as Filter)) {
+      switch (operator) {
+        case "$set":
+          setPath(doc, path, clone(value));
+          break;
+        case "$setOnInsert":
+          if (inserting) setPath(doc, path, clone(value));
+          break;
+        case "$unset":
+          unsetPath(doc, path);
+          break;
+        case "$inc":
+          setPath(doc, path, (getPath(doc, path) ?? 0) + value);
+          break;
+        case "$push": {
+          const items = isPlainObject(value) && "$each" in value ? value.$each : [value];
+          setPath(doc, path, [...(getPath(doc, path) ?? []), ...clone(items)]);
+          break;
+        }
+        case "$pull": {
+          const current: any[] = getPath(doc, path) ?? [];
+          setPath(doc, path, current.filter((item) => !(isPlainObject(value) ? matches(item, value) : equals(item, value))));
+          break;
+        }
+        default:
+          throw new Error(`Unsupported update operator ${operator}`);
+      }
+    }
+  }
+}
+
+function project(doc: Document, projection?: Filter): Document {
+  if (!projection || !Object.keys(projection).length) return doc;
+
+  const inclusive = Object.entries(projection).some(([key, value]) => key !== "_id" && value);
+  if (inclusive) {
+    const result: Document = projection._id === 0 ? {} : { _id: doc._id };
+    for (const [path, value] of Object.entries(projection)) {
+      if (value && path !== "_id" && getPath(doc, path) !== undefined) setPath(result, path, getPath(doc, path));
+    }
+    return result;
+  }
+
+  const result = clone(doc);
+  for (const path of Object.keys(projection)) unsetPath(result, path);
+  return result;
+}
+
+function sortDocuments(docs: Document[], spec: Filter) {
+  const entries = Object.entries(spec);
+  return [...docs].sort((a, b) => {
+    for (const [path, direction] of entries) {
+      const order = compare(getPath(a, path), getPath(b, path));
+      if (order !== 0) return direction < 0 ? -order : order;
+    }
+    return 0;
+  });
+}
+
+function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB) || 1);
+}
+
+function searchTokens(value: unknown): string[] {
+  return String(value ?? "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+// Scores a document against an Atlas Search operator: text scores by how many query terms a field
+// shares (times any boost), compound sums its clauses. 0 means no match. Analyzers aren't emulated
+function searchScore(doc: Document, operator: Document): number {
+  if (operator.text) {
+    const { query, path, score } = operator.text;
+    const terms = new Set([query].flat().flatMap(searchTokens));
+    const fieldTerms = new Set([path].flat().flatMap((field: string) => [getPath(doc, field)].flat().flatMap(searchTokens)));
+    const matched = Array.from(terms).filter((term) => fieldTerms.has(term)).length;
+    return matched * (score?.boost?.value ?? 1);
+  }
+  if (operator.compound) {
+    const { must = [], should = [], filter = [], minimumShouldMatch = 0 } = operator.compound;
+    const mustScores = must.map((clause: Document) => searchScore(doc, clause));
+    const shouldScores = should.map((clause: Document) => searchScore(doc, clause));
+    if (mustScores.some((value: number) => value === 0)) return 0;
+    if (filter.some((clause: Document) => searchScore(doc, clause) === 0)) return 0;
+    if (shouldScores.filter((value: number) => value > 0).length < minimumShouldMatch) return 0;
+    const total = [...mustScores, ...shouldScores].reduce((sum: number, value: number) => sum + value, 0);
+    return total || (must.length || filter.length ? 1 : 0);
+  }
+  throw new Error(`Unsupported $search operator ${Object.keys(operator).filter((key) => key !== "index")[0]}`);
+}
+
+export class InMemoryCursor<T = Document> {
+  private sortSpec?: Filter;
+  private skipCount = 0;
+  private limitCount?: number;
+  private mappers: ((doc: any) => any)[] = [];
+
+  constructor(private load: () => Document[]) {}
+
+  sort(spec: Filter | string, direction: number = 1) {
+    this.sortSpec = typeof spec === "string" ? { [spec]: direction } : spec;
+    return this;
+  }
+
+  skip(count: number) {
+    this.skipCount = count;
+    return this;
+  }
+
+  limit(count: number) {
+    this.limitCount = count;
+    return this;
+  }
+
+  map<U>(mapper: (doc: T) => U): InMemoryCursor<U> {
+    this.mappers.push(mapper);
+    return this as unknown as InMemoryCursor<U>;
+  }
+
+  async toArray(): Promise<T[]> {
+    let docs = this.load();
+    if (this.sortSpec) docs = sortDocuments(docs, this.sortSpec);
+    docs = docs.slice(this.skipCount, this.limitCount ? this.skipCount + this.limitCount : undefined);
+    return docs.map((doc) => this.mappers.reduce((value, mapper) => mapper(value), clone(doc) as any));
+  }
+
+  async *[Symbol.asyncIterator]() {
+    for (const doc of await this.toArray()) yield doc;
+  }
+}
+
+export class InMemoryCollection {
+  docs: Document[] = [];
+  searchIndexes: Document[] = [];
+  indexes: Document[] = [];
+
+  constructor(readonly collectionName: string, readonly dbName = "test") {}
+
+  get namespace() {
+    return `${this.dbName}.${this.collectionName}`;
+  }
+
+  find(filter: Filter = {}, options: { projection?: Filter } = {}) {
+    return new InMemoryCursor(() => this.docs.filter((doc) => matches(doc, filter)).map((doc) => project(doc, options.projection)));
+  }
+
+  async findOne(filter: Filter = {}, options: { projection?: Filter } = {}) {
+    const doc = this.docs.find((candidate) => matches(candidate, filter));
+    return doc ? clone(project(doc, options.projection)) : null;
+  }
+
+  async countDocuments(filter: Filter = {}) {
+    return this.docs.filter((doc) => matches(doc, filter)).length;
+  }
+
+  async distinct(path: string, filter: Filter = {}) {
+    const values = this.docs.filter((doc) => matches(doc, filter)).map((doc) => getPath(doc, path));
+    return values.filter((value, index) => values.findIndex((other) => equals(other, value)) === index);
+  }
+
+  async insertOne(document: Document) {
+    const doc = clone({ _id: new ObjectId(), ...document });
+    this.docs.push(doc);
+    return { acknowledged: true, insertedId: doc._id };
+  }
+
+  async insertMany(documents: Document[]) {
+    const insertedIds: Record<number, ObjectId> = {};
+    for (const [index, document] of documents.entries()) {
+      insertedIds[index] = (await this.insertOne(document)).insertedId;
+    }
+    return { acknowledged: true, insertedCount: documents.length, insertedIds };
+  }
+
+  private upsert(filter: Filter, update: Filter) {
+    const doc: Document = { _id: new ObjectId() };
+    for (const [key, value] of Object.entries(filter)) {
+      if (!key.startsWith("$") && !(isPlainObject(value) && Object.keys(value).some((op) => op.startsWith("$")))) {
+        setPath(doc, key, clone(value));
+      }
+    }
+    applyUpdate(doc, update, true);
+    this.docs.push(doc);
+    return doc;
+  }
+
+  async updateOne(filter: Filter, update: Filter, options: { upsert?: boolean } = {}) {
+    const doc = this.docs.find((candidate) => matches(candidate, filter));
+    if (doc) {
+      applyUpdate(doc, update, false);
+      return { acknowledged: true, matchedCount: 1, modifiedCount: 1, upsertedCount: 0, upsertedId: null };
+    }
+    if (options.upsert) {
+      const inserted = this.upsert(filter, update);
+      return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedCount: 1, upsertedId: inserted._id };
+    }
+    return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedCount: 0, upsertedId: null };
+  }
+
+  async replaceOne(filter: Filter, replacement: Document, options: { upsert?: boolean } = {}) {
+    return this.updateOne(filter, replacement, options);
+  }
+
+  async updateMany(filter: Filter, update: Filter) {
+    const docs = this.docs.filter((doc) => matches(doc, filter));
+    docs.forEach((doc) => applyUpdate(doc, update, false));
+    return { acknowledged: true, matchedCount: docs.length, modifiedCount: docs.length, upsertedCount: 0, upsertedId: null };
+  }
+
+  async findOneAndUpdate(
+    filter: Filter,
+    update: Filter,
+    options: { upsert?: boolean; returnDocument?: "before" | "after"; projection?: Filter } = {}
+  ) {
+    const doc = this.docs.find((candidate) => matches(candidate, filter));
+    if (!doc && !options.upsert) return null;
+
+    const before = doc ? clone(doc) : null;
+    const after = doc ? (applyUpdate(doc, update, false), doc) : this.upsert(filter, update);
+    const result = options.returnDocument === "after" ? after : before;
+    return result ? clone(project(result, options.projection)) : null;
+  }
+
+  async findOneAndDelete(filter: Filter) {
+    const index = this.docs.findIndex((doc) => matches(doc, filter));
+    return index < 0 ? null : this.docs.splice(index, 1)[0];
+  }
+
+  async deleteOne(filter: Filter) {
+    const index = this.docs.findIndex((doc) => matches(doc, filter));
+    if (index >= 0) this.docs.splice(index, 1);
+    return { acknowledged: true, deletedCount: index >= 0 ? 1 : 0 };
+  }
+
+  async deleteMany(filter: Filter = {}) {
+    const before = this.docs.length;
+    this.docs = this.docs.filter((doc) => !matches(doc, filter));
+    return { acknowledged: true, deletedCount: before - this.docs.length };
+  }
+
+  async bulkWrite(operations: Document[]) {
+    for (const operation of operations) {
+      const [type, args] = Object.entries(operation)[0];
+      switch (type) {
+        case "insertOne":
+          await this.insertOne(args.document);
+          break;
+        case "updateOne":
+          await this.updateOne(args.filter, args.update, args);
+          break;
+        case "updateMany":
+          await this.updateMany(args.filter, args.update);
+          break;
+        case "replaceOne":
+          await this.replaceOne(args.filter, args.replacement, args);
+          break;
+        case "deleteOne":
+          await this.deleteOne(args.filter);
+          break;
+        case "deleteMany":
+          await this.deleteMany(args.filter);
+          break;
+        default:
+          throw new Error(`Unsupported bulk operation ${type}`);
+      }
+    }
+    return { acknowledged: true };
+  }
+
+  aggregate(pipeline: Document[]) {
+    return new InMemoryCursor(() => {
+      let docs = this.docs.map(clone);
+      const scores = new Map<Document, number>();
+
+      for (const stage of pipeline) {
+        const [name, spec] = Object.entries(stage)[0];
+        switch (name) {
+          case "$vectorSearch": {
+            docs = docs
+              .filter((doc) => Array.isArray(getPath(doc, spec.path)) && matches(doc, spec.filter ?? {}))
+              .map((doc) => {
+                // Atlas reports cosine similarity normalized to [0, 1]
+                scores.set(doc, (1 + cosineSimilarity(spec.queryVector, getPath(doc, spec.path))) / 2);
+                return doc;
+              })
+              .sort((a, b) => scores.get(b)! - scores.get(a)!)
+              .slice(0, spec.limit);
+            break;
+          }
+          case "$search": {
+            docs = docs
+              .map((doc) => {
+                scores.set(doc, searchScore(doc, spec));
+                return doc;
+              })
+              .filter((doc) => scores.get(doc)! > 0)
+              .sort((a, b) => scores.get(b)! - scores.get(a)!);
+            break;
+          }
+          case "$geoNear": {
+            // Like the server, $geoNear needs a 2dsphere index on the key and returns nearest first
+            if (!this.indexes.some((index) => index.key[spec.key] === "2dsphere")) {
+              throw new Error(`$geoNear requires a 2dsphere index on ${spec.key}`);
+            }
+            docs = docs
+              .filter((doc) => getPath(doc, spec.key)?.type === "Point" && matches(doc, spec.query ?? {}))
+              .map((doc) => {
+                setPath(doc, spec.distanceField, distanceMeters(spec.near, getPath(doc, spec.key)));
+                return doc;
+              })
+              .filter((doc) => spec.maxDistance === undefined || getPath(doc, spec.distanceField) <= spec.maxDistance)
+              .sort((a, b) => getPath(a, spec.distanceField) - getPath(b, spec.distanceField));
+            break;
+          }
+          case "$match":
+            docs = docs.filter((doc) => matches(doc, spec));
+            break;
+          case "$set":
+          case "$addFields":
+            for (const doc of docs) {
+              for (const [path, value] of Object.entries(spec)) {
+                const meta = isPlainObject(value) ? value.$meta : undefined;
+                setPath(doc, path, meta ? scores.get(doc) : value);
+              }
+            }
+            break;
+          case "$project":
+            docs = docs.map((doc) => project(doc, spec));
+            break;
+          case "$sort":
+            docs = sortDocuments(docs, spec);
+            break;
+          case "$skip":
+            docs = docs.slice(spec);
+            break;
+          case "$limit":
+            docs = docs.slice(0, spec);
+            break;
+          default:
+            throw new Error(`Unsupported aggregation stage ${name}`);
+        }
+      }
+      return docs;
+    });
+  }
+
+  async createIndex(spec: Document, options: Document = {}) {
+    const name = options.name ?? Object.keys(spec).join("_");
+    this.indexes.push({ name, key: spec, ...options });
+    return name;
+  }
+
+  listSearchIndexes(name?: string) {
+    return new InMemoryCursor(() => this.searchIndexes.filter((index) => !name || index.name === name));
+  }
+
+  async createSearchIndex(description: Document) {
+    this.searchIndexes.push(clone(description));
+    return description.name;
+  }
+
+  async updateSearchIndex(name: string, definition: Document) {
+    const index = this.searchIndexes.find((candidate) => candidate.name === name);
+    if (index) index.definition = clone(definition);
+  }
+}
+
+export class InMemoryDb {
+  private collections = new Map<string, InMemoryCollection>();
+
+  constructor(readonly databaseName: string) {}
+
+  collection(name: string) {
+    if (!this.collections.has(name)) this.collections.set(name, new InMemoryCollection(name, this.databaseName));
+    return this.collections.get(name)!;
+  }
+
+  async command() {
+    return { ok: 1 };
+  }
+
+  async dropDatabase() {
+    this.collections.clear();
+    return true;
+  }
+}
+
+export class InMemoryMongoClient {
+  private dbs = new Map<string, InMemoryDb>();
+
+  db(name = "test") {
+    if (!this.dbs.has(name)) this.dbs.set(name, new InMemoryDb(name));
+    return this.dbs.get(name)!;
+  }
+
+  async connect() {
+    return this;
+  }
+
+  async close() {}
+}
+
+// Typed as the real client so it can be passed anywhere the app expects one
+export function createInMemoryMongoClient(): MongoClient {
+  return new InMemoryMongoClient() as unknown as MongoClient;
+}
@@ -0,0 +1,123 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Readable } from "stream";
+import { groupDuplicates } from "../event-dedup";
+import { readCSVRows, validateEventRows } from "../event-ingest";
+import { embedEventDocument, embedEventDocuments } from "../event-documents";
+import { parseEventSchedule } from "../event-schedule";
+import { HashEmbeddings, LookupTableGeocoder, ScriptedChatModel } from "../fake-providers";
+import { overrideProviders, resetProviderOverrides } from "../providers";
+import { overrideResiliencePolicies, resetResilience, withResilience } from "../resilience";
+import { generateEventsWithModel, generateSyntheticEvents, toEventsCSV } from "../synthetic-events";
+
+const startDate = new Date("2027-03-01T00:00:00Z");
+
+describe("synthetic events", () => {
+  afterEach(() => {
+    resetResilience();
+    resetProviderOverrides();
+  });
+
+  it("generates the same rows for the same seed", () => {
+    const options = { count: 30, seed: 7, startDate };
+    assert.deepEqual(generateSyntheticEvents(options), generateSyntheticEvents(options));
+    assert.notDeepEqual(generateSyntheticEvents(options).events, generateSyntheticEvents({ ...options, seed: 8 }).events);
+
+    // Without a start date, one-off dates count from a fixed day rather than today
+    const { events } = generateSyntheticEvents({ count: 10, seed: 7, recurrenceMix: { once: 1 }, duplicateRate: 0 });
+    assert.ok(events.every((event) => event.date >= "2026-01-01" && event.date < "2026-04-01"), events.map((event) => event.date).join(", "));
+  });
+
+  it("follows the requested cities, type mix and recurrence patterns", () => {
+    const { events } = generateSyntheticEvents({
+      count: 40,
+      cities: ["ldn", "Atlanta"],
+      typeMix: { Brunch: 1, Club: 1, Restaurant: 0 },
+      recurrenceMix: { monthly: 1, once: 1 },
+      duplicateRate: 0,
+      startDate,
+    });
+
+    assert.equal(events.length, 40);
+    assert.deepEqual(new Set(events.map((event) => event.city)), new Set(["London", "Atlanta"]));
+    assert.deepEqual(new Set(events.map((event) => event.type)), new Set(["Brunch", "Club"]));
+    for (const event of events) {
+      const schedule = parseEventSchedule(event.date, event.time, event.city);
+      assert.ok(schedule.recurrence?.startsWith("FREQ=MONTHLY") || /^2027-0[3-5]-\d\d$/.test(event.date), event.date);
+      assert.ok(!schedule.allDay, event.time);
+    }
+  });
+
+  it("adds near-duplicates that deduplication merges back", () => {
+    const { events, duplicates } = generateSyntheticEvents({ count: 40, duplicateRate: 0.25, seed: 3, startDate });
+
+    assert.equal(duplicates.length, 10);
+    for (const { index, of } of duplicates) {
+      assert.notDeepEqual(events[index], events[of]);
+      assert.equal(events[index].city, events[of].city);
+    }
+    assert.equal(groupDuplicates(events, (event) => event).length, 30);
+  });
+
+  it("writes CSV the seeder accepts", async () => {
+    const { events } = generateSyntheticEvents({ count: 25, seed: 11, startDate });
+    const validation = validateEventRows(await readCSVRows(Readable.from([toEventsCSV(events)])));
+
+    assert.deepEqual(validation.rejected, []);
+    assert.equal(validation.events.length, 25);
+    assert.deepEqual(
+      validation.events.map((event) => event.name),
+      events.map((event) => event.name)
+    );
+  });
+
+  it("embeds generated events a batch per embeddings request", async () => {
+    const embeddings = new HashEmbeddings();
+    const requests: number[] = [];
+    const embedDocuments = embeddings.embedDocuments.bind(embeddings);
+    embeddings.embedDocuments = (texts) => {
+      requests.push(texts.length);
+      return embedDocuments(texts);
+    };
+    overrideProviders({ embeddings, geocoder: new LookupTableGeocoder() });
+    const { events } = generateSyntheticEvents({ count: 5, startDate });
+
+    const documents = await embedEventDocuments(events, 2);
+
+    assert.deepEqual(requests, [2, 2, 1]);
+    // The same documents as embedding them one by one, apart from when they were made
+    assert.deepEqual({ ...documents[0], syncedAt: undefined }, { ...(await embedEventDocument(events[0])), syncedAt: undefined });
+  });
+
+  it("asks the model for the originals and adds near-duplicates itself", async () => {
+    const original = {
+      name: "Soca Brunch",
+      type: "Brunch",
+      date: "every Saturday",
+      time: "1pm-6pm",
+      location: "Brixton, London",
+      instagram: "@socabrunch",
+      city: "London",
+      notes: "",
+      similarTo: "",
+    };
+    const model = new ScriptedChatModel({
+      rules: [{ match: ({ prompt }) => prompt.includes("Generate 1 fictional events"), reply: () => JSON.stringify([original]) }],
+    });
+
+    const { events, duplicates } = await generateEventsWithModel(model, { count: 2, duplicateRate: 0.5, startDate });
+    assert.deepEqual(duplicates.length, 1);
+    assert.deepEqual(events[duplicates[0].of], original);
+  });
+
+  it("calls the model under the generation policy, apart from the chat model's circuit", async () => {
+    overrideResiliencePolicies({ generation: { retries: 0, failureThreshold: 1 } });
+    const model = new ScriptedChatModel({
+      rules: [{ match: () => true, reply: () => Promise.reject(Object.assign(new Error("Service Unavailable"), { status: 503 })) }],
+    });
+
+    await assert.rejects(generateEventsWithModel(model, { count: 2, startDate }), { provider: "generation", message: "Service Unavailable" });
+    await assert.rejects(generateEventsWithModel(model, { count: 2, startDate }), { message: "Generation model unavailable (circuit open)" });
+    assert.equal(await withResilience("chat", async () => "ok"), "ok");
+  });
+});
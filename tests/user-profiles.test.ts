@@ -0,0 +1,90 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ScriptContext } from "../fake-providers";
+import { getJson, postJson, startTestServer, TestServer } from "./support/harness";
+
+describe("user preference memory", () => {
+  let server: TestServer;
+  const lastMessage = (context: ScriptContext) => context.messages[context.messages.length - 1];
+  const said = (context: ScriptContext, text: string) =>
+    lastMessage(context)._getType() === "human" && String(lastMessage(context).content).includes(text);
+  const toolNamesSeen: string[][] = [];
+
+  before(async () => {
+    server = await startTestServer([
+      {
+        match: (context) => said(context, "I live in London"),
+        reply: () => ({
+          toolCalls: [
+            { name: "remember_preference", args: { key: "Home City", value: "London" } },
+            { name: "remember_preference", args: { key: "dietary", value: "vegan" } },
+          ],
+        }),
+      },
+      {
+        match: (context) => said(context, "I eat meat now"),
+        reply: () => ({ toolCalls: [{ name: "forget_preference", args: { key: "dietary" } }] }),
+      },
+      {
+        match: (context) => lastMessage(context)._getType() === "tool",
+        reply: () => "RECOMMENDATIONS\nNoted.",
+      },
+      {
+        match: (context) => said(context, "What's on this weekend?"),
+        reply: (context) => {
+          toolNamesSeen.push(context.toolNames);
+          const city = context.prompt.match(/- home_city: (.+)/)?.[1];
+          const dietary = context.prompt.match(/- dietary: (.+)/)?.[1];
+          return city ? `RECOMMENDATIONS\nHere's ${city} this weekend${dietary ? `, all ${dietary}` : ""}.` : "Which city are you in?";
+        },
+      },
+    ]);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("remembers preferences across threads for the same user", async () => {
+    await postJson(`${server.baseUrl}/chat`, { message: "I live in London and I'm vegan", userId: "ada" });
+
+    const returning = await postJson(`${server.baseUrl}/chat`, { message: "What's on this weekend?", userId: "ada" });
+    assert.equal(returning.body.response, "RECOMMENDATIONS\nHere's London this weekend, all vegan.");
+
+    const { threadId } = returning.body;
+    await postJson(`${server.baseUrl}/chat/${threadId}`, { message: "I eat meat now", userId: "ada" });
+    const updated = await postJson(`${server.baseUrl}/chat/${threadId}`, { message: "What's on this weekend?", userId: "ada" });
+    assert.equal(updated.body.response, "RECOMMENDATIONS\nHere's London this weekend.");
+
+    const anonymous = await postJson(`${server.baseUrl}/chat`, { message: "What's on this weekend?" });
+    assert.equal(anonymous.body.response, "Which city are you in?");
+    assert.ok(toolNamesSeen[0].includes("remember_preference"));
+    assert.ok(!toolNamesSeen[toolNamesSeen.length - 1].includes("remember_preference"));
+  });
+
+  it("lets users view and delete what's remembered", async () => {
+    await postJson(`${server.baseUrl}/chat`, { message: "I live in London and I'm vegan", userId: "grace" });
+
+    const { status, body } = await getJson(`${server.baseUrl}/users/grace/profile`);
+    assert.equal(status, 200);
+    assert.equal(body.profile.preferences.home_city.value, "London");
+    assert.equal(body.profile.preferences.dietary.value, "vegan");
+
+    const forget = () => fetch(`${server.baseUrl}/users/grace/profile/preferences/dietary`, { method: "DELETE" });
+    assert.equal((await forget()).status, 204);
+    assert.equal((await forget()).status, 404);
+    assert.deepEqual(Object.keys((await getJson(`${server.baseUrl}/users/grace/profile`)).body.profile.preferences), ["home_city"]);
+
+    const remove = await fetch(`${server.baseUrl}/users/grace/profile`, { method: "DELETE" });
+    assert.equal(remove.status, 204);
+    assert.equal((await getJson(`${server.baseUrl}/users/grace/profile`)).status, 404);
+  });
+
+  it("rejects malformed user ids", async () => {
+    const chat = await postJson(`${server.baseUrl}/chat`, { message: "Hi", userId: "not a valid id!" });
+    assert.equal(chat.status, 400);
+
+    const profile = await getJson(`${server.baseUrl}/users/${encodeURIComponent("not valid!")}/profile`);
+    assert.equal(profile.status, 400);
+  });
+});
@@ -0,0 +1,319 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { WEB_AGENT_TIMEOUTS } from "../agent-events-web";
+import { messageText } from "../agent-stream";
+import { ScriptContext, ScriptRule, ScriptedReply } from "../fake-providers";
+import { overrideResiliencePolicies } from "../resilience";
+import { getJson, postJson, ScriptedSearchTool, startTestServer, TestServer } from "./support/harness";
+
+const DEFAULT_TIMEOUTS = { ...WEB_AGENT_TIMEOUTS };
+
+const LONDON_QUERIES = ["Afrobeats Brunch Shoreditch, London", "Amapiano Sundays Peckham, London"];
+
+const lastMessage = (context: ScriptContext) => context.messages[context.messages.length - 1];
+
+const never = () => new Promise<never>(() => {});
+
+interface PipelineScript {
+  // What the database agent says once events_lookup has returned
+  lookupReply?: (toolOutput: string) => ScriptedReply | Promise<ScriptedReply>;
+  // The final web synthesis step
+  synthesis?: (prompt: string) => ScriptedReply | Promise<ScriptedReply>;
+  // Makes the database agent's first model call fail
+  lookupError?: boolean;
+}
+
+const eventIdsIn = (prompt: string) => Array.from(prompt.matchAll(/"_id":"([a-f0-9]{24})"/g), (match) => match[1]);
+
+function pipelineRules(script: PipelineScript, synthesisPrompts: string[]): ScriptRule[] {
+  return [
+    {
+      match: ({ prompt }) => prompt.includes("You extract structured event recommendations"),
+      reply: () => '{"recommendations": []}',
+    },
+    {
+      match: ({ prompt }) => prompt.includes("You check event listings against web search results"),
+      reply: ({ prompt }) =>
+        JSON.stringify({
+          verdicts: eventIdsIn(prompt.split("Web search results:")[0]).map((eventId) => ({
+            eventId,
+            status: "verified",
+            sourceUrls: ["https://example.com/afrobeats"],
+            corrections: {},
+          })),
+        }),
+    },
+    {
+      match: (context) => context.toolNames.includes("events_lookup") && lastMessage(context)._getType() === "human",
+      reply: (context) => {
+        if (script.lookupError) throw new Error("model unavailable");
+        const text = messageText(lastMessage(context).content);
+        if (!/London|Lisbon/.test(text)) return "Which city are you visiting?";
+        return { toolCalls: [{ name: "events_lookup", args: { query: text, city: text.includes("Lisbon") ? "Lisbon" : "London" } }] };
+      },
+    },
+    {
+      match: (context) => lastMessage(context)._getType() === "tool",
+      reply: (context) => {
+        const output = messageText(lastMessage(context).content);
+        return script.lookupReply ? script.lookupReply(output) : "- Afrobeats Brunch\n- Amapiano Sundays";
+      },
+    },
+    {
+      match: ({ prompt }) => prompt.startsWith("You are an event recommendation assistant"),
+      reply: ({ prompt }) => {
+        synthesisPrompts.push(prompt);
+        return script.synthesis ? script.synthesis(prompt) : "RECOMMENDATIONS: Afrobeats Brunch is still running every Saturday.";
+      },
+    },
+  ];
+}
+
+describe("database + web verification pipeline", () => {
+  let server: TestServer | undefined;
+  let synthesisPrompts: string[];
+
+  const start = async (script: PipelineScript, search?: ScriptedSearchTool) => {
+    server = await startTestServer(pipelineRules(script, synthesisPrompts), { agent: "web", search });
+    return server;
+  };
+
+  beforeEach(() => {
+    synthesisPrompts = [];
+    overrideResiliencePolicies({ web_search: { timeoutMs: 200 }, chat: { timeoutMs: 200 } });
+    Object.assign(WEB_AGENT_TIMEOUTS, { pipeline: 500 });
+  });
+
+  afterEach(async () => {
+    Object.assign(WEB_AGENT_TIMEOUTS, DEFAULT_TIMEOUTS);
+    delete process.env.VERIFICATION_MAX_AGE_HOURS;
+    await server?.close();
+    server = undefined;
+  });
+
+  it("verifies each database hit on the web and returns the synthesized answer", async () => {
+    const search = new ScriptedSearchTool((query) => JSON.stringify([{ title: query, url: "https://example.com/afrobeats", content: "Open" }]));
+    const { baseUrl } = await start({}, search);
+
+    const { status, body } = await postJson(`${baseUrl}/chat`, { message: "Brunch in London" });
+
+    assert.equal(status, 200);
+    assert.equal(body.response, "RECOMMENDATIONS: Afrobeats Brunch is still running every Saturday.");
+    assert.deepEqual([...search.queries].sort(), LONDON_QUERIES);
+    assert.match(synthesisPrompts[0], /https:\/\/example\.com\/afrobeats/);
+    assert.match(synthesisPrompts[0], /Database Results: - Afrobeats Brunch\n- Amapiano Sundays/);
+  });
+
+  it("verifies the hits however the database agent phrases its reply", async () => {
+    const search = new ScriptedSearchTool(() => "[]");
+    const { baseUrl } = await start({ lookupReply: () => "Found a couple of brunches for you, passing them on." }, search);
+
+    const { body } = await postJson(`${baseUrl}/chat`, { message: "Brunch in London" });
+
+    assert.deepEqual([...search.queries].sort(), LONDON_QUERIES);
+    assert.match(body.response, /^RECOMMENDATIONS:/);
+  });
+
+  it("checkpoints the verified answer into the thread", async () => {
+    const { baseUrl, model } = await start({});
+
+    const first = await postJson(`${baseUrl}/chat`, { message: "Brunch in London" });
+    const seen: string[][] = [];
+    model.rules.unshift({
+      match: (context) => {
+        if (context.toolNames.includes("events_lookup")) seen.push(context.messages.map((message) => messageText(message.content)));
+        return false;
+      },
+      reply: () => "",
+    });
+    await postJson(`${baseUrl}/chat/${first.body.threadId}`, { message: "Anything in Lisbon?" });
+
+    assert.ok(seen[0].includes(first.body.response));
+    const thread = await getJson(`${baseUrl}/threads/${first.body.threadId}`);
+    const answers = thread.body.messages.filter((message: any) => message.role === "ai").map((message: any) => message.content);
+    assert.ok(answers.includes(first.body.response));
+  });
+
+  it("falls back to a web-only search when the database has no results", async () => {
+    const search = new ScriptedSearchTool(() => "[]");
+    const { baseUrl } = await start({ lookupReply: () => "Nothing in the database for that." }, search);
+
+    const { body } = await postJson(`${baseUrl}/chat`, { message: "Jazz in Lisbon" });
+
+    assert.deepEqual(search.queries, ["Jazz in Lisbon"]);
+    assert.match(synthesisPrompts[0], /Database Results: No database results found\./);
+    assert.match(body.response, /^RECOMMENDATIONS/);
+  });
+
+  it("treats a failing database agent as no results and searches the web", async () => {
+    const search = new ScriptedSearchTool(() => "[]");
+    const { baseUrl } = await start({ lookupError: true }, search);
+
+    const { status, body } = await postJson(`${baseUrl}/chat`, { message: "Jazz in Lisbon" });
+
+    assert.equal(status, 200);
+    assert.deepEqual(search.queries, ["Jazz in Lisbon"]);
+    assert.deepEqual(body.degraded, [{ step: "lookup", reason: "error" }]);
+  });
+
+  it("returns the database agent's reply unchanged when it didn't search", async () => {
+    const search = new ScriptedSearchTool(() => "[]");
+    const { baseUrl } = await start({}, search);
+
+    const { body } = await postJson(`${baseUrl}/chat`, { message: "Any brunches?" });
+
+    assert.equal(body.response, "Which city are you visiting?");
+    assert.deepEqual(body.recommendations, []);
+    assert.deepEqual(search.queries, []);
+    assert.equal(synthesisPrompts.length, 0);
+  });
+
+  it("runs the searches concurrently and reuses cached results on the next request", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const search = new ScriptedSearchTool(async (query) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      inFlight--;
+      return JSON.stringify([{ title: query, url: "https://example.com/afrobeats", content: "Open" }]);
+    });
+    const { baseUrl } = await start({}, search);
+    // Re-check every time, so only the cache saves the second round of searches
+    process.env.VERIFICATION_MAX_AGE_HOURS = "0";
+
+    await postJson(`${baseUrl}/chat`, { message: "Brunch in London" });
+    assert.equal(maxInFlight, 2);
+    assert.equal(search.queries.length, 2);
+
+    await postJson(`${baseUrl}/chat`, { message: "Brunch in London" });
+    assert.equal(search.queries.length, 2);
+    assert.match(synthesisPrompts[1], /https:\/\/example\.com\/afrobeats/);
+    assert.match(synthesisPrompts[1], /"cached": true/);
+  });
+
+  it("stores verdicts on the events and reuses them until they go stale", async () => {
+    const search = new ScriptedSearchTool(() => "[]");
+    const { baseUrl, client, model } = await start({}, search);
+    const events = client.db("events_database").collection("events");
+
+    await postJson(`${baseUrl}/chat`, { message: "Brunch in London" });
+
+    const verified = await events.find({ city: "London" }).toArray();
+    assert.deepEqual(
+      verified.map((event) => event.verification?.status),
+      ["verified", "verified"]
+    );
+    assert.deepEqual(verified[0].verification.sourceUrls, ["https://example.com/afrobeats"]);
+
+    // The next request skips the web entirely, but the stored checks still reach the answer
+    const brunchId = String(verified[0]._id);
+    model.rules.unshift({
+      match: ({ prompt }) => prompt.includes("You extract structured event recommendations"),
+      reply: () =>
+        JSON.stringify({
+          recommendations: [
+            {
+              eventId: brunchId,
+              name: "Afrobeats Brunch",
+              type: "Brunch",
+              date: "",
+              time: "",
+              location: "",
+              city: "London",
+              instagramUrl: null,
+              source: "database",
+              verificationStatus: "not_checked",
+            },
+          ],
+        }),
+    });
+    const { body } = await postJson(`${baseUrl}/chat`, { message: "Brunch in London" });
+
+    assert.equal(search.queries.length, 2);
+    assert.equal(synthesisPrompts.length, 2);
+    assert.match(synthesisPrompts[1], /"status": "verified"/);
+    assert.equal(body.recommendations[0].verificationStatus, "verified");
+  });
+
+  it("records failed and timed out searches and still synthesizes", async () => {
+    const search = new ScriptedSearchTool((query) => (query.startsWith("Afrobeats") ? Promise.reject(new Error("rate limited")) : never()));
+    const { baseUrl } = await start({}, search);
+
+    const { body } = await postJson(`${baseUrl}/chat`, { message: "Brunch in London" });
+
+    assert.match(body.response, /^RECOMMENDATIONS:/);
+    assert.match(synthesisPrompts[0], /"error": "rate limited"/);
+    assert.match(synthesisPrompts[0], /"error": "Search timeout"/);
+  });
+
+  it("returns the unverified database results when synthesis fails", async () => {
+    const { baseUrl } = await start({
+      synthesis: () => {
+        throw new Error("model unavailable");
+      },
+    });
+
+    const { body } = await postJson(`${baseUrl}/chat`, { message: "Brunch in London" });
+
+    assert.equal(
+      body.response,
+      "RECOMMENDATIONS\nI found these events but couldn't verify all details because writing the verified answer failed:\n- Afrobeats Brunch\n- Amapiano Sundays"
+    );
+    assert.deepEqual(body.degraded, [{ step: "synthesis", reason: "error" }]);
+  });
+
+  it("returns the unverified database results when synthesis times out", async () => {
+    const { baseUrl } = await start({ synthesis: never });
+
+    const { body } = await postJson(`${baseUrl}/chat`, { message: "Brunch in London" });
+
+    assert.match(body.response, /^RECOMMENDATIONS\nI found these events but couldn't verify all details because writing the verified answer timed out:/);
+  });
+
+  it("returns the database results when the whole web step times out", async () => {
+    overrideResiliencePolicies({ web_search: { timeoutMs: 1000 }, chat: { timeoutMs: 1000 } });
+    Object.assign(WEB_AGENT_TIMEOUTS, { pipeline: 100 });
+    const search = new ScriptedSearchTool(never);
+    const { baseUrl } = await start({}, search);
+
+    const { body } = await postJson(`${baseUrl}/chat`, { message: "Brunch in London" });
+
+    assert.match(body.response, /^RECOMMENDATIONS\nI found these events but couldn't verify all details because web search timed out:\n- Afrobeats Brunch/);
+    assert.deepEqual(body.degraded, [{ step: "web_search", reason: "timeout" }]);
+    assert.equal(synthesisPrompts.length, 0);
+  });
+
+  it("apologizes when a web-only search times out", async () => {
+    overrideResiliencePolicies({ web_search: { timeoutMs: 1000 }, chat: { timeoutMs: 1000 } });
+    Object.assign(WEB_AGENT_TIMEOUTS, { pipeline: 100 });
+    const { baseUrl } = await start({ lookupReply: () => "Nothing found." }, new ScriptedSearchTool(never));
+
+    const { body } = await postJson(`${baseUrl}/chat`, { message: "Jazz in Lisbon" });
+
+    assert.match(body.response, /^RECOMMENDATIONS\nI couldn't find any specific events in our database or through web search because web search timed out\./);
+  });
+
+  it("streams web search progress and only the final answer's tokens", async () => {
+    const { baseUrl } = await start({});
+
+    const response = await fetch(`${baseUrl}/chat/web-stream-thread/stream`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ message: "Brunch in London" }),
+    });
+    const events = (await response.text())
+      .trim()
+      .split("\n\n")
+      .map((block) => JSON.parse(block.split("\n")[1].slice("data: ".length)));
+    const types = events.map((event) => event.type);
+
+    assert.equal(types[0], "events_lookup_start");
+    assert.equal(types.filter((type) => type === "web_search_start").length, 2);
+    assert.ok(types.indexOf("web_search_end") < types.indexOf("token"));
+    assert.equal(
+      events.filter((event) => event.type === "token").map((event) => event.content).join(""),
+      "RECOMMENDATIONS: Afrobeats Brunch is still running every Saturday."
+    );
+    assert.equal(types[types.length - 1], "final");
+  });
+});
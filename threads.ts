@@ -0,0 +1,206 @@
+import { randomUUID } from "crypto";
+import { Request, Response, Router } from "express";
+import { BaseMessage, isToolMessage } from "@langchain/core/messages";
+import { MongoDBSaver } from "@langchain/langgraph-checkpoint-mongodb";
+import { MongoClient } from "mongodb";
+import { ListQuerySchema } from "./admin-events";
+import { messageText } from "./agent-stream";
+import { authOf } from "./auth";
+import { recommendationCalendarEntry, sendCalendar, toICalendar } from "./icalendar";
+import { Recommendation } from "./recommendations";
+
+// Every domain's agent checkpoints into this database, using MongoDBSaver's default collection names
+export const THREADS_DB_NAME = "events_database";
+const CHECKPOINT_COLLECTIONS = ["checkpoints", "checkpoint_writes"];
+
+export interface ThreadSummary {
+  threadId: string;
+  // The user who started the thread; only they can read or continue it when auth is on
+  ownerId?: string;
+  // The domain profile the thread chats with. Threads from before domains were added are "events"
+  domain?: string;
+  createdAt: Date;
+  lastActivityAt: Date;
+  // The latest turn that recommended anything, for the calendar export
+  recommendations?: Recommendation[];
+}
+
+export interface ThreadMessage {
+  role: "human" | "ai" | "tool" | "system";
+  content: string;
+  toolCalls?: { id?: string; name: string; args: Record<string, any> }[];
+  toolName?: string;
+  toolCallId?: string;
+}
+
+function threadsCollection(client: MongoClient) {
+  return client.db(THREADS_DB_NAME).collection<ThreadSummary>("threads");
+}
+
+// Random ids can't be guessed or collide the way Date.now() timestamps did
+export function createThreadId(): string {
+  return randomUUID();
+}
+
+// Claims a new thread for `ownerId` on its first turn. Callers check canAccessThread first, which refuses
+// threads that already ran without an owner, so an owner is never written onto existing checkpoints
+export async function recordThreadActivity(client: MongoClient, threadId: string, ownerId?: string, domain = "events") {
+  const now = new Date();
+  await threadsCollection(client).updateOne(
+    { threadId },
+    { $set: { lastActivityAt: now }, $setOnInsert: { threadId, domain, createdAt: now, ...(ownerId && { ownerId }) } },
+    { upsert: true }
+  );
+}
+
+// Whether the thread can be continued in `domain`: it was started there, or it hasn't been started yet
+export async function isThreadInDomain(client: MongoClient, threadId: string, domain: string): Promise<boolean> {
+  const thread = await threadsCollection(client).findOne({ threadId }, { projection: { domain: 1 } });
+  return !thread || (thread.domain ?? "events") === domain;
+}
+
+// Whether the thread has run at all, whether or not it has a threads record
+async function hasCheckpoints(client: MongoClient, threadId: string): Promise<boolean> {
+  const checkpoint = await client.db(THREADS_DB_NAME).collection("checkpoints").findOne({ thread_id: threadId }, { projection: { _id: 1 } });
+  return checkpoint !== null;
+}
+
+// Whether `userId` may use the thread: it's theirs, or the id is brand new.
+// Threads that ran without an owner, e.g. from before ownership was recorded, are refused to everyone
+export async function canAccessThread(client: MongoClient, threadId: string, userId: string): Promise<boolean> {
+  const thread = await threadsCollection(client).findOne({ threadId }, { projection: { ownerId: 1 } });
+  if (thread) return thread.ownerId === userId;
+  return !(await hasCheckpoints(client, threadId));
+}
+
+// Keeps a turn's recommendations on the thread. Turns without any leave the previous ones in place
+export async function recordThreadRecommendations(client: MongoClient, threadId: string, recommendations: Recommendation[]) {
+  if (!recommendations.length) return;
+  await threadsCollection(client).updateOne({ threadId }, { $set: { recommendations } });
+}
+
+export async function listThreads(client: MongoClient, limit = 50, skip = 0, ownerId?: string): Promise<ThreadSummary[]> {
+  return threadsCollection(client)
+    .find(ownerId ? { ownerId } : {}, { projection: { _id: 0, recommendations: 0 } })
+    .sort({ lastActivityAt: -1 })
+    .skip(skip)
+    .limit(limit)
+    .toArray();
+}
+
+function toThreadMessage(message: BaseMessage): ThreadMessage {
+  const type = message._getType();
+  const role = type === "human" || type === "ai" || type === "tool" || type === "system" ? type : "system";
+  const threadMessage: ThreadMessage = { role, content: messageText(message.content) };
+
+  if (role === "ai" && "tool_calls" in message && Array.isArray(message.tool_calls) && message.tool_calls.length) {
+    threadMessage.toolCalls = message.tool_calls.map(({ id, name, args }) => ({ id, name, args }));
+  }
+  if (isToolMessage(message)) {
+    threadMessage.toolName = message.name;
+    threadMessage.toolCallId = message.tool_call_id;
+  }
+  return threadMessage;
+}
+
+// Reads the latest checkpoint for a thread. Returns null when the thread has never run
+export async function getThreadMessages(client: MongoClient, threadId: string): Promise<ThreadMessage[] | null> {
+  const checkpointer = new MongoDBSaver({ client, dbName: THREADS_DB_NAME });
+  const tuple = await checkpointer.getTuple({ configurable: { thread_id: threadId } });
+  if (!tuple) return null;
+
+  const messages = (tuple.checkpoint.channel_values.messages ?? []) as BaseMessage[];
+  return messages.map(toThreadMessage);
+}
+
+// Removes every checkpoint of a thread. Returns false when there was nothing to delete
+export async function deleteThread(client: MongoClient, threadId: string): Promise<boolean> {
+  const db = client.db(THREADS_DB_NAME);
+  const results = await Promise.all([
+    ...CHECKPOINT_COLLECTIONS.map((name) => db.collection(name).deleteMany({ thread_id: threadId })),
+    threadsCollection(client).deleteOne({ threadId }),
+  ]);
+  return results.some((result) => result.deletedCount > 0);
+}
+
+export function createThreadsRouter(client: MongoClient): Router {
+  const router = Router();
+
+  router.get("/", async (req: Request, res: Response) => {
+    const query = ListQuerySchema.safeParse({ limit: req.query.limit, skip: req.query.skip });
+    if (!query.success) {
+      res.status(400).json({ error: "Invalid limit or skip", issues: query.error.issues });
+      return;
+    }
+    const limit = Math.min(query.data.limit, 200);
+    try {
+      res.json({ threads: await listThreads(client, limit, query.data.skip, authOf(res)?.userId) });
+    } catch (error) {
+      console.error("Error listing threads: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // With auth on, other users' threads are refused
+  router.param("threadId", async (req, res, next, threadId) => {
+    const auth = authOf(res);
+    try {
+      if (auth && !(await canAccessThread(client, threadId, auth.userId))) {
+        res.status(403).json({ error: "Forbidden" });
+        return;
+      }
+      next();
+    } catch (error) {
+      console.error("Error checking thread owner: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  router.get("/:threadId", async (req: Request, res: Response) => {
+    const { threadId } = req.params;
+    try {
+      const messages = await getThreadMessages(client, threadId);
+      if (!messages) {
+        res.status(404).json({ error: "Thread not found" });
+        return;
+      }
+      res.json({ threadId, messages });
+    } catch (error) {
+      console.error("Error getting thread: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Downloads the thread's latest recommendations as an .ics file, leaving out any without a readable date
+  router.get("/:threadId/recommendations/calendar", async (req: Request, res: Response) => {
+    const { threadId } = req.params;
+    try {
+      const thread = await threadsCollection(client).findOne({ threadId }, { projection: { recommendations: 1 } });
+      const entries = (thread?.recommendations ?? []).map(recommendationCalendarEntry).filter((entry) => entry !== null);
+      if (!entries.length) {
+        res.status(404).json({ error: "No recommendations with dates in this thread" });
+        return;
+      }
+      sendCalendar(res, `recommendations-${threadId}`, toICalendar(entries, "Event recommendations"));
+    } catch (error) {
+      console.error("Error exporting recommendations calendar: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  router.delete("/:threadId", async (req: Request, res: Response) => {
+    const { threadId } = req.params;
+    try {
+      if (!(await deleteThread(client, threadId))) {
+        res.status(404).json({ error: "Thread not found" });
+        return;
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting thread: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  return router;
+}
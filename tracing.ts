@@ -0,0 +1,354 @@
+import { randomUUID } from "crypto";
+import { Request, Response, Router } from "express";
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import { Serialized } from "@langchain/core/load/serializable";
+import { AIMessage, BaseMessage, isBaseMessage, isToolMessage } from "@langchain/core/messages";
+import { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+import { ChainValues } from "@langchain/core/utils/types";
+import { MongoClient } from "mongodb";
+import { AgentStreamEvent, DegradedStep, RunTrace, messageText } from "./agent-stream";
+import { authOf } from "./auth";
+import { metrics } from "./metrics";
+import { canAccessThread } from "./threads";
+
+const dbName = "events_database";
+
+export interface TraceNode {
+  node: string;
+  startedAt: Date;
+  durationMs?: number;
+  error?: string;
+}
+
+// An event a lookup tool returned, with the score it was ranked by
+export interface TraceScore {
+  eventId?: string;
+  name?: string;
+  score: number;
+  matchedBy?: string;
+}
+
+export interface TraceToolCall {
+  tool: string;
+  args: Record<string, unknown>;
+  startedAt: Date;
+  durationMs?: number;
+  status: "ok" | "error";
+  error?: string;
+  scores?: TraceScore[];
+}
+
+export interface TraceModelCall {
+  provider: string;
+  model: string;
+  durationMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  // Null when the model isn't in the price table
+  costUsd: number | null;
+}
+
+export interface TraceWebSearch {
+  query: string;
+  outcome: "ok" | "cached" | "timeout" | "error";
+  error?: string;
+}
+
+export interface TraceUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+// One chat request, as stored in the traces collection
+export interface TraceDocument {
+  traceId: string;
+  threadId: string;
+  userId?: string;
+  agent: string;
+  domain: string;
+  query: string;
+  // "degraded" runs answered around a failed step, which `degraded` lists
+  status: "ok" | "degraded" | "error" | "aborted";
+  error?: string;
+  degraded?: DegradedStep[];
+  startedAt: Date;
+  durationMs: number;
+  nodes: TraceNode[];
+  toolCalls: TraceToolCall[];
+  modelCalls: TraceModelCall[];
+  webSearches: TraceWebSearch[];
+  fallbacks: string[];
+  usage: TraceUsage;
+}
+
+// US dollars per million input and output tokens, matched by model name prefix (most specific first)
+const MODEL_PRICES: [prefix: string, input: number, output: number][] = [
+  ["claude-3-5-sonnet", 3, 15],
+  ["claude-3-5-haiku", 0.8, 4],
+  ["claude-3-opus", 15, 75],
+  ["claude-3-haiku", 0.25, 1.25],
+  ["gpt-4o-mini", 0.15, 0.6],
+  ["gpt-4o", 2.5, 10],
+];
+
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number | null {
+  const price = MODEL_PRICES.find(([prefix]) => model.startsWith(prefix));
+  if (!price) return null;
+  const [, input, output] = price;
+  return (inputTokens * input + outputTokens * output) / 1_000_000;
+}
+
+const LOOKUP_TOOLS = ["events_lookup", "events_nearby"];
+
+// Pulls the ranked events out of an events_lookup or events_nearby result; other outputs have none
+function lookupScores(output: string): TraceScore[] | undefined {
+  try {
+    const results = JSON.parse(output);
+    if (!Array.isArray(results)) return undefined;
+    return results.map(([doc, score]) => ({
+      eventId: doc?.metadata?._id,
+      name: doc?.metadata?.name,
+      score,
+      matchedBy: doc?.metadata?.retrieval?.matchedBy,
+    }));
+  } catch {
+    return undefined;
+  }
+}
+
+function webSearchOutcome(event: Extract<AgentStreamEvent, { type: "web_search_end" }>): TraceWebSearch["outcome"] {
+  if (event.error) return /timeout/i.test(event.error) ? "timeout" : "error";
+  return event.cached ? "cached" : "ok";
+}
+
+const elapsed = (startedAt: Date) => Date.now() - startedAt.getTime();
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Builds the trace of one agent run from its callbacks and stream events, counting the run in /metrics as it goes
+export class TraceRecorder extends BaseCallbackHandler implements RunTrace {
+  name = "trace_recorder";
+
+  readonly traceId = randomUUID();
+
+  private startedAt = new Date();
+  private nodes = new Map<string, TraceNode>();
+  private toolCalls = new Map<string, TraceToolCall>();
+  private modelCalls = new Map<string, { provider: string; model: string; startedAt: Date }>();
+  private finishedModelCalls: TraceModelCall[] = [];
+  private webSearches: TraceWebSearch[] = [];
+  private fallbacks: string[] = [];
+  private degraded: DegradedStep[] = [];
+
+  constructor(private run: { threadId: string; agent: string; domain: string; query: string; userId?: string }) {
+    super();
+    this.awaitHandlers = true;
+  }
+
+  // LangGraph runs each node as a chain named after it; everything else nested inside is skipped
+  handleChainStart(
+    chain: Serialized,
+    inputs: ChainValues,
+    runId: string,
+    parentRunId?: string,
+    tags?: string[],
+    metadata?: Record<string, unknown>,
+    runType?: string,
+    runName?: string
+  ) {
+    if (runName && runName === metadata?.langgraph_node) {
+      this.nodes.set(runId, { node: runName, startedAt: new Date() });
+    }
+  }
+
+  handleChainEnd(outputs: ChainValues, runId: string) {
+    const node = this.nodes.get(runId);
+    if (node) node.durationMs = elapsed(node.startedAt);
+  }
+
+  handleChainError(error: unknown, runId: string) {
+    const node = this.nodes.get(runId);
+    if (node) {
+      node.durationMs = elapsed(node.startedAt);
+      node.error = errorMessage(error);
+    }
+  }
+
+  handleToolStart(
+    tool: Serialized,
+    input: string,
+    runId: string,
+    parentRunId?: string,
+    tags?: string[],
+    metadata?: Record<string, unknown>,
+    runName?: string
+  ) {
+    let args: Record<string, unknown>;
+    try {
+      args = JSON.parse(input);
+    } catch {
+      args = { input };
+    }
+    this.toolCalls.set(runId, { tool: runName ?? tool.id[tool.id.length - 1], args, startedAt: new Date(), status: "ok" });
+  }
+
+  handleToolEnd(output: unknown, runId: string) {
+    const call = this.toolCalls.get(runId);
+    if (!call) return;
+    call.durationMs = elapsed(call.startedAt);
+    if (LOOKUP_TOOLS.includes(call.tool)) {
+      const text = typeof output === "string" ? output : isBaseMessage(output) && isToolMessage(output) ? messageText(output.content) : "";
+      call.scores = lookupScores(text);
+    }
+    this.countToolCall(call);
+  }
+
+  handleToolError(error: unknown, runId: string) {
+    const call = this.toolCalls.get(runId);
+    if (!call) return;
+    call.durationMs = elapsed(call.startedAt);
+    call.status = "error";
+    call.error = errorMessage(error);
+    this.countToolCall(call);
+  }
+
+  handleChatModelStart(
+    llm: Serialized,
+    messages: BaseMessage[][],
+    runId: string,
+    parentRunId?: string,
+    extraParams?: Record<string, unknown>,
+    tags?: string[],
+    metadata?: Record<string, unknown>
+  ) {
+    this.modelCalls.set(runId, {
+      provider: String(metadata?.ls_provider ?? "unknown"),
+      model: String(metadata?.ls_model_name ?? "unknown"),
+      startedAt: new Date(),
+    });
+  }
+
+  handleLLMEnd(output: LLMResult, runId: string) {
+    const started = this.modelCalls.get(runId);
+    if (!started) return;
+    this.modelCalls.delete(runId);
+
+    const usage = output.generations
+      .flat()
+      .map((generation) => ((generation as ChatGeneration).message as AIMessage | undefined)?.usage_metadata)
+      .reduce(
+        (total, metadata) => ({
+          input: total.input + (metadata?.input_tokens ?? 0),
+          output: total.output + (metadata?.output_tokens ?? 0),
+        }),
+        { input: 0, output: 0 }
+      );
+    const inputTokens = usage.input || output.llmOutput?.tokenUsage?.promptTokens || 0;
+    const outputTokens = usage.output || output.llmOutput?.tokenUsage?.completionTokens || 0;
+    const costUsd = estimateCost(started.model, inputTokens, outputTokens);
+
+    const { provider, model } = started;
+    this.finishedModelCalls.push({ provider, model, durationMs: elapsed(started.startedAt), inputTokens, outputTokens, costUsd });
+    metrics.llmTokens.inc({ provider, model, type: "input" }, inputTokens);
+    metrics.llmTokens.inc({ provider, model, type: "output" }, outputTokens);
+    if (costUsd !== null) metrics.llmCost.inc({ provider, model }, costUsd);
+  }
+
+  handleLLMError(error: unknown, runId: string) {
+    this.modelCalls.delete(runId);
+  }
+
+  // Web searches and fallbacks happen outside of callbacks, so the pipeline reports them here
+  record(event: AgentStreamEvent) {
+    if (event.type === "web_search_end") {
+      const outcome = webSearchOutcome(event);
+      this.webSearches.push({ query: event.query, outcome, ...(event.error && { error: event.error }) });
+      metrics.webSearches.inc({ outcome });
+    } else if (event.type === "fallback") {
+      this.fallbacks.push(event.reason);
+      metrics.agentFallbacks.inc({ reason: event.reason });
+    }
+  }
+
+  // The steps a completed run answered around, from its result
+  recordDegraded(steps: DegradedStep[]) {
+    this.degraded.push(...steps);
+  }
+
+  private countToolCall(call: TraceToolCall) {
+    metrics.toolCalls.inc({ tool: call.tool, status: call.status });
+    metrics.toolDuration.observe({ tool: call.tool }, (call.durationMs ?? 0) / 1000);
+  }
+
+  toDocument(status: TraceDocument["status"], error?: unknown): TraceDocument {
+    const modelCalls = this.finishedModelCalls;
+    const inputTokens = modelCalls.reduce((total, call) => total + call.inputTokens, 0);
+    const outputTokens = modelCalls.reduce((total, call) => total + call.outputTokens, 0);
+    return {
+      traceId: this.traceId,
+      ...this.run,
+      status,
+      ...(error !== undefined && { error: errorMessage(error) }),
+      ...(this.degraded.length > 0 && { degraded: this.degraded }),
+      startedAt: this.startedAt,
+      durationMs: elapsed(this.startedAt),
+      nodes: Array.from(this.nodes.values()),
+      toolCalls: Array.from(this.toolCalls.values()),
+      modelCalls,
+      webSearches: this.webSearches,
+      fallbacks: this.fallbacks,
+      usage: {
+        inputTokens,
+        outputTokens,
+        totalTokens: inputTokens + outputTokens,
+        costUsd: modelCalls.reduce((total, call) => total + (call.costUsd ?? 0), 0),
+      },
+    };
+  }
+
+  // Saves the trace and counts the run. A trace that can't be saved never fails the request
+  async finish(client: MongoClient, status: TraceDocument["status"], error?: unknown) {
+    metrics.agentRuns.inc({ agent: this.run.agent, status });
+    try {
+      await tracesCollection(client).insertOne(this.toDocument(status, error));
+    } catch (saveError) {
+      console.error("Error saving trace: ", saveError);
+    }
+  }
+}
+
+function tracesCollection(client: MongoClient) {
+  return client.db(dbName).collection<TraceDocument>("traces");
+}
+
+export async function getThreadTraces(client: MongoClient, threadId: string): Promise<TraceDocument[]> {
+  return tracesCollection(client).find({ threadId }, { projection: { _id: 0 } }).sort({ startedAt: 1 }).toArray();
+}
+
+export function createTracesRouter(client: MongoClient): Router {
+  const router = Router();
+
+  router.get("/:threadId", async (req: Request, res: Response) => {
+    const { threadId } = req.params;
+    const auth = authOf(res);
+    try {
+      if (auth && !(await canAccessThread(client, threadId, auth.userId))) {
+        res.status(403).json({ error: "Forbidden" });
+        return;
+      }
+      const traces = await getThreadTraces(client, threadId);
+      if (!traces.length) {
+        res.status(404).json({ error: "No traces found for thread" });
+        return;
+      }
+      res.json({ threadId, traces });
+    } catch (error) {
+      console.error("Error getting traces: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  return router;
+}
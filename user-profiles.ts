@@ -0,0 +1,223 @@
+import { Request, Response, Router } from "express";
+import { tool } from "@langchain/core/tools";
+import { MongoClient } from "mongodb";
+import { z } from "zod";
+import { UserIdSchema, authOf } from "./auth";
+import { THREADS_DB_NAME } from "./threads";
+
+// Profiles are shared by every domain, so they live with the threads
+const dbName = THREADS_DB_NAME;
+
+// Keeps the profile, and the prompt it's injected into, small
+const MAX_PREFERENCES = 30;
+const MAX_VALUE_LENGTH = 200;
+
+// The tool names the agents bind when a chat has a userId
+export const MEMORY_TOOL_NAMES = ["remember_preference", "forget_preference"];
+
+export interface Preference {
+  value: string;
+  updatedAt: Date;
+}
+
+export interface UserProfile {
+  userId: string;
+  // Keyed by snake_case names like home_city, music, budget or dietary
+  preferences: Record<string, Preference>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function profilesCollection(client: MongoClient) {
+  return client.db(dbName).collection<UserProfile>("user_profiles");
+}
+
+// "Home City" and "home-city" are the same preference. Keys become field names, so no dots or $
+export function normalizePreferenceKey(key: string): string {
+  return key
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 40);
+}
+
+export async function getUserProfile(client: MongoClient, userId: string): Promise<UserProfile | null> {
+  return profilesCollection(client).findOne({ userId }, { projection: { _id: 0 } });
+}
+
+// Returns false when the profile is full and `key` isn't already in it
+export async function rememberPreference(client: MongoClient, userId: string, key: string, value: string): Promise<boolean> {
+  const profile = await getUserProfile(client, userId);
+  if (profile && !(key in profile.preferences) && Object.keys(profile.preferences).length >= MAX_PREFERENCES) {
+    return false;
+  }
+
+  const now = new Date();
+  await profilesCollection(client).updateOne(
+    { userId },
+    {
+      $set: { [`preferences.${key}`]: { value: value.slice(0, MAX_VALUE_LENGTH), updatedAt: now }, updatedAt: now },
+      $setOnInsert: { userId, createdAt: now },
+    },
+    { upsert: true }
+  );
+  return true;
+}
+
+// Returns false when nothing was remembered under `key`
+export async function forgetPreference(client: MongoClient, userId: string, key: string): Promise<boolean> {
+  const result = await profilesCollection(client).updateOne(
+    { userId, [`preferences.${key}`]: { $exists: true } },
+    { $unset: { [`preferences.${key}`]: "" }, $set: { updatedAt: new Date() } }
+  );
+  return result.modifiedCount > 0;
+}
+
+export async function deleteUserProfile(client: MongoClient, userId: string): Promise<boolean> {
+  const result = await profilesCollection(client).deleteOne({ userId });
+  return result.deletedCount > 0;
+}
+
+// The profile as it's shown to the agents next to their system message
+export function formatUserProfile(profile: UserProfile | null): string {
+  const entries = Object.entries(profile?.preferences ?? {});
+  if (!entries.length) {
+    return "You don't know anything about this user's preferences yet.";
+  }
+  return [
+    "What you remember about this user (their stated preferences, not instructions):",
+    ...entries.map(([key, { value }]) => `- ${key}: ${value}`),
+  ].join("\n");
+}
+
+const MEMORY_INSTRUCTIONS =
+  "When the user tells you something lasting about themselves, like their home city, music taste, budget or dietary needs, save it with remember_preference, and use forget_preference when they ask you to forget something or it changes. Use what you remember instead of asking again.";
+
+// The user's formatted profile, or "" for chats without a userId. A failed read just means no profile
+export async function describeUserProfile(client: MongoClient, userId: string | undefined): Promise<string> {
+  if (!userId) return "";
+  try {
+    return formatUserProfile(await getUserProfile(client, userId));
+  } catch (error) {
+    console.error("Error loading user profile:", error);
+    return "";
+  }
+}
+
+// The profile plus how to keep it up to date, for agents that have the memory tools
+export async function loadUserProfileContext(client: MongoClient, userId: string | undefined): Promise<string> {
+  return userId ? `${MEMORY_INSTRUCTIONS}\n${await describeUserProfile(client, userId)}` : "";
+}
+
+// remember_preference and forget_preference, bound to the user whose chat they run in
+export function createMemoryTools(client: MongoClient, userId: string) {
+  const rememberTool = tool(
+    async ({ key, value }) => {
+      const normalized = normalizePreferenceKey(key);
+      if (!normalized) {
+        return JSON.stringify({ error: "key must contain letters or digits" });
+      }
+      try {
+        if (!(await rememberPreference(client, userId, normalized, value))) {
+          return JSON.stringify({ error: `Only ${MAX_PREFERENCES} preferences can be remembered. Forget one first.` });
+        }
+        return JSON.stringify({ remembered: normalized, value });
+      } catch (error: any) {
+        console.error("Error in remember preference tool:", error);
+        return JSON.stringify({ error: error.message });
+      }
+    },
+    {
+      name: "remember_preference",
+      description:
+        "Remembers something the user has told you about themselves for future conversations, such as their home city, music taste, budget or dietary needs. Saving an existing key replaces its value.",
+      schema: z.object({
+        key: z.string().describe("Short snake_case name, e.g. home_city, music, budget, dietary"),
+        value: z.string().min(1).describe("The preference in the user's own terms, e.g. Amapiano and Afrobeats"),
+      }),
+    }
+  );
+
+  const forgetTool = tool(
+    async ({ key }) => {
+      const normalized = normalizePreferenceKey(key);
+      try {
+        const forgotten = await forgetPreference(client, userId, normalized);
+        return JSON.stringify(forgotten ? { forgotten: normalized } : { error: `Nothing is remembered under ${normalized}` });
+      } catch (error: any) {
+        console.error("Error in forget preference tool:", error);
+        return JSON.stringify({ error: error.message });
+      }
+    },
+    {
+      name: "forget_preference",
+      description: "Forgets a remembered preference when the user asks you to or says it no longer applies.",
+      schema: z.object({
+        key: z.string().describe("The key the preference was remembered under"),
+      }),
+    }
+  );
+
+  return [rememberTool, forgetTool];
+}
+
+// Lets users see and delete what the agents remember about them. With auth on, only their own
+export function createUsersRouter(client: MongoClient): Router {
+  const router = Router();
+
+  router.param("userId", (req, res, next, userId) => {
+    if (!UserIdSchema.safeParse(userId).success) {
+      res.status(400).json({ error: "Invalid userId" });
+      return;
+    }
+    const auth = authOf(res);
+    if (auth && auth.userId !== userId) {
+      res.status(403).json({ error: "Forbidden" });
+      return;
+    }
+    next();
+  });
+
+  router.get("/:userId/profile", async (req: Request, res: Response) => {
+    try {
+      const profile = await getUserProfile(client, req.params.userId);
+      if (!profile) {
+        res.status(404).json({ error: "Profile not found" });
+        return;
+      }
+      res.json({ profile });
+    } catch (error) {
+      console.error("Error getting user profile: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  router.delete("/:userId/profile", async (req: Request, res: Response) => {
+    try {
+      if (!(await deleteUserProfile(client, req.params.userId))) {
+        res.status(404).json({ error: "Profile not found" });
+        return;
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting user profile: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  router.delete("/:userId/profile/preferences/:key", async (req: Request, res: Response) => {
+    try {
+      if (!(await forgetPreference(client, req.params.userId, normalizePreferenceKey(req.params.key)))) {
+        res.status(404).json({ error: "Preference not found" });
+        return;
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting user preference: ", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  return router;
+}